@@ -0,0 +1,71 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+//
+// Compares ExpandingBuffer against the Buffer.concat-per-write approach it used to take, for small-write workloads.
+//   Run with `yarn bench`.
+//
+
+import { ExpandingBuffer } from './../src/ExpandingBuffer'
+
+interface Writable {
+  write (input: Buffer): Promise<number>
+}
+
+// the previous ExpandingBuffer implementation, kept as a baseline
+class ConcatBuffer implements Writable {
+  public buf: Buffer = Buffer.alloc(0)
+
+  public async write (input: Buffer): Promise<number> {
+    this.buf = Buffer.concat([this.buf, input], this.buf.length + input.length)
+
+    return this.buf.length
+  }
+}
+
+interface Workload {
+  name: string
+  writes: number
+  size: number
+}
+
+const workloads: Workload[] = [
+  { name: '1-byte writes', writes: 20000, size: 1 },
+  { name: '16-byte writes', writes: 10000, size: 16 },
+  { name: '256-byte writes', writes: 4000, size: 256 }
+]
+
+async function time (create: () => Writable, workload: Workload): Promise<number> {
+  const chunk = Buffer.alloc(workload.size, 0xAA)
+  const dest = create()
+  const start = process.hrtime.bigint()
+  for (let i = 0; i < workload.writes; i++) {
+    await dest.write(chunk)
+  }
+
+  return Number(process.hrtime.bigint() - start) / 1e6
+}
+
+async function run (): Promise<void> {
+  for (const workload of workloads) {
+    const total = workload.writes * workload.size
+    const concat = await time(() => new ConcatBuffer(), workload)
+    const amortized = await time(() => new ExpandingBuffer(), workload)
+    const presized = await time(() => new ExpandingBuffer({ initialCapacity: total }), workload)
+
+    console.log(`${workload.name} (${workload.writes} writes, ${total} bytes)`)
+    console.log(`  Buffer.concat per write:       ${concat.toFixed(2)}ms`)
+    console.log(`  ExpandingBuffer:               ${amortized.toFixed(2)}ms (${(concat / amortized).toFixed(1)}x)`)
+    console.log(`  ExpandingBuffer, presized:     ${presized.toFixed(2)}ms (${(concat / presized).toFixed(1)}x)`)
+  }
+}
+
+run().catch(err => {
+  console.error(err)
+  process.exitCode = 1
+})
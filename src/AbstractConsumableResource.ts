@@ -0,0 +1,843 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { Readable } from 'stream'
+
+import { AlignOptions, ConsumableResource, SearchOptions, alignmentPadding } from './ConsumableResource'
+import { DelimiterOptions, LineOptions, readLine, readUntil } from './Delimiters'
+import { HashObserver } from './Hashes'
+import { NumericType, NumericValue, decodeNumeric, numericSize } from './NumericTypes'
+import { FixedStringOptions, LengthPrefixType, StringOptions, readCString, readFixedString, readPrefixedString } from './Strings'
+import { readSLEB128, readULEB128, readVLQ, zigzagDecode } from './Varint'
+
+/**
+ * Default chunk size used when iterating over a resource, in bytes.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+export const DEFAULT_CHUNK_SIZE = 64 * 1024
+
+/**
+ * Shared implementation of the higher-level ConsumableResource methods.
+ *   Subclasses only need to provide the primitive reset/read/seek/aseek methods; everything else is built on top of those.
+ */
+export abstract class AbstractConsumableResource implements ConsumableResource {
+  /**
+   * Hash observers digesting everything read.
+   *
+   * @private
+   */
+  public observers: HashObserver[] = []
+
+  public abstract readonly position: number
+
+  public abstract readonly length: number
+
+  public abstract reset (): Promise<void>
+
+  public abstract read (bytes: number): Promise<Buffer>
+
+  public abstract seek (bytes: number): Promise<void>
+
+  public abstract aseek (bytes: number): Promise<void>
+
+  public abstract peek (bytes: number): Promise<Buffer>
+
+  public abstract subview (offset: number, length: number): ConsumableResource
+
+  /**
+   * Reads bytes at an absolute offset without moving the position; fewer bytes are returned when the resource ends sooner.
+   *
+   * @private
+   * @param  offset - Where to read from.
+   * @param  bytes - The most bytes to read.
+   * @return {Promise<Buffer>}
+   */
+  protected abstract readAt (offset: number, bytes: number): Promise<Buffer>
+
+  /**
+   * Attaches a HashObserver, which will digest every byte read from here on - until it's detached.
+   *   Bytes that are only peeked at, or skipped over by seeking, are not digested.
+   *
+   * @param  observer - The observer to attach.
+   * @return {T} - Returns the observer, for convenience.
+   *
+   * @example
+   * ```
+   * const cfile = new ConsumableFile('/path/to/file.png')
+   * await cfile.open()
+   * await cfile.seek(12)
+   *
+   * const crc = cfile.attach(new CRC32())
+   * const type = await cfile.read(4)
+   * const data = await cfile.read(length)
+   * cfile.detach(crc)
+   *
+   * crc.value === await cfile.readUInt32BE() // the chunk's CRC checks out
+   * ```
+   */
+  public attach<T extends HashObserver> (observer: T): T {
+    if (!this.observers.includes(observer)) {
+      this.observers.push(observer)
+    }
+
+    return observer
+  }
+
+  /**
+   * Detaches a previously attached HashObserver, so that it digests nothing further.  Detaching an observer that isn't attached does nothing.
+   *
+   * @param  observer - The observer to detach.
+   * @return {void}
+   */
+  public detach (observer: HashObserver): void {
+    this.observers = this.observers.filter(attached => attached !== observer)
+  }
+
+  /**
+   * Passes bytes read on to every attached HashObserver.
+   *
+   * @private
+   * @param  chunk - The bytes read.
+   * @return {void}
+   */
+  public notify (chunk: Buffer): void {
+    for (const observer of this.observers) {
+      observer.update(chunk)
+    }
+  }
+
+  /**
+   * Validates the window requested for a subview against the bounds of this resource.
+   *
+   * @private
+   * @param  offset - Where the window starts.
+   * @param  length - How many bytes long the window is.
+   * @return {void}
+   *
+   * @throws {Error} - Throws when the offset or length aren't non-negative integers.
+   * @throws {RangeError} - Throws when the window extends beyond the resource.
+   */
+  protected assertSubview (offset: number, length: number): void {
+    if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(length) || length < 0) {
+      throw new Error('Offset and length parameters must be positive integers.')
+    }
+
+    if (offset + length > this.length) {
+      throw new RangeError('Subview extends beyond the resource.')
+    }
+  }
+
+  /**
+   * How many bytes are left to read from the current position.
+   *
+   * @return {number}
+   *
+   * @example
+   * ```
+   * const cbuf = new ConsumableBuffer(Buffer.from('TEST'))
+   * await cbuf.read(1)
+   *
+   * cbuf.position // 1
+   * cbuf.length // 4
+   * cbuf.remaining() // 3
+   * ```
+   */
+  public remaining (): number {
+    return this.length - this.position
+  }
+
+  /**
+   * Whether everything in the resource has been read.
+   *
+   * @return {boolean}
+   */
+  public eof (): boolean {
+    return this.remaining() <= 0
+  }
+
+  /**
+   * Validates the arguments for chunk iteration, returning the absolute offset to stop at.
+   *
+   * @private
+   * @param  size - The largest chunk to yield.
+   * @param  end - Where to stop iterating, if given.
+   * @return {number}
+   *
+   * @throws {Error} - Throws when the size isn't a positive integer, or the end isn't a non-negative integer.
+   * @throws {RangeError} - Throws when the end lies before the current position or beyond the resource.
+   */
+  protected chunkBounds (size: number, end?: number): number {
+    if (!Number.isInteger(size) || size <= 0) {
+      throw new Error('Size parameter must be a positive integer.')
+    }
+
+    if (end === undefined) {
+      return this.length
+    }
+
+    if (!Number.isInteger(end) || end < 0) {
+      throw new Error('End parameter must be a positive integer.')
+    }
+
+    if (end < this.position || end > this.length) {
+      throw new RangeError('Chunk iteration end must lie between the current position and the end of the resource.')
+    }
+
+    return end
+  }
+
+  /**
+   * Iterates over the resource in chunks, starting at the current position and advancing it as it goes.
+   *   Every chunk is full-sized, save for the last.
+   *
+   * @param  size - (optional) The largest chunk to yield, in bytes; defaults to 64KiB.
+   * @param  end - (optional) Where to stop iterating, as an absolute offset; defaults to the end of the resource.
+   * @return {AsyncGenerator<Buffer>}
+   *
+   * @throws {Error} - Throws when the size isn't a positive integer, or the end isn't a non-negative integer.
+   * @throws {RangeError} - Throws when the end lies before the current position or beyond the resource.
+   *
+   * @example
+   * ```
+   * const cfile = new ConsumableFile('/path/to/archive.bin')
+   * await cfile.open()
+   * await cfile.aseek(512)
+   *
+   * for await (const chunk of cfile.chunks(64 * 1024, 4096)) {
+   *   // bytes 512 through 4095 of the file, in a single chunk
+   * }
+   * ```
+   */
+  public async * chunks (size: number = DEFAULT_CHUNK_SIZE, end?: number): AsyncGenerator<Buffer> {
+    const stop = this.chunkBounds(size, end)
+    while (this.position < stop) {
+      yield await this.read(Math.min(size, stop - this.position))
+    }
+  }
+
+  /**
+   * Iterates over the rest of the resource in 64KiB chunks - equivalent to ConsumableResource.chunks().
+   *
+   * @return {AsyncGenerator<Buffer>}
+   *
+   * @example
+   * ```
+   * const cbuf = new ConsumableBuffer(Buffer.from('TEST'))
+   * for await (const chunk of cbuf) {
+   *   // chunk would equal <Buffer 54 45 53 54>
+   * }
+   * ```
+   */
+  public [Symbol.asyncIterator] (): AsyncGenerator<Buffer> {
+    return this.chunks()
+  }
+
+  /**
+   * Adapts the rest of the resource into a Readable stream, consuming the resource as the stream is read.
+   *
+   * @param  size - (optional) The largest chunk to push into the stream at once, in bytes; defaults to 64KiB.
+   * @param  end - (optional) Where to stop, as an absolute offset; defaults to the end of the resource.
+   * @return {Readable}
+   *
+   * @example
+   * ```
+   * const cfile = new ConsumableFile('/path/to/file.txt')
+   * await cfile.open()
+   *
+   * cfile.toReadable().pipe(zlib.createGzip()).pipe(fs.createWriteStream('/path/to/file.txt.gz'))
+   * ```
+   */
+  public toReadable (size?: number, end?: number): Readable {
+    return Readable.from(this.chunks(size, end), { objectMode: false })
+  }
+
+  /**
+   * Searches for a byte pattern without moving the position, reading through the range in bounded chunks that overlap
+   *   by the pattern's length, so that memory use stays flat however large the resource is.
+   *
+   * @param  pattern - The bytes to search for; strings are treated as utf8, and numbers as a single byte.
+   * @param  options - (optional) The range to search, and which direction to search it in.
+   * @return {Promise<number>} - Returns the absolute offset of the match, or -1 when there is none.
+   *
+   * @throws {Error} - Throws when the pattern is empty, or the range isn't made up of non-negative integers.
+   * @throws {RangeError} - Throws when the range is reversed or extends beyond the resource.
+   * @throws {Error} - Throws when searching backwards through a resource of unknown length without a range end.
+   *
+   * @example
+   * ```
+   * const cfile = new ConsumableFile('/path/to/archive.zip')
+   * await cfile.open()
+   *
+   * // the ZIP end of central directory record sits within the last 64KiB + 22 bytes
+   * const eocd = await cfile.indexOf(Buffer.from([0x50, 0x4B, 0x05, 0x06]), {
+   *   from: Math.max(0, cfile.length - 65557),
+   *   backwards: true
+   * })
+   * ```
+   */
+  public async indexOf (pattern: Buffer | string | number, options: SearchOptions = {}): Promise<number> {
+    const needle = Buffer.isBuffer(pattern) ? pattern : typeof pattern === 'string' ? Buffer.from(pattern) : Buffer.from([pattern])
+    if (needle.length === 0) {
+      throw new Error('Pattern must not be empty.')
+    }
+
+    const from = options.from ?? this.position
+    const to = options.to ?? this.length
+    if (!Number.isInteger(from) || from < 0 || (to !== Infinity && (!Number.isInteger(to) || to < 0))) {
+      throw new Error('From and to options must be positive integers.')
+    }
+
+    if (from > to || to > this.length) {
+      throw new RangeError('Search range must lie within the resource, with from no greater than to.')
+    }
+
+    // consecutive chunks overlap by all but one byte of the pattern, so matches straddling a chunk boundary are still found
+    const overlap = needle.length - 1
+    if (options.backwards !== true) {
+      let start = from
+      while (to - start >= needle.length) {
+        const bytes = Math.min(DEFAULT_CHUNK_SIZE + overlap, to - start)
+        const buf = await this.readAt(start, bytes)
+        const index = buf.indexOf(needle)
+        if (index !== -1) {
+          return start + index
+        }
+
+        if (buf.length < bytes) {
+          break
+        }
+        start += buf.length - overlap
+      }
+
+      return -1
+    }
+
+    if (to === Infinity) {
+      throw new Error('Searching backwards requires the resource\'s length to be known, or the to option.')
+    }
+
+    let end = to
+    while (end - from >= needle.length) {
+      const start = Math.max(from, end - DEFAULT_CHUNK_SIZE - overlap)
+      const buf = await this.readAt(start, end - start)
+      const index = buf.lastIndexOf(needle)
+      if (index !== -1) {
+        return start + index
+      }
+
+      if (start === from) {
+        break
+      }
+      end = start + overlap
+    }
+
+    return -1
+  }
+
+  /**
+   * Moves the position forward to the start of the next occurrence of a byte pattern.
+   *
+   * @param  pattern - The bytes to search for; strings are treated as utf8, and numbers as a single byte.
+   * @param  to - (optional) Where to stop searching (exclusive), as an absolute offset; defaults to the end of the resource.
+   * @return {Promise<number>} - Returns the absolute offset of the match, or -1 when there is none, leaving the position untouched.
+   *
+   * @throws {Error} - Throws when the pattern is empty.
+   * @throws {RangeError} - Throws when the search end lies before the current position or beyond the resource.
+   *
+   * @example
+   * ```
+   * const cbuf = new ConsumableBuffer(jpeg)
+   * if (await cbuf.scanTo(Buffer.from([0xFF, 0xDA])) !== -1) {
+   *   // positioned at the start of scan marker
+   * }
+   * ```
+   */
+  public async scanTo (pattern: Buffer | string | number, to?: number): Promise<number> {
+    const index = await this.indexOf(pattern, { from: this.position, to })
+    if (index !== -1) {
+      await this.aseek(index)
+    }
+
+    return index
+  }
+
+  /**
+   * Reads and consumes padding up to the next multiple of the given number of bytes, measured from a base offset.
+   *   The padding is read rather than seeked over, so attached HashObservers digest it.
+   *
+   * @param  boundary - The alignment, in bytes.
+   * @param  options - (optional) The offset boundaries are measured from, and whether to verify the padding is zero.
+   * @return {Promise<number>} - Returns how many bytes were skipped.
+   *
+   * @throws {Error} - Throws when the boundary isn't a positive integer, or the base isn't a non-negative integer.
+   * @throws {Error} - Throws when verifying and the padding isn't all zeros; nothing is consumed in that case.
+   * @throws {RangeError} - Throws when the resource ends before the boundary.
+   *
+   * @example
+   * ```
+   * const cbuf = new ConsumableBuffer(Buffer.from([0x61, 0x62, 0x63, 0x00, 0x01]))
+   * await cbuf.read(3)
+   *
+   * await cbuf.align(4, { verifyZero: true }) // 1
+   * await cbuf.readUInt8() // 1
+   * ```
+   */
+  public async align (boundary: number, options: AlignOptions = {}): Promise<number> {
+    const padding = alignmentPadding(this.position, boundary, options.base)
+    if (padding === 0) {
+      return 0
+    }
+
+    if (options.verifyZero === true) {
+      const index = (await this.peek(padding)).findIndex(byte => byte !== 0)
+      if (index !== -1) {
+        throw new Error(`Non-zero padding byte at offset ${this.position + index}.`)
+      }
+    }
+    await this.read(padding)
+
+    return padding
+  }
+
+  /**
+   * Reads and consumes a single numeric value of the given type from the resource.
+   *
+   * @param  type - The numeric type to read.
+   * @return {Promise<NumericValue<T>>} - Returns the decoded value; a bigint for 64-bit integer types, a number otherwise.
+   *
+   * @throws {TypeError} - Throws when the numeric type is unknown.
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   *
+   * @example
+   * ```
+   * const cbuf = new ConsumableBuffer(Buffer.from([0x01, 0x00, 0x00, 0x00, 0xFF]))
+   *
+   * await cbuf.readNumeric('uint32le') // 1
+   * await cbuf.readNumeric('int8') // -1
+   * ```
+   */
+  public async readNumeric<T extends NumericType> (type: T): Promise<NumericValue<T>> {
+    const buf = await this.read(numericSize(type))
+
+    return decodeNumeric(type, buf)
+  }
+
+  /**
+   * Reads an upcoming numeric value of the given type without consuming it.
+   *
+   * @param  type - The numeric type to peek at.
+   * @return {Promise<NumericValue<T>>} - Returns the decoded value; a bigint for 64-bit integer types, a number otherwise.
+   *
+   * @throws {TypeError} - Throws when the numeric type is unknown.
+   * @throws {RangeError} - Throws when we try to peek beyond the resource's contents.
+   *
+   * @example
+   * ```
+   * const cbuf = new ConsumableBuffer(Buffer.from([0x50, 0x4B, 0x03, 0x04]))
+   *
+   * if (await cbuf.peekNumeric('uint32le') === 0x04034B50) {
+   *   // a ZIP local file header - and we're still at its first byte
+   * }
+   * ```
+   */
+  public async peekNumeric<T extends NumericType> (type: T): Promise<NumericValue<T>> {
+    const buf = await this.peek(numericSize(type))
+
+    return decodeNumeric(type, buf)
+  }
+
+  /**
+   * Reads and consumes an unsigned 8-bit integer.
+   *
+   * @return {Promise<number>}
+   *
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   */
+  public async readUInt8 (): Promise<number> {
+    return this.readNumeric('uint8')
+  }
+
+  /**
+   * Reads and consumes a signed 8-bit integer.
+   *
+   * @return {Promise<number>}
+   *
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   */
+  public async readInt8 (): Promise<number> {
+    return this.readNumeric('int8')
+  }
+
+  /**
+   * Reads and consumes an unsigned little-endian 16-bit integer.
+   *
+   * @return {Promise<number>}
+   *
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   */
+  public async readUInt16LE (): Promise<number> {
+    return this.readNumeric('uint16le')
+  }
+
+  /**
+   * Reads and consumes an unsigned big-endian 16-bit integer.
+   *
+   * @return {Promise<number>}
+   *
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   */
+  public async readUInt16BE (): Promise<number> {
+    return this.readNumeric('uint16be')
+  }
+
+  /**
+   * Reads and consumes a signed little-endian 16-bit integer.
+   *
+   * @return {Promise<number>}
+   *
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   */
+  public async readInt16LE (): Promise<number> {
+    return this.readNumeric('int16le')
+  }
+
+  /**
+   * Reads and consumes a signed big-endian 16-bit integer.
+   *
+   * @return {Promise<number>}
+   *
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   */
+  public async readInt16BE (): Promise<number> {
+    return this.readNumeric('int16be')
+  }
+
+  /**
+   * Reads and consumes an unsigned little-endian 24-bit integer.
+   *
+   * @return {Promise<number>}
+   *
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   */
+  public async readUInt24LE (): Promise<number> {
+    return this.readNumeric('uint24le')
+  }
+
+  /**
+   * Reads and consumes an unsigned big-endian 24-bit integer.
+   *
+   * @return {Promise<number>}
+   *
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   */
+  public async readUInt24BE (): Promise<number> {
+    return this.readNumeric('uint24be')
+  }
+
+  /**
+   * Reads and consumes a signed little-endian 24-bit integer.
+   *
+   * @return {Promise<number>}
+   *
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   */
+  public async readInt24LE (): Promise<number> {
+    return this.readNumeric('int24le')
+  }
+
+  /**
+   * Reads and consumes a signed big-endian 24-bit integer.
+   *
+   * @return {Promise<number>}
+   *
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   */
+  public async readInt24BE (): Promise<number> {
+    return this.readNumeric('int24be')
+  }
+
+  /**
+   * Reads and consumes an unsigned little-endian 32-bit integer.
+   *
+   * @return {Promise<number>}
+   *
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   */
+  public async readUInt32LE (): Promise<number> {
+    return this.readNumeric('uint32le')
+  }
+
+  /**
+   * Reads and consumes an unsigned big-endian 32-bit integer.
+   *
+   * @return {Promise<number>}
+   *
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   */
+  public async readUInt32BE (): Promise<number> {
+    return this.readNumeric('uint32be')
+  }
+
+  /**
+   * Reads and consumes a signed little-endian 32-bit integer.
+   *
+   * @return {Promise<number>}
+   *
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   */
+  public async readInt32LE (): Promise<number> {
+    return this.readNumeric('int32le')
+  }
+
+  /**
+   * Reads and consumes a signed big-endian 32-bit integer.
+   *
+   * @return {Promise<number>}
+   *
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   */
+  public async readInt32BE (): Promise<number> {
+    return this.readNumeric('int32be')
+  }
+
+  /**
+   * Reads and consumes an unsigned little-endian 64-bit integer.
+   *
+   * @return {Promise<bigint>}
+   *
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   */
+  public async readBigUInt64LE (): Promise<bigint> {
+    return this.readNumeric('uint64le')
+  }
+
+  /**
+   * Reads and consumes an unsigned big-endian 64-bit integer.
+   *
+   * @return {Promise<bigint>}
+   *
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   */
+  public async readBigUInt64BE (): Promise<bigint> {
+    return this.readNumeric('uint64be')
+  }
+
+  /**
+   * Reads and consumes a signed little-endian 64-bit integer.
+   *
+   * @return {Promise<bigint>}
+   *
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   */
+  public async readBigInt64LE (): Promise<bigint> {
+    return this.readNumeric('int64le')
+  }
+
+  /**
+   * Reads and consumes a signed big-endian 64-bit integer.
+   *
+   * @return {Promise<bigint>}
+   *
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   */
+  public async readBigInt64BE (): Promise<bigint> {
+    return this.readNumeric('int64be')
+  }
+
+  /**
+   * Reads and consumes a little-endian 32-bit float.
+   *
+   * @return {Promise<number>}
+   *
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   */
+  public async readFloatLE (): Promise<number> {
+    return this.readNumeric('float32le')
+  }
+
+  /**
+   * Reads and consumes a big-endian 32-bit float.
+   *
+   * @return {Promise<number>}
+   *
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   */
+  public async readFloatBE (): Promise<number> {
+    return this.readNumeric('float32be')
+  }
+
+  /**
+   * Reads and consumes a little-endian 64-bit float.
+   *
+   * @return {Promise<number>}
+   *
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   */
+  public async readDoubleLE (): Promise<number> {
+    return this.readNumeric('float64le')
+  }
+
+  /**
+   * Reads and consumes a big-endian 64-bit float.
+   *
+   * @return {Promise<number>}
+   *
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   */
+  public async readDoubleBE (): Promise<number> {
+    return this.readNumeric('float64be')
+  }
+
+  /**
+   * Reads and consumes an unsigned LEB128 variable-length integer.
+   *
+   * @return {Promise<number>}
+   *
+   * @throws {Error} - Throws when the encoding is malformed or overlong.
+   * @throws {RangeError} - Throws when the value isn't a safe integer, or we try to read beyond the resource's contents.
+   *
+   * @example
+   * ```
+   * const cbuf = new ConsumableBuffer(Buffer.from([0xE5, 0x8E, 0x26]))
+   * await cbuf.readULEB128() // 624485
+   * ```
+   */
+  public async readULEB128 (): Promise<number> {
+    return readULEB128(this)
+  }
+
+  /**
+   * Reads and consumes a signed LEB128 variable-length integer.
+   *
+   * @return {Promise<number>}
+   *
+   * @throws {Error} - Throws when the encoding is malformed or overlong.
+   * @throws {RangeError} - Throws when the value isn't a safe integer, or we try to read beyond the resource's contents.
+   */
+  public async readSLEB128 (): Promise<number> {
+    return readSLEB128(this)
+  }
+
+  /**
+   * Reads and consumes a zigzag-encoded signed integer stored as unsigned LEB128 (as used by protobuf's sint types).
+   *
+   * @return {Promise<number>}
+   *
+   * @throws {Error} - Throws when the encoding is malformed or overlong.
+   * @throws {RangeError} - Throws when the value isn't a safe integer, or we try to read beyond the resource's contents.
+   */
+  public async readZigZag (): Promise<number> {
+    return zigzagDecode(await readULEB128(this))
+  }
+
+  /**
+   * Reads and consumes a MIDI-style variable-length quantity (big-endian groups of 7 bits, at most 4 bytes).
+   *
+   * @return {Promise<number>}
+   *
+   * @throws {Error} - Throws when the encoding is malformed or overlong.
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   */
+  public async readVLQ (): Promise<number> {
+    return readVLQ(this)
+  }
+
+  /**
+   * Reads and consumes a NUL-terminated string, including its terminator.
+   *   For utf16le strings the terminator is a two byte NUL code unit.
+   *
+   * @param  options - (optional) Encoding (utf8 by default) and maximum length in bytes of the string.
+   * @return {Promise<string>}
+   *
+   * @throws {RangeError} - Throws when no terminator is found within maxLength bytes.
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   *
+   * @example
+   * ```
+   * const cbuf = new ConsumableBuffer(Buffer.from('TEST\0MORE'))
+   * await cbuf.readCString() // 'TEST'
+   * ```
+   */
+  public async readCString (options: StringOptions = {}): Promise<string> {
+    return readCString(this, options)
+  }
+
+  /**
+   * Reads and consumes a string preceded by its length in bytes.
+   *
+   * @param  prefix - The integer type holding the length of the string, or "uleb128" for a varint length.
+   * @param  options - (optional) Encoding (utf8 by default) and maximum length in bytes of the string.
+   * @return {Promise<string>}
+   *
+   * @throws {RangeError} - Throws when the length exceeds maxLength.
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   */
+  public async readPrefixedString (prefix: LengthPrefixType, options: StringOptions = {}): Promise<string> {
+    return readPrefixedString(this, prefix, options)
+  }
+
+  /**
+   * Reads and consumes a fixed-width string field, stripping its padding.
+   *   NUL-padded fields end at the first NUL; space-padded fields have trailing spaces removed.
+   *
+   * @param  length - The width of the field, in bytes.
+   * @param  options - (optional) Encoding (utf8 by default) and padding ("nul" by default) of the field.
+   * @return {Promise<string>}
+   *
+   * @throws {RangeError} - Throws when we try to read beyond the resource's contents.
+   */
+  public async readFixedString (length: number, options: FixedStringOptions = {}): Promise<string> {
+    return readFixedString(this, length, options)
+  }
+
+  /**
+   * Reads and consumes everything up to the next occurrence of a delimiter, consuming the delimiter as well.
+   *   Nothing is consumed if the delimiter can't be found.
+   *
+   * @param  delimiter - The bytes to read up to; strings are treated as utf8, and numbers as a single byte.
+   * @param  options - (optional) The most bytes to read, and whether to include the delimiter in what's returned.
+   * @return {Promise<Buffer>}
+   *
+   * @throws {Error} - Throws when the delimiter is empty, or maxBytes isn't a non-negative integer.
+   * @throws {DelimiterNotFoundError} - Throws when the delimiter isn't found within maxBytes, or before the end of the resource.
+   *
+   * @example
+   * ```
+   * const cbuf = new ConsumableBuffer(Buffer.from('Content-Length: 4\r\n\r\nTEST'))
+   * await cbuf.readUntil('\r\n\r\n', { maxBytes: 8192 }) // <Buffer 43 6f 6e ... 34>
+   * await cbuf.read(4) // <Buffer 54 45 53 54>
+   * ```
+   */
+  public async readUntil (delimiter: Buffer | string | number, options: DelimiterOptions = {}): Promise<Buffer> {
+    return readUntil(this, delimiter, options)
+  }
+
+  /**
+   * Reads and consumes a line, consuming its "\n" or "\r\n" line ending without returning it.
+   *   A final line without a line ending is returned as-is.
+   *
+   * @param  options - (optional) Encoding and maximum length of the line.
+   * @return {Promise<string>}
+   *
+   * @throws {DelimiterNotFoundError} - Throws when the line is longer than maxBytes, or the resource has already been read entirely.
+   *
+   * @example
+   * ```
+   * const cbuf = new ConsumableBuffer(Buffer.from('P5\n640 480\r\n255'))
+   * await cbuf.readLine() // 'P5'
+   * await cbuf.readLine() // '640 480'
+   * await cbuf.readLine() // '255'
+   * ```
+   */
+  public async readLine (options: LineOptions = {}): Promise<string> {
+    return readLine(this, options)
+  }
+}
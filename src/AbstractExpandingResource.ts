@@ -0,0 +1,508 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { alignmentPadding } from './ConsumableResource'
+import { ExpandingResource, FillOptions } from './ExpandingResource'
+import { Endianness, NumericType, NumericValue, encodeNumeric, isNumericType, numericSize, withEndianness } from './NumericTypes'
+import { HashObserver } from './Hashes'
+import { Placeholder } from './Placeholder'
+import { FixedStringOptions, LengthPrefixType, StringOptions, writeCString, writeFixedString, writePrefixedString } from './Strings'
+import { encodeSLEB128, encodeULEB128, encodeVLQ, zigzagEncode } from './Varint'
+
+/**
+ * Shared implementation of the higher-level ExpandingResource methods.
+ *   Subclasses only need to provide the primitive write method; everything else is built on top of it.
+ */
+export abstract class AbstractExpandingResource implements ExpandingResource {
+  public abstract position: number
+
+  /**
+   * The byte order used by the typed write methods when no per-call byte order is given.
+   *   Defaults to little-endian.
+   */
+  public endianness: Endianness = 'LE'
+
+  /**
+   * Every placeholder reserved within the resource, filled or not.
+   *
+   * @private
+   */
+  public placeholders: Placeholder[] = []
+
+  /**
+   * Hash observers digesting everything written.
+   *
+   * @private
+   */
+  public observers: HashObserver[] = []
+
+  public abstract write (input: Buffer | number[] | number | string): Promise<number>
+
+  public abstract writeAt (offset: number, input: Buffer | number[] | number | string): Promise<void>
+
+  /**
+   * Attaches a HashObserver, which will digest every byte written from here on - until it's detached.
+   *   Positioned writes are not digested, as they overwrite bytes already seen; reserved placeholders are digested as the zeros first written.
+   *
+   * @param  observer - The observer to attach.
+   * @return {T} - Returns the observer, for convenience.
+   *
+   * @example
+   * ```
+   * const sbuf = new ExpandingBuffer()
+   * const sha = sbuf.attach(new CryptoHash('sha1'))
+   *
+   * await sbuf.write('test')
+   * sbuf.detach(sha)
+   * await sbuf.write(sha.digest())
+   * ```
+   */
+  public attach<T extends HashObserver> (observer: T): T {
+    if (!this.observers.includes(observer)) {
+      this.observers.push(observer)
+    }
+
+    return observer
+  }
+
+  /**
+   * Detaches a previously attached HashObserver, so that it digests nothing further.  Detaching an observer that isn't attached does nothing.
+   *
+   * @param  observer - The observer to detach.
+   * @return {void}
+   */
+  public detach (observer: HashObserver): void {
+    this.observers = this.observers.filter(attached => attached !== observer)
+  }
+
+  /**
+   * Passes bytes written on to every attached HashObserver.
+   *
+   * @private
+   * @param  chunk - The bytes written.
+   * @return {void}
+   */
+  public notify (chunk: Buffer): void {
+    for (const observer of this.observers) {
+      observer.update(chunk)
+    }
+  }
+
+  /**
+   * Converts anything write() accepts into a Buffer.
+   *
+   * @private
+   * @param  input - What to convert.
+   * @return {Buffer}
+   */
+  protected toBuffer (input: Buffer | number[] | number | string): Buffer {
+    if (Buffer.isBuffer(input)) {
+      return input
+    } else if (Array.isArray(input)) {
+      // possible typescript bug - typescript can't seem to handle the overloading
+      //   when we combine the Array check and string check.
+      return Buffer.from(input)
+    } else if (typeof input === 'string') {
+      return Buffer.from(input)
+    }
+
+    return Buffer.from([input])
+  }
+
+  /**
+   * Validates the target of a positioned write against what has been written so far.
+   *
+   * @private
+   * @param  offset - Where the write starts.
+   * @param  length - How many bytes are being written.
+   * @return {void}
+   *
+   * @throws {Error} - Throws when the offset isn't a non-negative integer.
+   * @throws {RangeError} - Throws when the write would extend beyond what has already been written.
+   */
+  protected assertWriteAt (offset: number, length: number): void {
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new Error('Offset parameter must be a positive integer.')
+    }
+
+    if (offset + length > this.position) {
+      throw new RangeError('Positioned write extends beyond the written data.')
+    }
+  }
+
+  /**
+   * Reserves space at the current position to be filled in later, such as a size or offset field in a header.
+   *   The space is zero-filled until the returned Placeholder is filled in.
+   *
+   * @param  size - How many bytes to reserve, or the numeric type whose size should be reserved.
+   * @return {Promise<Placeholder>} - Returns a handle to fill the reserved space in with.
+   *
+   * @throws {Error} - Throws when the size isn't a non-negative integer or a known numeric type.
+   *
+   * @example
+   * ```
+   * const sbuf = new ExpandingBuffer()
+   * await sbuf.write('HEAD')
+   * const bodyLength = await sbuf.reserve('uint32le')
+   *
+   * await sbuf.write('the body')
+   * await bodyLength.fillNumeric('uint32le', sbuf.position - 8)
+   *
+   * // sbuf.buf would contain "HEAD", <08 00 00 00>, then "the body"
+   * ```
+   */
+  public async reserve (size: number | NumericType): Promise<Placeholder> {
+    const length = isNumericType(size) ? numericSize(size) : size
+    if (!Number.isInteger(length) || length < 0) {
+      throw new Error('Size parameter must be a positive integer or a numeric type.')
+    }
+
+    const placeholder = new Placeholder(this, this.position, length)
+    await this.write(Buffer.alloc(length))
+    this.placeholders.push(placeholder)
+
+    return placeholder
+  }
+
+  /**
+   * Writes fill bytes up to the next multiple of the given number of bytes, measured from a base offset.
+   *
+   * @param  boundary - The alignment, in bytes.
+   * @param  options - (optional) The byte value to pad with, and the offset boundaries are measured from.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   *
+   * @throws {Error} - Throws when the boundary isn't a positive integer, or the base isn't a non-negative integer.
+   * @throws {RangeError} - Throws when the fill isn't a single byte value.
+   *
+   * @example
+   * ```
+   * const sbuf = new ExpandingBuffer()
+   * await sbuf.write('abc')
+   * await sbuf.align(8, { fill: 0x20 })
+   *
+   * // sbuf.buf would equal <Buffer 61 62 63 20 20 20 20 20>
+   * ```
+   */
+  public async align (boundary: number, options: FillOptions = {}): Promise<number> {
+    const fill = options.fill ?? 0
+    const padding = alignmentPadding(this.position, boundary, options.base)
+    if (!Number.isInteger(fill) || fill < 0 || fill > 0xFF) {
+      throw new RangeError('Fill must be a single byte value, from 0 to 255.')
+    }
+
+    if (padding === 0) {
+      return this.position
+    }
+
+    const length = await this.write(Buffer.alloc(padding, fill))
+
+    return length
+  }
+
+  /**
+   * Checks that every placeholder reserved within the resource has been filled in, forgetting about them afterwards.
+   *
+   * @private
+   * @return {void}
+   *
+   * @throws {Error} - Throws when any placeholder was left unfilled.
+   */
+  protected assertPlaceholdersFilled (): void {
+    const unfilled = this.placeholders.filter(placeholder => !placeholder.filled)
+    this.placeholders = []
+
+    if (unfilled.length > 0) {
+      const offsets = unfilled.map(placeholder => placeholder.offset).join(', ')
+      throw new Error(`${unfilled.length} reserved placeholder(s) left unfilled, at offset(s) ${offsets}.`)
+    }
+  }
+
+  /**
+   * Writes a single numeric value of the given type to the resource.
+   *
+   * @param  type - The numeric type to encode the value as.
+   * @param  value - The value to write; a bigint for 64-bit integer types, a number otherwise.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   *
+   * @throws {TypeError} - Throws when the numeric type is unknown.
+   * @throws {RangeError} - Throws when the value does not fit within the numeric type.
+   *
+   * @example
+   * ```
+   * const sbuf = new ExpandingBuffer()
+   * await sbuf.writeNumeric('uint16be', 0x1234)
+   * await sbuf.writeNumeric('int64le', BigInt(-1))
+   *
+   * // sbuf.buf would equal <Buffer 12 34 ff ff ff ff ff ff ff ff>
+   * ```
+   */
+  public async writeNumeric<T extends NumericType> (type: T, value: NumericValue<T>): Promise<number> {
+    return this.write(encodeNumeric(type, value))
+  }
+
+  /**
+   * Writes an unsigned 8-bit integer to the resource.
+   *
+   * @param  value - The value to write.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   *
+   * @throws {RangeError} - Throws when the value does not fit within the type.
+   */
+  public async writeUInt8 (value: number): Promise<number> {
+    return this.writeNumeric('uint8', value)
+  }
+
+  /**
+   * Writes a signed 8-bit integer to the resource.
+   *
+   * @param  value - The value to write.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   *
+   * @throws {RangeError} - Throws when the value does not fit within the type.
+   */
+  public async writeInt8 (value: number): Promise<number> {
+    return this.writeNumeric('int8', value)
+  }
+
+  /**
+   * Writes an unsigned 16-bit integer to the resource.
+   *
+   * @param  value - The value to write.
+   * @param  endianness - (optional) Byte order to write with, overriding the resource's default endianness.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   *
+   * @throws {RangeError} - Throws when the value does not fit within the type.
+   */
+  public async writeUInt16 (value: number, endianness: Endianness = this.endianness): Promise<number> {
+    return this.writeNumeric(withEndianness('uint16', endianness), value)
+  }
+
+  /**
+   * Writes a signed 16-bit integer to the resource.
+   *
+   * @param  value - The value to write.
+   * @param  endianness - (optional) Byte order to write with, overriding the resource's default endianness.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   *
+   * @throws {RangeError} - Throws when the value does not fit within the type.
+   */
+  public async writeInt16 (value: number, endianness: Endianness = this.endianness): Promise<number> {
+    return this.writeNumeric(withEndianness('int16', endianness), value)
+  }
+
+  /**
+   * Writes an unsigned 24-bit integer to the resource.
+   *
+   * @param  value - The value to write.
+   * @param  endianness - (optional) Byte order to write with, overriding the resource's default endianness.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   *
+   * @throws {RangeError} - Throws when the value does not fit within the type.
+   */
+  public async writeUInt24 (value: number, endianness: Endianness = this.endianness): Promise<number> {
+    return this.writeNumeric(withEndianness('uint24', endianness), value)
+  }
+
+  /**
+   * Writes a signed 24-bit integer to the resource.
+   *
+   * @param  value - The value to write.
+   * @param  endianness - (optional) Byte order to write with, overriding the resource's default endianness.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   *
+   * @throws {RangeError} - Throws when the value does not fit within the type.
+   */
+  public async writeInt24 (value: number, endianness: Endianness = this.endianness): Promise<number> {
+    return this.writeNumeric(withEndianness('int24', endianness), value)
+  }
+
+  /**
+   * Writes an unsigned 32-bit integer to the resource.
+   *
+   * @param  value - The value to write.
+   * @param  endianness - (optional) Byte order to write with, overriding the resource's default endianness.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   *
+   * @throws {RangeError} - Throws when the value does not fit within the type.
+   */
+  public async writeUInt32 (value: number, endianness: Endianness = this.endianness): Promise<number> {
+    return this.writeNumeric(withEndianness('uint32', endianness), value)
+  }
+
+  /**
+   * Writes a signed 32-bit integer to the resource.
+   *
+   * @param  value - The value to write.
+   * @param  endianness - (optional) Byte order to write with, overriding the resource's default endianness.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   *
+   * @throws {RangeError} - Throws when the value does not fit within the type.
+   */
+  public async writeInt32 (value: number, endianness: Endianness = this.endianness): Promise<number> {
+    return this.writeNumeric(withEndianness('int32', endianness), value)
+  }
+
+  /**
+   * Writes an unsigned 64-bit integer to the resource.
+   *
+   * @param  value - The value to write.
+   * @param  endianness - (optional) Byte order to write with, overriding the resource's default endianness.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   *
+   * @throws {RangeError} - Throws when the value does not fit within the type.
+   */
+  public async writeBigUInt64 (value: bigint, endianness: Endianness = this.endianness): Promise<number> {
+    return this.writeNumeric(withEndianness('uint64', endianness), value)
+  }
+
+  /**
+   * Writes a signed 64-bit integer to the resource.
+   *
+   * @param  value - The value to write.
+   * @param  endianness - (optional) Byte order to write with, overriding the resource's default endianness.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   *
+   * @throws {RangeError} - Throws when the value does not fit within the type.
+   */
+  public async writeBigInt64 (value: bigint, endianness: Endianness = this.endianness): Promise<number> {
+    return this.writeNumeric(withEndianness('int64', endianness), value)
+  }
+
+  /**
+   * Writes a 32-bit float to the resource.
+   *
+   * @param  value - The value to write.
+   * @param  endianness - (optional) Byte order to write with, overriding the resource's default endianness.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   *
+   * @throws {RangeError} - Throws when the value does not fit within the type.
+   */
+  public async writeFloat (value: number, endianness: Endianness = this.endianness): Promise<number> {
+    return this.writeNumeric(withEndianness('float32', endianness), value)
+  }
+
+  /**
+   * Writes a 64-bit float to the resource.
+   *
+   * @param  value - The value to write.
+   * @param  endianness - (optional) Byte order to write with, overriding the resource's default endianness.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   *
+   * @throws {RangeError} - Throws when the value does not fit within the type.
+   */
+  public async writeDouble (value: number, endianness: Endianness = this.endianness): Promise<number> {
+    return this.writeNumeric(withEndianness('float64', endianness), value)
+  }
+
+  /**
+   * Writes an unsigned integer as unsigned LEB128.
+   *
+   * @param  value - The value to write.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   *
+   * @throws {RangeError} - Throws when the value isn't an unsigned safe integer.
+   *
+   * @example
+   * ```
+   * const sbuf = new ExpandingBuffer()
+   * await sbuf.writeULEB128(624485)
+   *
+   * // sbuf.buf would equal <Buffer e5 8e 26>
+   * ```
+   */
+  public async writeULEB128 (value: number): Promise<number> {
+    return this.write(encodeULEB128(value))
+  }
+
+  /**
+   * Writes a signed integer as signed LEB128.
+   *
+   * @param  value - The value to write.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   *
+   * @throws {RangeError} - Throws when the value isn't a safe integer.
+   */
+  public async writeSLEB128 (value: number): Promise<number> {
+    return this.write(encodeSLEB128(value))
+  }
+
+  /**
+   * Writes a signed integer zigzag-encoded as unsigned LEB128 (as used by protobuf's sint types).
+   *
+   * @param  value - The value to write.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   *
+   * @throws {RangeError} - Throws when the value isn't a safe integer, or its zigzag encoding would not be one.
+   */
+  public async writeZigZag (value: number): Promise<number> {
+    return this.write(encodeULEB128(zigzagEncode(value)))
+  }
+
+  /**
+   * Writes an unsigned integer as a MIDI-style variable-length quantity (big-endian groups of 7 bits, at most 4 bytes).
+   *
+   * @param  value - The value to write; must be at most 0x0FFFFFFF.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   *
+   * @throws {RangeError} - Throws when the value isn't an unsigned integer that fits in 28 bits.
+   */
+  public async writeVLQ (value: number): Promise<number> {
+    return this.write(encodeVLQ(value))
+  }
+
+  /**
+   * Writes a string followed by a NUL terminator.
+   *   For utf16le strings the terminator is a two byte NUL code unit.
+   *
+   * @param  value - The string to write.
+   * @param  options - (optional) Encoding (utf8 by default) and maximum length in bytes of the string.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   *
+   * @throws {Error} - Throws when the string itself contains a NUL character.
+   * @throws {RangeError} - Throws when the encoded string exceeds maxLength.
+   *
+   * @example
+   * ```
+   * const sbuf = new ExpandingBuffer()
+   * await sbuf.writeCString('TEST')
+   *
+   * // sbuf.buf would equal <Buffer 54 45 53 54 00>
+   * ```
+   */
+  public async writeCString (value: string, options: StringOptions = {}): Promise<number> {
+    return writeCString(this, value, options)
+  }
+
+  /**
+   * Writes a string preceded by its length in bytes.
+   *
+   * @param  value - The string to write.
+   * @param  prefix - The integer type to hold the length of the string, or "uleb128" for a varint length.
+   * @param  options - (optional) Encoding (utf8 by default) and maximum length in bytes of the string.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   *
+   * @throws {RangeError} - Throws when the encoded string exceeds maxLength, or is too long for the length prefix.
+   */
+  public async writePrefixedString (value: string, prefix: LengthPrefixType, options: StringOptions = {}): Promise<number> {
+    return writePrefixedString(this, value, prefix, options)
+  }
+
+  /**
+   * Writes a string into a fixed-width field, padding out whatever space is left.
+   *
+   * @param  value - The string to write.
+   * @param  length - The width of the field, in bytes.
+   * @param  options - (optional) Encoding (utf8 by default) and padding ("nul" by default) of the field.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   *
+   * @throws {RangeError} - Throws when the encoded string is wider than the field.
+   */
+  public async writeFixedString (value: string, length: number, options: FixedStringOptions = {}): Promise<number> {
+    return writeFixedString(this, value, length, options)
+  }
+}
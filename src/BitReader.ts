@@ -0,0 +1,173 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { ConsumableResource } from './ConsumableResource'
+
+/**
+ * Order in which bits are taken out of (or put into) each byte.
+ *   "MSB" starts with the most significant bit of each byte, "LSB" with the least significant bit.
+ */
+export type BitOrder = 'MSB' | 'LSB'
+
+export class BitReader {
+  /**
+   * The resource we're pulling bytes from.
+   */
+  public source: ConsumableResource
+
+  /**
+   * The order bits are read out of each byte.
+   */
+  public order: BitOrder
+
+  /**
+   * The byte we're currently reading bits from.
+   *
+   * @private
+   */
+  public current: number
+
+  /**
+   * How many bits of the current byte have yet to be read.
+   *
+   * @private
+   */
+  public bitsLeft: number
+
+  /**
+   * BitReader is a class designed to wrap around any ConsumableResource to allow for reading values that aren't byte-aligned,
+   *   such as packed flags or Huffman codes.  Bytes are only consumed from the resource once we need bits out of them.
+   *
+   * @param  source - The ConsumableResource to read bytes from.
+   * @param  order - (optional) The order bits are read out of each byte; defaults to "MSB".
+   * @return {BitReader}
+   *
+   * @example
+   * ```
+   * import { BitReader, ConsumableBuffer } from 'byteaccordion'
+   * const reader = new BitReader(new ConsumableBuffer(Buffer.from([0b10110011])))
+   *
+   * await reader.readBits(1) // 1
+   * await reader.readBits(3) // 0b011
+   * reader.align()
+   * // the remaining 4 bits of the byte are discarded
+   * ```
+   */
+  constructor (source: ConsumableResource, order: BitOrder = 'MSB') {
+    if (order !== 'MSB' && order !== 'LSB') {
+      throw new TypeError('Bit order must be either "MSB" or "LSB".')
+    }
+
+    this.source = source
+    this.order = order
+    this.current = 0
+    this.bitsLeft = 0
+  }
+
+  /**
+   * Whether the reader currently sits on a byte boundary.
+   */
+  public get aligned (): boolean {
+    return this.bitsLeft === 0
+  }
+
+  /**
+   * Reads an unsigned integer made up of the given number of bits.
+   *
+   * @param  bits - How many bits to read; must be between 0 and 53.
+   * @return {Promise<number>} - Returns the unsigned value of the bits read.
+   *
+   * @throws {RangeError} - Throws when the number of bits is outside of 0-53; use BitReader.readBigBits for wider values.
+   * @throws {RangeError} - Throws when we try to read beyond the underlying resource.
+   *
+   * @example
+   * ```
+   * const reader = new BitReader(new ConsumableBuffer(Buffer.from([0xAB, 0xCD])))
+   * await reader.readBits(12) // 0xABC
+   * ```
+   */
+  public async readBits (bits: number): Promise<number> {
+    if (!Number.isInteger(bits) || bits < 0 || bits > 53) {
+      throw new RangeError('Bits parameter must be an integer between 0 and 53.')
+    }
+
+    let value = 0
+    let got = 0
+    while (got < bits) {
+      if (this.bitsLeft === 0) {
+        this.current = (await this.source.read(1))[0]
+        this.bitsLeft = 8
+      }
+
+      const take = Math.min(this.bitsLeft, bits - got)
+      const mask = (1 << take) - 1
+      if (this.order === 'MSB') {
+        const chunk = (this.current >> (this.bitsLeft - take)) & mask
+        value = value * (2 ** take) + chunk
+      } else {
+        const chunk = (this.current >> (8 - this.bitsLeft)) & mask
+        value += chunk * (2 ** got)
+      }
+
+      this.bitsLeft -= take
+      got += take
+    }
+
+    return value
+  }
+
+  /**
+   * Reads an unsigned integer of any width as a bigint.
+   *
+   * @param  bits - How many bits to read.
+   * @return {Promise<bigint>} - Returns the unsigned value of the bits read.
+   *
+   * @throws {RangeError} - Throws when the number of bits is not a non-negative integer.
+   * @throws {RangeError} - Throws when we try to read beyond the underlying resource.
+   */
+  public async readBigBits (bits: number): Promise<bigint> {
+    if (!Number.isInteger(bits) || bits < 0) {
+      throw new RangeError('Bits parameter must be a positive integer.')
+    }
+
+    let value = BigInt(0)
+    let got = 0
+    while (got < bits) {
+      const take = Math.min(32, bits - got)
+      const chunk = BigInt(await this.readBits(take))
+      if (this.order === 'MSB') {
+        value = (value << BigInt(take)) | chunk
+      } else {
+        value |= chunk << BigInt(got)
+      }
+
+      got += take
+    }
+
+    return value
+  }
+
+  /**
+   * Reads a single bit.
+   *
+   * @return {Promise<number>} - Returns either 0 or 1.
+   */
+  public async readBit (): Promise<number> {
+    return this.readBits(1)
+  }
+
+  /**
+   * Discards whatever bits remain in the current byte, so that the next read starts on a byte boundary.
+   *   Does nothing if the reader is already aligned.
+   *
+   * @return {void}
+   */
+  public align (): void {
+    this.bitsLeft = 0
+  }
+}
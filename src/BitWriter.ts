@@ -0,0 +1,174 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { BitOrder } from './BitReader'
+import { ExpandingResource } from './ExpandingResource'
+
+export class BitWriter {
+  /**
+   * The resource we're writing bytes into.
+   */
+  public dest: ExpandingResource
+
+  /**
+   * The order bits are placed into each byte.
+   */
+  public order: BitOrder
+
+  /**
+   * The partially filled byte we're currently writing bits into.
+   *
+   * @private
+   */
+  public current: number
+
+  /**
+   * How many bits of the current byte have been filled.
+   *
+   * @private
+   */
+  public bitsUsed: number
+
+  /**
+   * BitWriter is a class designed to wrap around any ExpandingResource to allow for writing values that aren't byte-aligned.
+   *   Complete bytes are written to the resource as they fill up; a trailing partial byte is only written once BitWriter.align() is called.
+   *
+   * @param  dest - The ExpandingResource to write bytes into.
+   * @param  order - (optional) The order bits are placed into each byte; defaults to "MSB".
+   * @return {BitWriter}
+   *
+   * @example
+   * ```
+   * import { BitWriter, ExpandingBuffer } from 'byteaccordion'
+   * const sbuf = new ExpandingBuffer()
+   * const writer = new BitWriter(sbuf)
+   *
+   * await writer.writeBits(1, 1)
+   * await writer.writeBits(0b011, 3)
+   * await writer.align()
+   *
+   * // sbuf.buf would equal <Buffer b0>
+   * ```
+   */
+  constructor (dest: ExpandingResource, order: BitOrder = 'MSB') {
+    if (order !== 'MSB' && order !== 'LSB') {
+      throw new TypeError('Bit order must be either "MSB" or "LSB".')
+    }
+
+    this.dest = dest
+    this.order = order
+    this.current = 0
+    this.bitsUsed = 0
+  }
+
+  /**
+   * Whether the writer currently sits on a byte boundary.
+   */
+  public get aligned (): boolean {
+    return this.bitsUsed === 0
+  }
+
+  /**
+   * Writes an unsigned integer using the given number of bits.
+   *
+   * @param  value - The unsigned value to write.
+   * @param  bits - How many bits to write the value with; must be between 0 and 53.
+   * @return {Promise<void>}
+   *
+   * @throws {RangeError} - Throws when the number of bits is outside of 0-53; use BitWriter.writeBigBits for wider values.
+   * @throws {RangeError} - Throws when the value is not an unsigned integer that fits within the given number of bits.
+   */
+  public async writeBits (value: number, bits: number): Promise<void> {
+    if (!Number.isInteger(bits) || bits < 0 || bits > 53) {
+      throw new RangeError('Bits parameter must be an integer between 0 and 53.')
+    }
+
+    if (!Number.isInteger(value) || value < 0 || value >= 2 ** bits) {
+      throw new RangeError(`Value must be an unsigned integer that fits within ${bits} bits.`)
+    }
+
+    const out: number[] = []
+    let written = 0
+    while (written < bits) {
+      const take = Math.min(8 - this.bitsUsed, bits - written)
+      const mask = (1 << take) - 1
+      if (this.order === 'MSB') {
+        const chunk = Math.floor(value / (2 ** (bits - written - take))) & mask
+        this.current |= chunk << (8 - this.bitsUsed - take)
+      } else {
+        const chunk = Math.floor(value / (2 ** written)) & mask
+        this.current |= chunk << this.bitsUsed
+      }
+
+      this.bitsUsed += take
+      written += take
+      if (this.bitsUsed === 8) {
+        out.push(this.current)
+        this.current = this.bitsUsed = 0
+      }
+    }
+
+    if (out.length > 0) {
+      await this.dest.write(Buffer.from(out))
+    }
+  }
+
+  /**
+   * Writes an unsigned bigint using the given number of bits.
+   *
+   * @param  value - The unsigned value to write.
+   * @param  bits - How many bits to write the value with.
+   * @return {Promise<void>}
+   *
+   * @throws {RangeError} - Throws when the value is not an unsigned integer that fits within the given number of bits.
+   */
+  public async writeBigBits (value: bigint, bits: number): Promise<void> {
+    if (!Number.isInteger(bits) || bits < 0) {
+      throw new RangeError('Bits parameter must be a positive integer.')
+    }
+
+    if (value < BigInt(0) || value >= (BigInt(1) << BigInt(bits))) {
+      throw new RangeError(`Value must be an unsigned integer that fits within ${bits} bits.`)
+    }
+
+    let written = 0
+    while (written < bits) {
+      const take = Math.min(32, bits - written)
+      const shift = this.order === 'MSB' ? bits - written - take : written
+      const chunk = Number((value >> BigInt(shift)) & ((BigInt(1) << BigInt(take)) - BigInt(1)))
+      await this.writeBits(chunk, take)
+      written += take
+    }
+  }
+
+  /**
+   * Writes a single bit.
+   *
+   * @param  bit - The bit to write; any truthy value writes a 1.
+   * @return {Promise<void>}
+   */
+  public async writeBit (bit: number | boolean): Promise<void> {
+    return this.writeBits(bit !== 0 && bit !== false ? 1 : 0, 1)
+  }
+
+  /**
+   * Pads out the current byte with zero bits and writes it, so that the next write starts on a byte boundary.
+   *   Does nothing if the writer is already aligned.  Must be called once done writing, or the final partial byte will be lost.
+   *
+   * @return {Promise<void>}
+   */
+  public async align (): Promise<void> {
+    if (this.bitsUsed === 0) {
+      return
+    }
+
+    const byte = this.current
+    this.current = this.bitsUsed = 0
+    await this.dest.write(Buffer.from([byte]))
+  }
+}
@@ -0,0 +1,163 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { NumericType, numericSize } from './NumericTypes'
+
+/**
+ * Describes the layout of a "tag + length + payload (+ CRC)" chunk stream.
+ */
+export interface ChunkFormat {
+  /**
+   * How many bytes each chunk tag - and each container's form type - takes up; defaults to 4.
+   */
+  tagSize?: number
+
+  /**
+   * The unsigned integer type chunk lengths are stored as, which sets both their width and byte order; defaults to "uint32le".
+   */
+  lengthType?: NumericType
+
+  /**
+   * Whether the length comes before the tag, as in PNG, rather than after it as in RIFF and IFF; defaults to false.
+   */
+  lengthFirst?: boolean
+
+  /**
+   * Whether stored lengths count the chunk header as well as the payload; defaults to false.
+   */
+  lengthIncludesHeader?: boolean
+
+  /**
+   * The boundary each chunk starts on, relative to the start of its container - 2 for RIFF and IFF; defaults to 1.
+   *   Padding bytes are not counted in the stored length.
+   */
+  align?: number
+
+  /**
+   * The unsigned 32-bit integer type of a CRC-32 trailing each chunk's payload, if the format has one.
+   */
+  crc?: 'uint32le' | 'uint32be'
+
+  /**
+   * Whether the CRC-32 covers the chunk tag as well as the payload, as in PNG; defaults to true.
+   */
+  crcCoversTag?: boolean
+
+  /**
+   * Tags of the chunks that are containers - whose payload is a form type followed by nested chunks, as with RIFF's "LIST".
+   */
+  containers?: string[]
+}
+
+/**
+ * RIFF, as used by WAV and AVI: little-endian lengths, word-aligned chunks, with "RIFF" and "LIST" containers.
+ */
+export const RIFF_FORMAT: ChunkFormat = {
+  lengthType: 'uint32le',
+  align: 2,
+  containers: ['RIFF', 'LIST']
+}
+
+/**
+ * EA IFF 85: big-endian lengths, word-aligned chunks, with "FORM", "LIST", "CAT " and "PROP" containers.
+ */
+export const IFF_FORMAT: ChunkFormat = {
+  lengthType: 'uint32be',
+  align: 2,
+  containers: ['FORM', 'LIST', 'CAT ', 'PROP']
+}
+
+/**
+ * PNG chunks, which follow the 8 byte PNG signature: big-endian lengths ahead of the tag, and a CRC-32 over the tag and payload.
+ */
+export const PNG_FORMAT: ChunkFormat = {
+  lengthType: 'uint32be',
+  lengthFirst: true,
+  crc: 'uint32be'
+}
+
+/**
+ * A ChunkFormat with its defaults applied, plus where within the header each field lies.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+export interface ChunkLayout {
+  tagSize: number
+  tagOffset: number
+  lengthType: NumericType
+  lengthOffset: number
+  headerSize: number
+  lengthIncludesHeader: boolean
+  align: number
+  crc?: 'uint32le' | 'uint32be'
+  crcSize: number
+  crcCoversTag: boolean
+  containers: string[]
+}
+
+/**
+ * Applies the defaults to a ChunkFormat, validating it.
+ *
+ * @private
+ * @param  format - The format to lay out.
+ * @return {ChunkLayout}
+ *
+ * @throws {TypeError} - Throws when the tag size or alignment isn't a positive integer, or the length type isn't an unsigned integer type.
+ */
+export function chunkLayout (format: ChunkFormat): ChunkLayout {
+  const tagSize = format.tagSize ?? 4
+  const lengthType = format.lengthType ?? 'uint32le'
+  const align = format.align ?? 1
+  if (!Number.isInteger(tagSize) || tagSize < 1) {
+    throw new TypeError('Chunk tag size must be a positive integer.')
+  }
+  if (!Number.isInteger(align) || align < 1) {
+    throw new TypeError('Chunk alignment must be a positive integer.')
+  }
+  if (!lengthType.startsWith('uint')) {
+    throw new TypeError(`Chunk length type must be an unsigned integer type, received "${lengthType}".`)
+  }
+
+  const lengthSize = numericSize(lengthType)
+  const lengthFirst = format.lengthFirst ?? false
+
+  return {
+    tagSize,
+    tagOffset: lengthFirst ? lengthSize : 0,
+    lengthType,
+    lengthOffset: lengthFirst ? 0 : tagSize,
+    headerSize: tagSize + lengthSize,
+    lengthIncludesHeader: format.lengthIncludesHeader ?? false,
+    align,
+    crc: format.crc,
+    crcSize: format.crc !== undefined ? 4 : 0,
+    crcCoversTag: format.crcCoversTag ?? true,
+    containers: format.containers ?? []
+  }
+}
+
+/**
+ * Encodes a chunk tag or form type as latin1, checking that it's exactly as long as the layout demands.
+ *
+ * @private
+ * @param  tag - The tag to encode.
+ * @param  layout - The layout of the chunk stream.
+ * @return {Buffer}
+ *
+ * @throws {TypeError} - Throws when the tag isn't exactly the layout's tag size.
+ */
+export function encodeChunkTag (tag: string, layout: ChunkLayout): Buffer {
+  const buf = Buffer.from(tag, 'latin1')
+  if (buf.length !== layout.tagSize) {
+    throw new TypeError(`Chunk tag "${tag}" must be exactly ${layout.tagSize} bytes.`)
+  }
+
+  return buf
+}
@@ -0,0 +1,222 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { ChunkFormat, ChunkLayout, chunkLayout } from './Chunk'
+import { ConsumableResource, alignmentPadding } from './ConsumableResource'
+import { crc32 } from './Hashes'
+import { decodeNumeric } from './NumericTypes'
+
+/**
+ * A chunk read from a chunk stream.
+ */
+export interface Chunk {
+  /**
+   * The chunk's tag.
+   */
+  tag: string
+
+  /**
+   * Where the chunk's header lies within the resource being read.
+   */
+  offset: number
+
+  /**
+   * Size of the chunk's payload in bytes, form type included - excluding the header, CRC-32 and padding.
+   */
+  length: number
+
+  /**
+   * The form type at the start of a container's payload; undefined for chunks that aren't containers.
+   */
+  formType?: string
+
+  /**
+   * The CRC-32 stored after the payload; undefined for formats without one.
+   */
+  crc?: number
+
+  /**
+   * A bounded view onto the chunk's payload - for containers, onto the nested chunks following the form type.
+   */
+  data: ConsumableResource
+}
+
+export class ChunkReader {
+  /**
+   * The resource holding the chunk stream.
+   *
+   * @private
+   */
+  public source: ConsumableResource
+
+  /**
+   * The format of the chunk stream.
+   */
+  public format: ChunkFormat
+
+  /**
+   * The format with its defaults applied.
+   *
+   * @private
+   */
+  public layout: ChunkLayout
+
+  /**
+   * ChunkReader is a class designed to iterate over "tag + length + payload (+ CRC)" chunk streams - RIFF, IFF, PNG and the like -
+   *   exposing each chunk's payload as a subview onto the resource rather than copying it out.
+   *   The stream must be held by a resource supporting subviews, such as a ConsumableFile or ConsumableBuffer.
+   *
+   * @param  source - The resource holding the chunk stream, starting at offset 0.
+   * @param  format - (optional) The layout of the chunk stream; defaults to 4 byte tags and little-endian 32-bit lengths.
+   * @return {ChunkReader}
+   *
+   * @throws {TypeError} - Throws when the format is invalid.
+   *
+   * @example
+   * ```
+   * import { ChunkReader, ConsumableFile, RIFF_FORMAT } from 'byteaccordion'
+   * const cfile = new ConsumableFile('/path/to/sound.wav')
+   * await cfile.open()
+   * const riff = (await new ChunkReader(cfile, RIFF_FORMAT).list())[0]
+   *
+   * for await (const chunk of new ChunkReader(riff.data, RIFF_FORMAT).chunks()) {
+   *   if (chunk.tag === 'fmt ') {
+   *     const channels = await chunk.data.peekNumeric('uint16le')
+   *   }
+   * }
+   * ```
+   */
+  constructor (source: ConsumableResource, format: ChunkFormat = {}) {
+    this.source = source
+    this.format = format
+    this.layout = chunkLayout(format)
+  }
+
+  /**
+   * Iterates over the chunks of the stream, in order.  Nested chunks are not descended into; use ChunkReader.children() for that.
+   *   Padding missing after the last chunk is tolerated.
+   *
+   * @return {AsyncGenerator<Chunk>}
+   *
+   * @throws {Error} - Throws when the stream ends partway through a chunk header, or a chunk's length is invalid.
+   * @throws {RangeError} - Throws when a chunk extends beyond the end of the resource.
+   */
+  public async * chunks (): AsyncGenerator<Chunk> {
+    const layout = this.layout
+    let offset = 0
+
+    while (offset < this.source.length) {
+      if (this.source.length - offset < layout.headerSize) {
+        throw new Error(`Truncated chunk stream; expected a chunk header at offset ${offset}.`)
+      }
+
+      await this.source.aseek(offset)
+      const header = await this.source.read(layout.headerSize)
+      const tag = header.toString('latin1', layout.tagOffset, layout.tagOffset + layout.tagSize)
+      let length = Number(decodeNumeric(layout.lengthType, header, layout.lengthOffset))
+      if (layout.lengthIncludesHeader) {
+        length -= layout.headerSize
+        if (length < 0) {
+          throw new Error(`Invalid length for chunk "${tag}" at offset ${offset}.`)
+        }
+      }
+
+      const payload = offset + layout.headerSize
+      if (payload + length + layout.crcSize > this.source.length) {
+        throw new RangeError(`Chunk "${tag}" at offset ${offset} extends beyond the end of the resource.`)
+      }
+
+      const chunk: Chunk = {
+        tag,
+        offset,
+        length,
+        data: this.source.subview(payload, length)
+      }
+
+      if (layout.crc !== undefined) {
+        await this.source.aseek(payload + length)
+        chunk.crc = await this.source.readNumeric(layout.crc)
+      }
+
+      if (layout.containers.includes(tag)) {
+        if (length < layout.tagSize) {
+          throw new Error(`Invalid length for chunk "${tag}" at offset ${offset}; containers must hold a form type.`)
+        }
+
+        await this.source.aseek(payload)
+        chunk.formType = (await this.source.read(layout.tagSize)).toString('latin1')
+        chunk.data = this.source.subview(payload + layout.tagSize, length - layout.tagSize)
+      }
+
+      const end = payload + length + layout.crcSize
+      offset = Math.min(this.source.length, end + alignmentPadding(end, layout.align))
+
+      yield chunk
+    }
+  }
+
+  /**
+   * Lists every chunk of the stream.
+   *
+   * @return {Promise<Chunk[]>}
+   *
+   * @throws {Error} - Throws when the stream is malformed, as with ChunkReader.chunks().
+   */
+  public async list (): Promise<Chunk[]> {
+    const chunks: Chunk[] = []
+    for await (const chunk of this.chunks()) {
+      chunks.push(chunk)
+    }
+
+    return chunks
+  }
+
+  /**
+   * Creates a ChunkReader over the chunks nested within a container, in the same format.
+   *
+   * @param  chunk - The container chunk to descend into.
+   * @return {ChunkReader}
+   *
+   * @throws {Error} - Throws when the chunk isn't a container.
+   */
+  public children (chunk: Chunk): ChunkReader {
+    if (chunk.formType === undefined) {
+      throw new Error(`Chunk "${chunk.tag}" is not a container.`)
+    }
+
+    return new ChunkReader(chunk.data, this.format)
+  }
+
+  /**
+   * Reads a chunk's payload in full - for containers, everything after the form type - verifying it against the chunk's CRC-32 where there is one.
+   *
+   * @param  chunk - The chunk to read.
+   * @return {Promise<Buffer>}
+   *
+   * @throws {Error} - Throws when the payload doesn't match the chunk's CRC-32.
+   */
+  public async read (chunk: Chunk): Promise<Buffer> {
+    await chunk.data.aseek(0)
+    const buf = chunk.data.length > 0 ? await chunk.data.read(chunk.data.length) : Buffer.alloc(0)
+
+    if (chunk.crc !== undefined) {
+      let crc = 0
+      if (this.layout.crcCoversTag) {
+        crc = crc32(Buffer.from(chunk.tag, 'latin1'))
+      }
+      if (chunk.formType !== undefined) {
+        crc = crc32(Buffer.from(chunk.formType, 'latin1'), crc)
+      }
+      if (crc32(buf, crc) !== chunk.crc) {
+        throw new Error(`CRC-32 mismatch for chunk "${chunk.tag}" at offset ${chunk.offset}.`)
+      }
+    }
+
+    return buf
+  }
+}
@@ -0,0 +1,224 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { ChunkFormat, ChunkLayout, chunkLayout, encodeChunkTag } from './Chunk'
+import { ExpandingResource } from './ExpandingResource'
+import { CRC32 } from './Hashes'
+import { NumericType, NumericValue, encodeNumeric, numericSize } from './NumericTypes'
+import { Placeholder } from './Placeholder'
+
+/**
+ * A chunk begun with ChunkWriter.begin() that hasn't been ended yet.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+interface OpenChunk {
+  tag: string
+  offset: number
+  length: Placeholder
+  crc?: CRC32
+}
+
+/**
+ * Converts a chunk length into a value of the given length type, so that 64-bit lengths become bigints.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+function lengthValue (type: NumericType, length: number): NumericValue<NumericType> {
+  return numericSize(type) === 8 ? BigInt(length) : length
+}
+
+export class ChunkWriter {
+  /**
+   * The resource the chunk stream is written into.
+   *
+   * @private
+   */
+  public dest: ExpandingResource
+
+  /**
+   * The format of the chunk stream.
+   */
+  public format: ChunkFormat
+
+  /**
+   * The format with its defaults applied.
+   *
+   * @private
+   */
+  public layout: ChunkLayout
+
+  /**
+   * Where in the destination the chunk stream starts; alignment is relative to this.
+   *
+   * @private
+   */
+  public base: number
+
+  /**
+   * Chunks begun but not yet ended, innermost last.
+   *
+   * @private
+   */
+  public open: OpenChunk[] = []
+
+  /**
+   * ChunkWriter is a class designed to write "tag + length + payload (+ CRC)" chunk streams - RIFF, IFF, PNG and the like.
+   *   Chunks may be written whole, or begun and ended around their payload - nested chunks included - with their lengths
+   *   and CRC-32s back-patched through placeholders once ended.  The destination must support positioned writes.
+   *
+   * @param  dest - The resource to write the chunk stream into, from its current position on.
+   * @param  format - (optional) The layout of the chunk stream; defaults to 4 byte tags and little-endian 32-bit lengths.
+   * @return {ChunkWriter}
+   *
+   * @throws {TypeError} - Throws when the format is invalid.
+   *
+   * @example
+   * ```
+   * import { ChunkWriter, ExpandingFile, RIFF_FORMAT } from 'byteaccordion'
+   * const sfile = new ExpandingFile('/path/to/sound.wav')
+   * await sfile.open()
+   * const riff = new ChunkWriter(sfile, RIFF_FORMAT)
+   *
+   * await riff.begin('RIFF', 'WAVE')
+   * await riff.writeChunk('fmt ', fmt)
+   * await riff.begin('data')
+   * await sfile.write(samples)
+   * await riff.finish()
+   * await sfile.close()
+   * ```
+   */
+  constructor (dest: ExpandingResource, format: ChunkFormat = {}) {
+    this.dest = dest
+    this.format = format
+    this.layout = chunkLayout(format)
+    this.base = dest.position
+  }
+
+  /**
+   * Begins a chunk whose length isn't known yet, reserving its length to be filled in by ChunkWriter.end().
+   *   Everything written to the destination until then - nested chunks included - is the chunk's payload.
+   *
+   * @param  tag - The chunk's tag.
+   * @param  formType - (optional) The form type to start the payload with, for containers.
+   * @return {Promise<void>}
+   *
+   * @throws {TypeError} - Throws when the tag or form type isn't exactly the format's tag size.
+   * @throws {Error} - Throws when begun within a chunk that has a CRC-32, as the back-patched length would escape it.
+   */
+  public async begin (tag: string, formType?: string): Promise<void> {
+    if (this.open.some(chunk => chunk.crc !== undefined)) {
+      throw new Error(`Chunk "${tag}" cannot be begun within a chunk with a CRC-32; write it whole with ChunkWriter.writeChunk() instead.`)
+    }
+
+    const tagBuf = encodeChunkTag(tag, this.layout)
+    const offset = this.dest.position
+    let length: Placeholder
+    if (this.layout.lengthOffset === 0) {
+      length = await this.dest.reserve(this.layout.lengthType)
+      await this.dest.write(tagBuf)
+    } else {
+      await this.dest.write(tagBuf)
+      length = await this.dest.reserve(this.layout.lengthType)
+    }
+
+    const chunk: OpenChunk = { tag, offset, length }
+    if (this.layout.crc !== undefined) {
+      chunk.crc = this.dest.attach(new CRC32())
+      if (this.layout.crcCoversTag) {
+        chunk.crc.update(tagBuf)
+      }
+    }
+    this.open.push(chunk)
+
+    if (formType !== undefined) {
+      await this.dest.write(encodeChunkTag(formType, this.layout))
+    }
+  }
+
+  /**
+   * Ends the innermost chunk begun, filling in its length, writing its CRC-32 and padding it out to the format's alignment.
+   *
+   * @return {Promise<number>} - Returns the length of the chunk's payload.
+   *
+   * @throws {Error} - Throws when there's no chunk to end.
+   * @throws {RangeError} - Throws when the payload is too long for the format's length type.
+   */
+  public async end (): Promise<number> {
+    const chunk = this.open.pop()
+    if (chunk === undefined) {
+      throw new Error('There is no chunk to end.')
+    }
+
+    const payload = this.dest.position - chunk.offset - this.layout.headerSize
+    await chunk.length.fillNumeric(this.layout.lengthType, lengthValue(this.layout.lengthType, this.layout.lengthIncludesHeader ? payload + this.layout.headerSize : payload))
+    await this.trail(chunk.crc)
+
+    return payload
+  }
+
+  /**
+   * Writes a whole chunk whose payload is already known.  Unlike ChunkWriter.begin(), this may be used within a chunk that has a CRC-32.
+   *
+   * @param  tag - The chunk's tag.
+   * @param  data - The chunk's payload.
+   * @return {Promise<void>}
+   *
+   * @throws {TypeError} - Throws when the tag isn't exactly the format's tag size.
+   * @throws {RangeError} - Throws when the payload is too long for the format's length type.
+   */
+  public async writeChunk (tag: string, data: Buffer | string): Promise<void> {
+    const tagBuf = encodeChunkTag(tag, this.layout)
+    const buf = Buffer.isBuffer(data) ? data : Buffer.from(data)
+    const length = encodeNumeric(this.layout.lengthType, lengthValue(this.layout.lengthType, this.layout.lengthIncludesHeader ? buf.length + this.layout.headerSize : buf.length))
+
+    await this.dest.write(this.layout.lengthOffset === 0 ? Buffer.concat([length, tagBuf]) : Buffer.concat([tagBuf, length]))
+    let crc: CRC32 | undefined
+    if (this.layout.crc !== undefined) {
+      crc = this.dest.attach(new CRC32())
+      if (this.layout.crcCoversTag) {
+        crc.update(tagBuf)
+      }
+    }
+    await this.dest.write(buf)
+    await this.trail(crc)
+  }
+
+  /**
+   * Ends every chunk still open, innermost first.
+   *
+   * @return {Promise<void>}
+   *
+   * @throws {RangeError} - Throws when a payload is too long for the format's length type.
+   */
+  public async finish (): Promise<void> {
+    while (this.open.length > 0) {
+      await this.end()
+    }
+  }
+
+  /**
+   * Writes what follows a chunk's payload - its CRC-32, if the format has one, then padding out to the format's alignment.
+   *
+   * @private
+   * @param  crc - The CRC32 observer digesting the chunk, to detach and write out.
+   * @return {Promise<void>}
+   */
+  protected async trail (crc?: CRC32): Promise<void> {
+    if (crc !== undefined && this.layout.crc !== undefined) {
+      this.dest.detach(crc)
+      await this.dest.writeNumeric(this.layout.crc, crc.value)
+    }
+
+    await this.dest.align(this.layout.align, { base: this.base })
+  }
+}
@@ -0,0 +1,92 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { pipeline } from 'stream'
+
+import { Codec, CompressionFormat, createDecompressor } from './Compression'
+import { ConsumableResource } from './ConsumableResource'
+import { ConsumableStream } from './ConsumableStream'
+
+/**
+ * Options accepted when constructing a CompressedConsumableResource.
+ */
+export interface CompressedConsumableOptions {
+  /**
+   * The compression format of the source; defaults to "deflate".
+   */
+  format?: CompressionFormat
+
+  /**
+   * How many already-read uncompressed bytes to keep around, allowing backwards seeks that far; defaults to 0.
+   */
+  history?: number
+}
+
+export class CompressedConsumableResource extends ConsumableStream implements ConsumableResource {
+  /**
+   * The resource the compressed data is read from.
+   *
+   * @private
+   */
+  public source: ConsumableResource
+
+  /**
+   * The compression format being consumed.
+   */
+  public format: CompressionFormat
+
+  /**
+   * The zlib stream doing the decompressing.
+   *
+   * @private
+   */
+  public decompressor: Codec
+
+  /**
+   * How many compressed bytes the decompressor has consumed so far.
+   *   Data is decompressed ahead of reads, so this runs ahead of CompressedConsumableResource.position by however much is buffered.
+   */
+  public get compressedPosition (): number {
+    return this.decompressor.bytesWritten
+  }
+
+  /**
+   * CompressedConsumableResource is a class designed to decompress another ConsumableResource on the way out of it,
+   *   reading from its current position onward.  It is consumed like a ConsumableStream, as the decompressed data can only be produced in order -
+   *   forward seeks skip over data, while backwards seeks are only possible within the history retained.
+   *   Hash observers attached here digest the decompressed bytes, while those attached to the source digest the compressed bytes.
+   *
+   * @param  source - The ConsumableResource to read compressed data from - typically a subview onto the compressed region.
+   * @param  options - (optional) The compression format of the source, and how much history to retain for backwards seeks.
+   * @return {CompressedConsumableResource}
+   *
+   * @throws {TypeError} - Throws when the compression format isn't supported.
+   * @throws {Error} - Throws when the history option isn't a non-negative integer.
+   *
+   * @example
+   * ```
+   * import { CompressedConsumableResource, ConsumableFile } from 'byteaccordion'
+   * const cfile = new ConsumableFile('/path/to/file.gz')
+   * await cfile.open()
+   * const gz = new CompressedConsumableResource(cfile, { format: 'gzip' })
+   *
+   * const magic = await gz.read(4)
+   * ```
+   */
+  constructor (source: ConsumableResource, options: CompressedConsumableOptions = {}) {
+    const format = options.format ?? 'deflate'
+    const decompressor = createDecompressor(format)
+    super(decompressor, { history: options.history })
+    this.source = source
+    this.format = format
+    this.decompressor = decompressor
+
+    // errors in either stream end up surfacing through the decompressor, and so through our reads
+    pipeline(source.toReadable(), decompressor, () => {})
+  }
+}
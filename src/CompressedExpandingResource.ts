@@ -0,0 +1,199 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { once } from 'events'
+
+import { AbstractExpandingResource } from './AbstractExpandingResource'
+import { Codec, CompressionFormat, CompressionOptions, createCompressor } from './Compression'
+import { ExpandingResource } from './ExpandingResource'
+import { Placeholder } from './Placeholder'
+
+export class CompressedExpandingResource extends AbstractExpandingResource implements ExpandingResource {
+  /**
+   * The resource the compressed data is written into.
+   *
+   * @private
+   */
+  public target: ExpandingResource
+
+  /**
+   * The compression format being produced.
+   */
+  public format: CompressionFormat
+
+  /**
+   * The zlib stream doing the compressing.
+   *
+   * @private
+   */
+  public compressor: Codec
+
+  /**
+   * Compressed output waiting to be written into the target.
+   *
+   * @private
+   */
+  public output: Buffer[]
+
+  /**
+   * The first error the compressor emitted, if any.
+   *
+   * @private
+   */
+  public failure?: Error
+
+  /**
+   * How many uncompressed bytes have been written so far.
+   */
+  public position: number
+
+  /**
+   * How many compressed bytes have been written into the target so far.
+   */
+  public compressedPosition: number
+
+  /**
+   * CompressedExpandingResource is a class designed to compress everything written to it on the way into another ExpandingResource -
+   *   an ExpandingFile, an ExpandingBuffer, or even another stream.  As the compressed output can't be patched afterwards,
+   *   positioned writes and placeholders are not supported; the target can of course still have them before and after.
+   *   Hash observers attached here digest the uncompressed bytes, while those attached to the target digest the compressed bytes.
+   *
+   * @param  target - The ExpandingResource to write the compressed data into.
+   * @param  options - (optional) The compression format and level to use; defaults to zlib-wrapped deflate.
+   * @return {CompressedExpandingResource}
+   *
+   * @throws {TypeError} - Throws when the compression format isn't supported.
+   *
+   * @example
+   * ```
+   * import { CompressedExpandingResource, ExpandingFile } from 'byteaccordion'
+   * const sfile = new ExpandingFile('/path/to/file.gz')
+   * await sfile.open()
+   * const gz = new CompressedExpandingResource(sfile, { format: 'gzip' })
+   *
+   * await gz.write('test')
+   * await gz.close()
+   * await sfile.close()
+   * ```
+   */
+  constructor (target: ExpandingResource, options: CompressionOptions = {}) {
+    super()
+    this.target = target
+    this.format = options.format ?? 'deflate'
+    this.compressor = createCompressor(this.format, options.level)
+    this.output = []
+    this.position = this.compressedPosition = 0
+
+    this.compressor.on('data', (chunk: Buffer) => this.output.push(chunk))
+    this.compressor.on('error', (err: Error) => {
+      this.failure = this.failure ?? err
+    })
+  }
+
+  /**
+   * Writes whatever compressed output is waiting into the target, in order.
+   *
+   * @private
+   * @return {Promise<void>}
+   *
+   * @throws {Error} - Throws when the compressor has failed.
+   */
+  protected async drainOutput (): Promise<void> {
+    if (this.failure !== undefined) {
+      throw this.failure
+    }
+
+    while (this.output.length > 0) {
+      const chunk = this.output.shift() as Buffer
+      await this.target.write(chunk)
+      this.compressedPosition += chunk.length
+    }
+  }
+
+  /**
+   * Compresses the input on its way into the target.  The compressor holds onto data while it works,
+   *   so the compressed output only catches up with what's been written once the resource is closed.
+   *
+   * @param  input - What to compress into the target?
+   * @return {Promise<number>} - Returns how many uncompressed bytes have been written so far.
+   *
+   * @throws {Error} - Throws when the resource has already been closed, or when the compressor fails.
+   *
+   * @example
+   * ```
+   * const sbuf = new ExpandingBuffer()
+   * const deflated = new CompressedExpandingResource(sbuf, { format: 'deflateRaw' })
+   * await deflated.write('test')
+   * await deflated.close()
+   * // sbuf.buf now holds the raw deflate stream for "test"
+   * ```
+   */
+  public async write (input: Buffer | number[] | number | string): Promise<number> {
+    if (this.compressor.writableEnded) {
+      throw new Error('Compressed resource has already been closed.')
+    }
+
+    const inBuffer = this.toBuffer(input)
+    if (!this.compressor.write(inBuffer)) {
+      await once(this.compressor, 'drain')
+    }
+    this.position += inBuffer.length
+    this.notify(inBuffer)
+    await this.drainOutput()
+
+    return this.position
+  }
+
+  /**
+   * Positioned writes are not possible, as compressed output can't be patched.
+   *
+   * @throws {Error} - Always throws.
+   */
+  // Must be async to satisfy the ExpandingResource interface
+  // eslint-disable-next-line @typescript-eslint/require-await
+  public async writeAt (): Promise<void> {
+    throw new Error('CompressedExpandingResource does not support positioned writes.')
+  }
+
+  /**
+   * Placeholders can't be reserved, as compressed output can't be patched to fill them in.
+   *
+   * @throws {Error} - Always throws.
+   */
+  // Must be async to satisfy the ExpandingResource interface
+  // eslint-disable-next-line @typescript-eslint/require-await
+  public async reserve (): Promise<Placeholder> {
+    throw new Error('CompressedExpandingResource does not support reserving placeholders.')
+  }
+
+  /**
+   * Finishes compressing, writing everything the compressor still held into the target.  The target itself is left open.
+   *
+   * @return {Promise<void>}
+   *
+   * @throws {Error} - Throws when the compressor fails.
+   *
+   * @example
+   * ```
+   * const gz = new CompressedExpandingResource(sfile, { format: 'gzip' })
+   * await gz.write('test')
+   * await gz.close()
+   * // gz.compressedPosition now holds the size of the gzip stream written into sfile
+   * ```
+   */
+  public async close (): Promise<void> {
+    if (!this.compressor.writableEnded) {
+      this.compressor.end()
+    }
+
+    if (!this.compressor.readableEnded && this.failure === undefined) {
+      await once(this.compressor, 'end')
+    }
+    await this.drainOutput()
+  }
+}
@@ -0,0 +1,108 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { Transform } from 'stream'
+import * as zlib from 'zlib'
+
+/**
+ * Compression formats supported, all provided by node.js's zlib module.
+ *   "deflate" is zlib-wrapped deflate, "deflateRaw" is bare deflate as used within ZIP archives.
+ */
+export type CompressionFormat = 'deflate' | 'deflateRaw' | 'gzip' | 'brotli'
+
+/**
+ * Options for compressing data.
+ */
+export interface CompressionOptions {
+  /**
+   * The compression format to use; defaults to "deflate".
+   */
+  format?: CompressionFormat
+
+  /**
+   * The compression level to use - 0 to 9 for the deflate-based formats, 0 to 11 for brotli; defaults to zlib's default.
+   */
+  level?: number
+}
+
+/**
+ * A zlib Transform stream, compressing or decompressing whatever is written into it.
+ */
+export type Codec = Transform & zlib.Zlib
+
+/**
+ * Throws when the given compression format isn't supported.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+function assertFormat (format: CompressionFormat): void {
+  if (!['deflate', 'deflateRaw', 'gzip', 'brotli'].includes(format)) {
+    throw new TypeError(`Unsupported compression format "${String(format)}".`)
+  }
+}
+
+/**
+ * Creates a zlib stream compressing into the given format.
+ *
+ * @param  format - The compression format to produce.
+ * @param  level - (optional) The compression level to use; defaults to zlib's default.
+ * @return {Codec}
+ *
+ * @throws {TypeError} - Throws when the format isn't supported.
+ */
+export function createCompressor (format: CompressionFormat, level?: number): Codec {
+  assertFormat(format)
+  if (format === 'brotli') {
+    return zlib.createBrotliCompress(level !== undefined ? { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: level } } : {})
+  }
+
+  const options: zlib.ZlibOptions = level !== undefined ? { level } : {}
+
+  return format === 'gzip' ? zlib.createGzip(options) : format === 'deflateRaw' ? zlib.createDeflateRaw(options) : zlib.createDeflate(options)
+}
+
+/**
+ * Creates a zlib stream decompressing from the given format.
+ *
+ * @param  format - The compression format to consume.
+ * @return {Codec}
+ *
+ * @throws {TypeError} - Throws when the format isn't supported.
+ */
+export function createDecompressor (format: CompressionFormat): Codec {
+  assertFormat(format)
+  if (format === 'brotli') {
+    return zlib.createBrotliDecompress()
+  }
+
+  return format === 'gzip' ? zlib.createGunzip() : format === 'deflateRaw' ? zlib.createInflateRaw() : zlib.createInflate()
+}
+
+/**
+ * Compresses a Buffer in one go.
+ *
+ * @private
+ * @param  buf - The bytes to compress.
+ * @param  format - The compression format to produce.
+ * @param  level - (optional) The compression level to use; defaults to zlib's default.
+ * @return {Buffer}
+ *
+ * @throws {TypeError} - Throws when the format isn't supported.
+ */
+export function compressSync (buf: Buffer, format: CompressionFormat, level?: number): Buffer {
+  assertFormat(format)
+  if (format === 'brotli') {
+    return zlib.brotliCompressSync(buf, level !== undefined ? { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: level } } : {})
+  }
+
+  const options: zlib.ZlibOptions = level !== undefined ? { level } : {}
+
+  return format === 'gzip' ? zlib.gzipSync(buf, options) : format === 'deflateRaw' ? zlib.deflateRawSync(buf, options) : zlib.deflateSync(buf, options)
+}
@@ -6,9 +6,10 @@
 // @url <https://github.com/damianb/ByteAccordion>
 //
 
+import { AbstractConsumableResource } from './AbstractConsumableResource'
 import { ConsumableResource } from './ConsumableResource'
 
-export class ConsumableBuffer implements ConsumableResource {
+export class ConsumableBuffer extends AbstractConsumableResource implements ConsumableResource {
   /**
    * The original Buffer instance we were provided to work with.
    *
@@ -21,6 +22,20 @@ export class ConsumableBuffer implements ConsumableResource {
    */
   public buf: Buffer
 
+  /**
+   * How far into the original buffer we've read, in bytes.
+   */
+  public get position (): number {
+    return this.originalBuffer.length - this.buf.length
+  }
+
+  /**
+   * The total length of the original buffer, in bytes.
+   */
+  public get length (): number {
+    return this.originalBuffer.length
+  }
+
   /**
    * ConsumableBuffer is a class designed to wrap around node.js buffers to allow for more fluid seeking/reading capabilities,
    *   moving logic out of the way of interacting with data.  Give it a buffer, call read and it will simply advance through that buffer as you read.
@@ -45,10 +60,25 @@ export class ConsumableBuffer implements ConsumableResource {
    * ```
    */
   public constructor (buf: Buffer) {
+    super()
     this.originalBuffer = buf
     this.buf = buf
   }
 
+  /**
+   * Reads bytes at an absolute offset within the original buffer, without consuming anything.
+   *
+   * @private
+   * @param  offset - Where to read from.
+   * @param  bytes - The most bytes to read.
+   * @return {Promise<Buffer>}
+   */
+  // Must be async to satisfy AbstractConsumableResource
+  // eslint-disable-next-line @typescript-eslint/require-await
+  protected async readAt (offset: number, bytes: number): Promise<Buffer> {
+    return this.originalBuffer.slice(offset, offset + bytes)
+  }
+
   /**
    * Resets the returned "buffer" to the original one previously passed in.
    *
@@ -107,10 +137,70 @@ export class ConsumableBuffer implements ConsumableResource {
 
     const newBuffer = this.buf.slice(0, bytes)
     this.buf = this.buf.slice(bytes)
+    this.notify(newBuffer)
 
     return newBuffer
   }
 
+  /**
+   * Reads upcoming bytes from the buffer without consuming them.
+   *
+   * @param  bytes - The number of bytes to peek at.
+   * @return {Promise<Buffer>} - Returns a buffer containing the next selected bytes from the ConsumableBuffer.
+   *
+   * @throws {Error} - Throws when the bytes parameter isn't a finite number, is NaN, or is <= 0.
+   * @throws {RangeError} - Throws when we try to peek beyond the Buffer's contents.
+   *
+   * @example
+   * ```
+   * const myBuffer = Buffer.from('TEST')
+   * const cbuf = new ConsumableBuffer(myBuffer)
+   * const peekBuffer = await cbuf.peek(2)
+   *
+   * // peekBuffer would equal <Buffer 54 45>, and the next read would return the same bytes
+   * ```
+   */
+  // Must be async to satisfy the ConsumableResource interface
+  // eslint-disable-next-line @typescript-eslint/require-await
+  public async peek (bytes: number): Promise<Buffer> {
+    if (isNaN(bytes) || !isFinite(bytes) || bytes < 0) {
+      throw new Error('Bytes parameter must be a positive integer.')
+    }
+
+    bytes = Math.floor(bytes)
+
+    if (bytes > this.buf.length) {
+      throw new RangeError('Buffer exhausted; attempted to peek beyond buffer.')
+    }
+
+    return this.buf.slice(0, bytes)
+  }
+
+  /**
+   * Creates a ConsumableBuffer over a window of the original buffer.  The window shares memory with the original buffer; nothing is copied.
+   *
+   * @param  offset - Where the window starts, relative to the start of the original buffer.
+   * @param  length - How many bytes long the window is.
+   * @return {ConsumableBuffer} - Returns a new ConsumableBuffer whose position 0 is the given offset.
+   *
+   * @throws {Error} - Throws when the offset or length aren't non-negative integers.
+   * @throws {RangeError} - Throws when the window extends beyond the original buffer.
+   *
+   * @example
+   * ```
+   * const cbuf = new ConsumableBuffer(Buffer.from('SUPER TEST BUFFER HERE'))
+   * const view = cbuf.subview(6, 4)
+   *
+   * const readBuffer = await view.read(4)
+   * // readBuffer.toString() would be "TEST", and any further read from view would throw a RangeError
+   * ```
+   */
+  public subview (offset: number, length: number): ConsumableBuffer {
+    this.assertSubview(offset, length)
+
+    return new ConsumableBuffer(this.originalBuffer.slice(offset, offset + length))
+  }
+
   /**
    * Seeks ahead a number of bytes in the current buffer.
    * This WILL NOT seek backwards - use ConsumableBuffer.reset()!
@@ -118,6 +208,7 @@ export class ConsumableBuffer implements ConsumableResource {
    * @param  bytes - The number of bytes to advance within the buffer.
    * @return {Promise<void>}
    *
+   * @throws {Error} - Throws when the bytes parameter isn't a finite number, is NaN, or is < 0.
    * @throws {RangeError} - Throws when we try to seek beyond the Buffer's contents.
    *
    * @example
@@ -131,12 +222,21 @@ export class ConsumableBuffer implements ConsumableResource {
    * // ...it would equal <Buffer 45>
    * ```
    */
+  // Must be async to satisfy the ConsumableResource interface
+  // eslint-disable-next-line @typescript-eslint/require-await
   public async seek (bytes: number): Promise<void> {
+    if (isNaN(bytes) || !isFinite(bytes) || bytes < 0) {
+      throw new Error('Bytes parameter must be a positive integer.')
+    }
+
+    bytes = Math.floor(bytes)
+
     if (bytes > this.buf.length) {
       throw new RangeError('Buffer exhausted; attempted to seek beyond buffer.')
     }
 
-    await this.read(bytes)
+    // skipped bytes aren't read, so observers never see them
+    this.buf = this.buf.slice(bytes)
   }
 
   /**
@@ -9,9 +9,21 @@
 import * as fs from 'fs'
 import { FileHandle } from 'fs/promises'
 
+import { AbstractConsumableResource } from './AbstractConsumableResource'
 import { ConsumableResource } from './ConsumableResource'
 
-export class ConsumableFile implements ConsumableResource {
+/**
+ * Options accepted when constructing a ConsumableFile.
+ */
+export interface ConsumableFileOptions {
+  /**
+   * How many bytes to read from the file at once, serving smaller reads and peeks from memory; defaults to 0 (unbuffered).
+   *   Reads larger than the window bypass it and go straight to the file.
+   */
+  readAhead?: number
+}
+
+export class ConsumableFile extends AbstractConsumableResource implements ConsumableResource {
   /**
    * Path to the file to be consumed for reading.
    *
@@ -33,18 +45,63 @@ export class ConsumableFile implements ConsumableResource {
    */
   public filesize?: number
 
+  /**
+   * Where in the underlying file this resource starts, in bytes - non-zero only for subviews.
+   *
+   * @private
+   */
+  public baseOffset: number
+
+  /**
+   * Whether we opened the file handle ourselves (and so are responsible for closing it), or share it with the ConsumableFile we're a subview of.
+   *
+   * @private
+   */
+  public ownsHandle: boolean
+
+  /**
+   * Size of the read-ahead window, in bytes; 0 when unbuffered.
+   *
+   * @private
+   */
+  public readAhead: number
+
+  /**
+   * The read-ahead window - bytes already read from the file, starting at ConsumableFile.windowStart.
+   *
+   * @private
+   */
+  public window?: Buffer
+
+  /**
+   * Where the read-ahead window starts, relative to the start of this ConsumableFile.
+   *
+   * @private
+   */
+  public windowStart: number
+
   /**
    * How far into the file we've read, in bytes.
    */
   public position: number
 
+  /**
+   * The total length of the file, in bytes; zero until the file has been opened.
+   */
+  public get length (): number {
+    return this.filesize ?? 0
+  }
+
   /**
    * ConsumableFile is a class designed to, like ConsumableBuffer, wrap around node.js file descriptors to allow for more fluid seeking/reading capabilities,
    *   moving logic out of the way of interacting with data.  Give it a filepath, call read and it will simply advance through the file as you read.
    *
    * @param  path - Path to the file that we're going to be "consuming".
+   * @param  options - (optional) Options for the file, such as the size of the read-ahead window.
    * @return {ConsumableFile}
    *
+   * @throws {Error} - Throws when the readAhead option isn't a non-negative integer.
+   *
    * @example
    * ```
    * import { ConsumableFile } from 'byteaccordion'
@@ -61,12 +118,23 @@ export class ConsumableFile implements ConsumableResource {
    *   console.log(rdBuffer.toString()) // and this also oututs "TEST"
    * }
    * readFile(cbuf)
+   *
+   * // parsers making many small reads should read ahead, to avoid a syscall per read
+   * const parsed = new ConsumableFile(filepath, { readAhead: 64 * 1024 })
    * ```
    */
-  constructor (path: string) {
+  constructor (path: string, options: ConsumableFileOptions = {}) {
+    super()
+    const readAhead = options.readAhead ?? 0
+    if (!Number.isInteger(readAhead) || readAhead < 0) {
+      throw new Error('readAhead option must be a positive integer.')
+    }
+
     this.path = path
-    this.fh = this.filesize = undefined
-    this.position = 0
+    this.fh = this.filesize = this.window = undefined
+    this.position = this.baseOffset = this.windowStart = 0
+    this.ownsHandle = true
+    this.readAhead = readAhead
   }
 
   /**
@@ -93,7 +161,9 @@ export class ConsumableFile implements ConsumableResource {
     this.fh = await fs.promises.open(this.path, 'r', 0o666)
     const stats = await this.fh.stat()
     this.filesize = stats.size
-    this.position = 0
+    this.position = this.baseOffset = 0
+    this.ownsHandle = true
+    this.window = undefined
   }
 
   /**
@@ -115,11 +185,12 @@ export class ConsumableFile implements ConsumableResource {
    * ```
    */
   public async close (): Promise<void> {
-    if (this.fh !== undefined) {
+    // subviews share their parent's file handle, and leave closing it to the parent.
+    if (this.fh !== undefined && this.ownsHandle) {
       await this.fh.close()
     }
 
-    this.fh = this.filesize = undefined
+    this.fh = this.filesize = this.window = undefined
     this.position = 0
   }
 
@@ -147,6 +218,68 @@ export class ConsumableFile implements ConsumableResource {
   // eslint-disable-next-line @typescript-eslint/require-await
   public async reset (): Promise<void> {
     this.position = 0
+    this.window = undefined
+  }
+
+  /**
+   * Fetches bytes at the current position without advancing, from the read-ahead window where possible.
+   *   The window is refilled from the current position whenever it can't satisfy a read that fits within it.
+   *
+   * @private
+   * @param  bytes - How many bytes to fetch; must already be validated against the file's length.
+   * @return {Promise<Buffer>}
+   *
+   * @throws {Error} - Throws if we somehow read less than the number of bytes requested.
+   */
+  protected async fetch (bytes: number): Promise<Buffer> {
+    const fh = this.fh as FileHandle
+    const filesize = this.filesize as number
+    if (bytes > this.readAhead) {
+      const { bytesRead, buffer } = await fh.read(Buffer.alloc(bytes), 0, bytes, this.baseOffset + this.position)
+      if (bytesRead !== bytes) {
+        throw new Error('Failed to read number of bytes requested.') // ???
+      }
+
+      return buffer
+    }
+
+    if (this.window === undefined || this.position < this.windowStart || this.position + bytes > this.windowStart + this.window.length) {
+      const size = Math.min(this.readAhead, filesize - this.position)
+      const { bytesRead, buffer } = await fh.read(Buffer.alloc(size), 0, size, this.baseOffset + this.position)
+      if (bytesRead !== size) {
+        this.window = undefined
+        throw new Error('Failed to read number of bytes requested.')
+      }
+
+      this.window = buffer
+      this.windowStart = this.position
+    }
+
+    // copied out, so that callers modifying what we return can't corrupt the window
+    const start = this.position - this.windowStart
+
+    return Buffer.from(this.window.slice(start, start + bytes))
+  }
+
+  /**
+   * Reads bytes at an absolute offset within the file, without moving the position or touching the read-ahead window.
+   *
+   * @private
+   * @param  offset - Where to read from.
+   * @param  bytes - The most bytes to read.
+   * @return {Promise<Buffer>}
+   *
+   * @throws {Error} - Throws when the file hasn't yet been opened.
+   */
+  protected async readAt (offset: number, bytes: number): Promise<Buffer> {
+    if (this.fh === undefined || this.filesize === undefined) {
+      throw new Error('File does not appear to have been opened.')
+    }
+
+    bytes = Math.max(0, Math.min(bytes, this.filesize - offset))
+    const { bytesRead, buffer } = await this.fh.read(Buffer.alloc(bytes), 0, bytes, this.baseOffset + offset)
+
+    return buffer.slice(0, bytesRead)
   }
 
   /**
@@ -187,15 +320,95 @@ export class ConsumableFile implements ConsumableResource {
       throw new RangeError('File exhausted; attempted to read beyond file.')
     }
 
-    const { bytesRead, buffer } = await this.fh.read(Buffer.alloc(bytes), 0, bytes, this.position)
+    const buffer = await this.fetch(bytes)
     this.position += bytes
-    if (bytesRead !== bytes) {
-      throw new Error('Failed to read number of bytes requested.') // ???
-    }
+    this.notify(buffer)
 
     return buffer
   }
 
+  /**
+   * Reads upcoming bytes from the file without consuming them - the position is left untouched.
+   *
+   * @param  bytes - The number of bytes to peek at.
+   * @return {Promise<Buffer>} - Returns a buffer containing the next selected bytes from the ConsumableFile.
+   *
+   * @throws {Error} - Throws when the file hasn't yet been opened.
+   * @throws {Error} - Throws when the bytes parameter isn't a finite number, is NaN, or is <= 0.
+   * @throws {RangeError} - Throws when we try to peek beyond the file's contents.
+   * @throws {Error} - Throws if we somehow read less than the number of bytes requested.
+   *
+   * @example
+   * ```
+   * const filepath = '/path/to/file.txt'
+   * const cbuf = new ConsumableFile(filepath)
+   * await cbuf.open()
+   *
+   * const peekBuffer = await cbuf.peek(2)
+   * // peekBuffer would equal <Buffer 54 45>, and cbuf.position would still be 0
+   * ```
+   */
+  public async peek (bytes: number): Promise<Buffer> {
+    if (this.fh === undefined || this.filesize === undefined) {
+      throw new Error('File does not appear to have been opened.')
+    }
+
+    if (isNaN(bytes) || !isFinite(bytes) || bytes < 0) {
+      throw new Error('Bytes parameter must be a positive integer.')
+    }
+
+    bytes = Math.floor(bytes)
+
+    if (bytes === 0) {
+      return Buffer.alloc(0)
+    }
+
+    if ((this.position + bytes) > this.filesize) {
+      throw new RangeError('File exhausted; attempted to peek beyond file.')
+    }
+
+    return this.fetch(bytes)
+  }
+
+  /**
+   * Creates a ConsumableFile over a window of this file, sharing our file handle rather than opening the file again.
+   *   The subview is ready to read from immediately; closing it leaves our file handle open, while closing us renders the subview unusable.
+   *   The subview reads ahead by the same amount we do, with a window of its own.
+   *
+   * @param  offset - Where the window starts, relative to the start of this ConsumableFile.
+   * @param  length - How many bytes long the window is.
+   * @return {ConsumableFile} - Returns a new ConsumableFile whose position 0 is the given offset.
+   *
+   * @throws {Error} - Throws when the file hasn't yet been opened.
+   * @throws {Error} - Throws when the offset or length aren't non-negative integers.
+   * @throws {RangeError} - Throws when the window extends beyond the file.
+   *
+   * @example
+   * ```
+   * const cbuf = new ConsumableFile('/path/to/archive.bin')
+   * await cbuf.open()
+   *
+   * const entry = cbuf.subview(512, 1024)
+   * await entry.read(1024) // reads bytes 512 through 1535 of the file
+   * await entry.read(1) // throws a RangeError - we're at the end of the entry
+   * ```
+   */
+  public subview (offset: number, length: number): ConsumableFile {
+    if (this.fh === undefined || this.filesize === undefined) {
+      throw new Error('File does not appear to have been opened.')
+    }
+
+    this.assertSubview(offset, length)
+
+    const view = new ConsumableFile(this.path, { readAhead: this.readAhead })
+    view.fh = this.fh
+    view.filesize = length
+    view.baseOffset = this.baseOffset + offset
+    view.ownsHandle = false
+
+    return view
+  }
+
   /**
    * Seeks within the file to reposition for read, relative to the current position.
    *
@@ -217,7 +430,7 @@ export class ConsumableFile implements ConsumableResource {
    * ```
    */
   public async seek (bytes: number): Promise<void> {
-    return this.aseek(this.position += bytes)
+    return this.aseek(this.position + bytes)
   }
 
   /**
@@ -227,7 +440,7 @@ export class ConsumableFile implements ConsumableResource {
    * @return {Promise<void>}
    *
    * @throws {Error} - Throws when the file hasn't been opened yet.
-   * @throws {Error} - Throws when the bytes parameter isn't a finite number, is NaN, or is <= 0.
+   * @throws {Error} - Throws when the bytes parameter isn't a finite number, is NaN, or is < 0.
    * @throws {RangeError} - Throws when we try to seek beyond the file's contents.
    *
    * @example
@@ -255,14 +468,19 @@ export class ConsumableFile implements ConsumableResource {
       throw new Error('File does not appear to have been opened.')
     }
 
-    if (isNaN(bytes) || !isFinite(bytes) || bytes <= 0) {
+    if (isNaN(bytes) || !isFinite(bytes) || bytes < 0) {
       throw new Error('Bytes parameter must be a positive integer.')
     }
 
-    if (this.position > this.filesize) {
+    if (bytes > this.filesize) {
       throw new RangeError('File exhausted; attempted to seek beyond file.')
     }
 
     this.position = Math.floor(bytes)
+
+    // the window stays useful for seeks landing within it; anywhere else, it's only dead weight
+    if (this.window !== undefined && (this.position < this.windowStart || this.position >= this.windowStart + this.window.length)) {
+      this.window = undefined
+    }
   }
 }
@@ -6,7 +6,96 @@
 // @url <https://github.com/damianb/ByteAccordion>
 //
 
+import { Readable } from 'stream'
+
+import { NumericType, NumericValue } from './NumericTypes'
+import { DelimiterOptions, LineOptions } from './Delimiters'
+import { FixedStringOptions, LengthPrefixType, StringOptions } from './Strings'
+import { HashObserver } from './Hashes'
+
+/**
+ * Options for searching within a resource.
+ */
+export interface SearchOptions {
+  /**
+   * Where the search range starts, as an absolute offset; defaults to the current position.
+   */
+  from?: number
+
+  /**
+   * Where the search range ends (exclusive), as an absolute offset; defaults to the end of the resource.
+   *   Only matches lying entirely within the range are found.
+   */
+  to?: number
+
+  /**
+   * Search from the end of the range toward its start, finding the last match rather than the first; defaults to false.
+   */
+  backwards?: boolean
+}
+
+/**
+ * Options for skipping to an alignment boundary within a resource.
+ */
+export interface AlignOptions {
+  /**
+   * The absolute offset boundaries are measured from, such as the start of an enclosing chunk; defaults to 0.
+   */
+  base?: number
+
+  /**
+   * Verify that every byte skipped is zero; defaults to false.
+   */
+  verifyZero?: boolean
+}
+
+/**
+ * Works out how many bytes of padding lie between a position and the next alignment boundary, measured from a base offset.
+ *
+ * @private
+ * @param  position - The position to align.
+ * @param  boundary - The alignment, in bytes.
+ * @param  base - (optional) The offset boundaries are measured from; defaults to 0.
+ * @return {number}
+ *
+ * @throws {Error} - Throws when the boundary isn't a positive integer, or the base isn't a non-negative integer.
+ */
+export function alignmentPadding (position: number, boundary: number, base: number = 0): number {
+  if (!Number.isInteger(boundary) || boundary < 1) {
+    throw new Error('Boundary parameter must be a positive integer.')
+  }
+  if (!Number.isInteger(base) || base < 0) {
+    throw new Error('Base option must be a non-negative integer.')
+  }
+
+  return ((base - position) % boundary + boundary) % boundary
+}
+
 export interface ConsumableResource {
+  /**
+   * How far into the resource we've read, in bytes.
+   */
+  readonly position: number
+
+  /**
+   * The total length of the resource, in bytes.
+   */
+  readonly length: number
+
+  /**
+   * How many bytes are left to read from the current position.
+   *
+   * @return {number}
+   */
+  remaining (): number
+
+  /**
+   * Whether everything in the resource has been read.
+   *
+   * @return {boolean}
+   */
+  eof (): boolean
+
   /**
    * Resets the current working position in the resource.
    *
@@ -38,4 +127,331 @@ export interface ConsumableResource {
    * @return {Promise<void>}
    */
   aseek (bytes: number): Promise<void>
+
+  /**
+   * Reads upcoming bytes from the resource without consuming them; the read position is left untouched.
+   *
+   * @param  bytes - The number of bytes to peek at.
+   * @return {Promise<Buffer>} - Returns a Buffer containing the next selected bytes from the resource.
+   */
+  peek (bytes: number): Promise<Buffer>
+
+  /**
+   * Creates a bounded view onto a window of the resource, sharing the underlying data rather than copying it.
+   *   Position 0 of the view maps to the given offset, and the view cannot read beyond the given length.
+   *
+   * @param  offset - Where the window starts, relative to the start of this resource.
+   * @param  length - How many bytes long the window is.
+   * @return {ConsumableResource}
+   */
+  subview (offset: number, length: number): ConsumableResource
+
+  /**
+   * Iterates over the resource in chunks, starting at the current position and advancing it as it goes.
+   *
+   * @param  size - (optional) The largest chunk to yield, in bytes; defaults to 64KiB.
+   * @param  end - (optional) Where to stop iterating, as an absolute offset; defaults to the end of the resource.
+   * @return {AsyncGenerator<Buffer>}
+   */
+  chunks (size?: number, end?: number): AsyncGenerator<Buffer>
+
+  /**
+   * Iterates over the rest of the resource in 64KiB chunks - equivalent to ConsumableResource.chunks().
+   *
+   * @return {AsyncGenerator<Buffer>}
+   */
+  [Symbol.asyncIterator] (): AsyncGenerator<Buffer>
+
+  /**
+   * Adapts the rest of the resource into a Readable stream, consuming the resource as the stream is read.
+   *
+   * @param  size - (optional) The largest chunk to push into the stream at once, in bytes; defaults to 64KiB.
+   * @param  end - (optional) Where to stop, as an absolute offset; defaults to the end of the resource.
+   * @return {Readable}
+   */
+  toReadable (size?: number, end?: number): Readable
+
+  /**
+   * Searches for a byte pattern without moving the position.
+   *
+   * @param  pattern - The bytes to search for; strings are treated as utf8, and numbers as a single byte.
+   * @param  options - (optional) The range to search, and which direction to search it in.
+   * @return {Promise<number>} - Returns the absolute offset of the match, or -1 when there is none.
+   */
+  indexOf (pattern: Buffer | string | number, options?: SearchOptions): Promise<number>
+
+  /**
+   * Moves the position forward to the start of the next occurrence of a byte pattern.
+   *
+   * @param  pattern - The bytes to search for; strings are treated as utf8, and numbers as a single byte.
+   * @param  to - (optional) Where to stop searching (exclusive), as an absolute offset; defaults to the end of the resource.
+   * @return {Promise<number>} - Returns the absolute offset of the match, or -1 when there is none, leaving the position untouched.
+   */
+  scanTo (pattern: Buffer | string | number, to?: number): Promise<number>
+
+  /**
+   * Reads and consumes padding up to the next multiple of the given number of bytes.
+   *
+   * @param  boundary - The alignment, in bytes.
+   * @param  options - (optional) The offset boundaries are measured from, and whether to verify the padding is zero.
+   * @return {Promise<number>} - Returns how many bytes were skipped.
+   */
+  align (boundary: number, options?: AlignOptions): Promise<number>
+
+  /**
+   * Attaches a HashObserver, which will digest every byte read from here on - until it's detached.
+   *
+   * @param  observer - The HashObserver to attach.
+   * @return {T} - Returns the observer attached.
+   */
+  attach<T extends HashObserver> (observer: T): T
+
+  /**
+   * Detaches a previously attached HashObserver.
+   *
+   * @param  observer - The HashObserver to detach.
+   * @return {void}
+   */
+  detach (observer: HashObserver): void
+
+  /**
+   * Reads an upcoming numeric value of the given type without consuming it.
+   *
+   * @param  type - The numeric type to peek at.
+   * @return {Promise<NumericValue<T>>} - Returns the decoded value; a bigint for 64-bit integer types, a number otherwise.
+   */
+  peekNumeric<T extends NumericType> (type: T): Promise<NumericValue<T>>
+
+  /**
+   * Reads and consumes a single numeric value of the given type from the resource.
+   *
+   * @param  type - The numeric type to read.
+   * @return {Promise<NumericValue<T>>} - Returns the decoded value; a bigint for 64-bit integer types, a number otherwise.
+   */
+  readNumeric<T extends NumericType> (type: T): Promise<NumericValue<T>>
+
+  /**
+   * Reads and consumes an unsigned 8-bit integer.
+   *
+   * @return {Promise<number>}
+   */
+  readUInt8 (): Promise<number>
+
+  /**
+   * Reads and consumes a signed 8-bit integer.
+   *
+   * @return {Promise<number>}
+   */
+  readInt8 (): Promise<number>
+
+  /**
+   * Reads and consumes an unsigned little-endian 16-bit integer.
+   *
+   * @return {Promise<number>}
+   */
+  readUInt16LE (): Promise<number>
+
+  /**
+   * Reads and consumes an unsigned big-endian 16-bit integer.
+   *
+   * @return {Promise<number>}
+   */
+  readUInt16BE (): Promise<number>
+
+  /**
+   * Reads and consumes a signed little-endian 16-bit integer.
+   *
+   * @return {Promise<number>}
+   */
+  readInt16LE (): Promise<number>
+
+  /**
+   * Reads and consumes a signed big-endian 16-bit integer.
+   *
+   * @return {Promise<number>}
+   */
+  readInt16BE (): Promise<number>
+
+  /**
+   * Reads and consumes an unsigned little-endian 24-bit integer.
+   *
+   * @return {Promise<number>}
+   */
+  readUInt24LE (): Promise<number>
+
+  /**
+   * Reads and consumes an unsigned big-endian 24-bit integer.
+   *
+   * @return {Promise<number>}
+   */
+  readUInt24BE (): Promise<number>
+
+  /**
+   * Reads and consumes a signed little-endian 24-bit integer.
+   *
+   * @return {Promise<number>}
+   */
+  readInt24LE (): Promise<number>
+
+  /**
+   * Reads and consumes a signed big-endian 24-bit integer.
+   *
+   * @return {Promise<number>}
+   */
+  readInt24BE (): Promise<number>
+
+  /**
+   * Reads and consumes an unsigned little-endian 32-bit integer.
+   *
+   * @return {Promise<number>}
+   */
+  readUInt32LE (): Promise<number>
+
+  /**
+   * Reads and consumes an unsigned big-endian 32-bit integer.
+   *
+   * @return {Promise<number>}
+   */
+  readUInt32BE (): Promise<number>
+
+  /**
+   * Reads and consumes a signed little-endian 32-bit integer.
+   *
+   * @return {Promise<number>}
+   */
+  readInt32LE (): Promise<number>
+
+  /**
+   * Reads and consumes a signed big-endian 32-bit integer.
+   *
+   * @return {Promise<number>}
+   */
+  readInt32BE (): Promise<number>
+
+  /**
+   * Reads and consumes an unsigned little-endian 64-bit integer.
+   *
+   * @return {Promise<bigint>}
+   */
+  readBigUInt64LE (): Promise<bigint>
+
+  /**
+   * Reads and consumes an unsigned big-endian 64-bit integer.
+   *
+   * @return {Promise<bigint>}
+   */
+  readBigUInt64BE (): Promise<bigint>
+
+  /**
+   * Reads and consumes a signed little-endian 64-bit integer.
+   *
+   * @return {Promise<bigint>}
+   */
+  readBigInt64LE (): Promise<bigint>
+
+  /**
+   * Reads and consumes a signed big-endian 64-bit integer.
+   *
+   * @return {Promise<bigint>}
+   */
+  readBigInt64BE (): Promise<bigint>
+
+  /**
+   * Reads and consumes a little-endian 32-bit float.
+   *
+   * @return {Promise<number>}
+   */
+  readFloatLE (): Promise<number>
+
+  /**
+   * Reads and consumes a big-endian 32-bit float.
+   *
+   * @return {Promise<number>}
+   */
+  readFloatBE (): Promise<number>
+
+  /**
+   * Reads and consumes a little-endian 64-bit float.
+   *
+   * @return {Promise<number>}
+   */
+  readDoubleLE (): Promise<number>
+
+  /**
+   * Reads and consumes a big-endian 64-bit float.
+   *
+   * @return {Promise<number>}
+   */
+  readDoubleBE (): Promise<number>
+
+  /**
+   * Reads and consumes an unsigned LEB128 variable-length integer.
+   *
+   * @return {Promise<number>}
+   */
+  readULEB128 (): Promise<number>
+
+  /**
+   * Reads and consumes a signed LEB128 variable-length integer.
+   *
+   * @return {Promise<number>}
+   */
+  readSLEB128 (): Promise<number>
+
+  /**
+   * Reads and consumes a zigzag-encoded signed integer stored as unsigned LEB128 (as used by protobuf's sint types).
+   *
+   * @return {Promise<number>}
+   */
+  readZigZag (): Promise<number>
+
+  /**
+   * Reads and consumes a MIDI-style variable-length quantity.
+   *
+   * @return {Promise<number>}
+   */
+  readVLQ (): Promise<number>
+
+  /**
+   * Reads and consumes a NUL-terminated string, including its terminator.
+   *
+   * @param  options - (optional) Encoding and maximum length of the string.
+   * @return {Promise<string>}
+   */
+  readCString (options?: StringOptions): Promise<string>
+
+  /**
+   * Reads and consumes a string preceded by its length in bytes.
+   *
+   * @param  prefix - The integer type holding the length of the string.
+   * @param  options - (optional) Encoding and maximum length of the string.
+   * @return {Promise<string>}
+   */
+  readPrefixedString (prefix: LengthPrefixType, options?: StringOptions): Promise<string>
+
+  /**
+   * Reads and consumes a fixed-width string field, stripping its padding.
+   *
+   * @param  length - The width of the field, in bytes.
+   * @param  options - (optional) Encoding and padding of the field.
+   * @return {Promise<string>}
+   */
+  readFixedString (length: number, options?: FixedStringOptions): Promise<string>
+
+  /**
+   * Reads and consumes everything up to the next occurrence of a delimiter, consuming the delimiter as well.
+   *
+   * @param  delimiter - The bytes to read up to; strings are treated as utf8, and numbers as a single byte.
+   * @param  options - (optional) The most bytes to read, and whether to include the delimiter in what's returned.
+   * @return {Promise<Buffer>}
+   */
+  readUntil (delimiter: Buffer | string | number, options?: DelimiterOptions): Promise<Buffer>
+
+  /**
+   * Reads and consumes a line, consuming its "\n" or "\r\n" line ending without returning it.
+   *
+   * @param  options - (optional) Encoding and maximum length of the line.
+   * @return {Promise<string>}
+   */
+  readLine (options?: LineOptions): Promise<string>
 }
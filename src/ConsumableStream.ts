@@ -0,0 +1,427 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { Readable } from 'stream'
+
+import { AbstractConsumableResource, DEFAULT_CHUNK_SIZE } from './AbstractConsumableResource'
+import { ConsumableResource } from './ConsumableResource'
+
+/**
+ * Options accepted when constructing a ConsumableStream.
+ */
+export interface ConsumableStreamOptions {
+  /**
+   * How many already-read bytes to keep around, allowing backwards seeks that far; defaults to 0.
+   */
+  history?: number
+}
+
+export class ConsumableStream extends AbstractConsumableResource implements ConsumableResource {
+  /**
+   * The stream we're consuming.
+   *
+   * @private
+   */
+  public stream: Readable
+
+  /**
+   * How many already-read bytes we keep around for backwards seeks.
+   *
+   * @private
+   */
+  public history: number
+
+  /**
+   * Bytes received from the stream and not yet discarded, starting at ConsumableStream.dataStart.
+   *   More may follow in ConsumableStream.pending.
+   *
+   * @private
+   */
+  public data: Buffer
+
+  /**
+   * Chunks received from the stream since ConsumableStream.data was last assembled, following on from it.
+   *   They're only concatenated onto it once they're needed, so that receiving many chunks doesn't recopy everything held each time.
+   *
+   * @private
+   */
+  public pending: Buffer[]
+
+  /**
+   * The total length of the chunks in ConsumableStream.pending, in bytes.
+   *
+   * @private
+   */
+  public pendingLength: number
+
+  /**
+   * The offset within the stream of the first byte we're still holding onto.
+   *
+   * @private
+   */
+  public dataStart: number
+
+  /**
+   * Whether the stream has ended, leaving nothing more to receive.
+   *
+   * @private
+   */
+  public ended: boolean
+
+  /**
+   * How far into the stream we've read, in bytes.
+   */
+  public position: number
+
+  /**
+   * Iterator pulling chunks from the stream.
+   *
+   * @private
+   */
+  public incoming: AsyncIterator<Buffer | string>
+
+  /**
+   * The error the stream failed with, if it has, to be thrown by the next read.
+   *
+   * @private
+   */
+  public failure?: Error
+
+  /**
+   * The total length of the stream, in bytes; Infinity until the stream has ended, as it isn't known until then.
+   */
+  public get length (): number {
+    return this.ended ? this.received : Infinity
+  }
+
+  /**
+   * The offset within the stream we've received up to.
+   *
+   * @private
+   */
+  public get received (): number {
+    return this.dataStart + this.data.length + this.pendingLength
+  }
+
+  /**
+   * ConsumableStream is a class designed to, like ConsumableBuffer, allow for fluid reading of a node.js Readable stream -
+   *   reads simply wait for enough of the stream to arrive.  Forward seeks skip over data; backwards seeks are only possible
+   *   within the history retained, as the stream can't be rewound.  Subviews are not supported.
+   *
+   * @param  stream - The Readable stream to consume.
+   * @param  options - (optional) Options for the stream, such as how much history to retain for backwards seeks.
+   * @return {ConsumableStream}
+   *
+   * @throws {Error} - Throws when the history option isn't a non-negative integer.
+   *
+   * @example
+   * ```
+   * import { ConsumableStream } from 'byteaccordion'
+   * const child = spawn('some-command')
+   * const cstream = new ConsumableStream(child.stdout, { history: 1024 })
+   *
+   * const magic = await cstream.read(4)
+   * const size = await cstream.readUInt32LE()
+   * await cstream.seek(-8) // allowed, as it's within the retained history
+   * ```
+   */
+  constructor (stream: Readable, options: ConsumableStreamOptions = {}) {
+    super()
+    const history = options.history ?? 0
+    if (!Number.isInteger(history) || history < 0) {
+      throw new Error('history option must be a positive integer.')
+    }
+
+    this.stream = stream
+    this.history = history
+    this.data = Buffer.alloc(0)
+    this.pending = []
+    this.pendingLength = 0
+    this.dataStart = this.position = 0
+    this.ended = false
+    this.incoming = stream[Symbol.asyncIterator]()
+
+    // the iterator only listens for errors once it's first pulled from, and an unhandled error event would take the process down
+    stream.on('error', (err: Error) => {
+      this.failure = this.failure ?? err
+    })
+  }
+
+  /**
+   * Receives from the stream until it holds everything up to the given offset, or the stream ends.
+   *   Bytes before the given offset minus the retained history are discarded as we go, so skipping far ahead stays cheap.
+   *
+   * @private
+   * @param  end - The offset within the stream we need to have received up to.
+   * @param  keepFrom - The offset we'll be reading from afterwards, which history is retained relative to.
+   * @return {Promise<void>}
+   *
+   * @throws {Error} - Throws the error the stream failed with, should it have failed.
+   */
+  protected async receive (end: number, keepFrom: number): Promise<void> {
+    if (this.failure !== undefined) {
+      throw this.failure
+    }
+
+    while (!this.ended && this.received < end) {
+      const { done, value } = await this.incoming.next()
+      if (done === true) {
+        this.ended = true
+        break
+      }
+
+      const chunk = Buffer.isBuffer(value) ? value : Buffer.from(value)
+      this.pending.push(chunk)
+      this.pendingLength += chunk.length
+      this.discard(keepFrom)
+    }
+  }
+
+  /**
+   * Concatenates any pending chunks onto ConsumableStream.data, in one go.
+   *
+   * @private
+   * @return {void}
+   */
+  protected assemble (): void {
+    if (this.pending.length === 0) {
+      return
+    }
+
+    this.data = Buffer.concat([this.data, ...this.pending], this.data.length + this.pendingLength)
+    this.pending = []
+    this.pendingLength = 0
+  }
+
+  /**
+   * Discards held bytes that fall outside the retained history.
+   *
+   * @private
+   * @param  keepFrom - The offset we'll be reading from next, which history is retained relative to.
+   * @return {void}
+   */
+  protected discard (keepFrom: number): void {
+    let drop = Math.min(keepFrom - this.history - this.dataStart, this.data.length + this.pendingLength)
+    if (drop <= 0) {
+      return
+    }
+
+    const fromData = Math.min(drop, this.data.length)
+    this.data = this.data.slice(fromData)
+    this.dataStart += fromData
+    drop -= fromData
+
+    // whatever is left to drop comes off the front of the pending chunks
+    while (drop > 0) {
+      const chunk = this.pending[0]
+      const fromChunk = Math.min(drop, chunk.length)
+      if (fromChunk === chunk.length) {
+        this.pending.shift()
+      } else {
+        this.pending[0] = chunk.slice(fromChunk)
+      }
+      this.pendingLength -= fromChunk
+      this.dataStart += fromChunk
+      drop -= fromChunk
+    }
+  }
+
+  /**
+   * Reads bytes at an absolute offset within the stream without moving the position, waiting for them to arrive.
+   *   Everything from the current position onward is held onto in the meantime, as it hasn't been read yet.
+   *
+   * @private
+   * @param  offset - Where to read from.
+   * @param  bytes - The most bytes to read.
+   * @return {Promise<Buffer>}
+   *
+   * @throws {RangeError} - Throws when the offset lies before the retained history.
+   */
+  protected async readAt (offset: number, bytes: number): Promise<Buffer> {
+    if (offset < this.dataStart) {
+      throw new RangeError(`Cannot read back at offset ${offset}; only the last ${this.history} bytes read are retained.`)
+    }
+
+    await this.receive(offset + bytes, this.position)
+    this.assemble()
+    const start = offset - this.dataStart
+
+    return Buffer.from(this.data.slice(start, start + bytes))
+  }
+
+  /**
+   * Returns to the start of the stream - only possible while the start is still within the retained history.
+   *
+   * @return {Promise<void>}
+   *
+   * @throws {RangeError} - Throws when the start of the stream is no longer retained.
+   */
+  public async reset (): Promise<void> {
+    return this.aseek(0)
+  }
+
+  /**
+   * Reads from the stream, waiting for enough of it to arrive.
+   *
+   * @param  bytes - The number of bytes to read and advance within the stream.
+   * @return {Promise<Buffer>} - Returns a buffer containing the next selected bytes from the ConsumableStream.
+   *
+   * @throws {Error} - Throws when the bytes parameter isn't a finite number, is NaN, or is <= 0.
+   * @throws {RangeError} - Throws when the stream ends before enough bytes arrive.
+   * @throws {Error} - Throws the error the stream failed with, should it have failed.
+   *
+   * @example
+   * ```
+   * const cstream = new ConsumableStream(fs.createReadStream('/path/to/file.txt'))
+   * const readBuffer = await cstream.read(2)
+   * // readBuffer would equal <Buffer 54 45>
+   * ```
+   */
+  public async read (bytes: number): Promise<Buffer> {
+    const buf = await this.fetch(bytes, 'read')
+    this.position += buf.length
+    this.discard(this.position)
+    this.notify(buf)
+
+    return buf
+  }
+
+  /**
+   * Reads upcoming bytes from the stream without consuming them, waiting for enough of it to arrive.
+   *
+   * @param  bytes - The number of bytes to peek at.
+   * @return {Promise<Buffer>} - Returns a buffer containing the next selected bytes from the ConsumableStream.
+   *
+   * @throws {Error} - Throws when the bytes parameter isn't a finite number, is NaN, or is <= 0.
+   * @throws {RangeError} - Throws when the stream ends before enough bytes arrive.
+   * @throws {Error} - Throws the error the stream failed with, should it have failed.
+   */
+  public async peek (bytes: number): Promise<Buffer> {
+    return this.fetch(bytes, 'peek')
+  }
+
+  /**
+   * Fetches bytes at the current position without advancing, for read and peek.
+   *
+   * @private
+   * @param  bytes - How many bytes to fetch.
+   * @param  action - What we're fetching for, for error messages.
+   * @return {Promise<Buffer>}
+   */
+  protected async fetch (bytes: number, action: 'read' | 'peek'): Promise<Buffer> {
+    if (isNaN(bytes) || !isFinite(bytes) || bytes < 0) {
+      throw new Error('Bytes parameter must be a positive integer.')
+    }
+
+    bytes = Math.floor(bytes)
+
+    if (bytes === 0) {
+      return Buffer.alloc(0)
+    }
+
+    await this.receive(this.position + bytes, this.position)
+    if (this.position + bytes > this.received) {
+      throw new RangeError(`Stream exhausted; attempted to ${action} beyond stream.`)
+    }
+
+    this.assemble()
+    const start = this.position - this.dataStart
+
+    return Buffer.from(this.data.slice(start, start + bytes))
+  }
+
+  /**
+   * Iterates over the stream in chunks, starting at the current position and advancing it as it goes.
+   *   Without an end, iteration continues until the stream ends, however long it turns out to be.
+   *
+   * @param  size - (optional) The largest chunk to yield, in bytes; defaults to 64KiB.
+   * @param  end - (optional) Where to stop iterating, as an absolute offset; defaults to the end of the stream.
+   * @return {AsyncGenerator<Buffer>}
+   *
+   * @throws {Error} - Throws when the size isn't a positive integer, or the end isn't a non-negative integer.
+   * @throws {RangeError} - Throws when the end lies before the current position, or the stream ends before it.
+   */
+  public async * chunks (size: number = DEFAULT_CHUNK_SIZE, end?: number): AsyncGenerator<Buffer> {
+    const stop = this.chunkBounds(size, end)
+    while (this.position < stop) {
+      let bytes = Math.min(size, stop - this.position)
+      if (end === undefined) {
+        // the stream's length is unknown - settle for what's there once it ends
+        await this.receive(this.position + bytes, this.position)
+        bytes = Math.min(bytes, this.received - this.position)
+        if (bytes <= 0) {
+          return
+        }
+      }
+
+      yield await this.read(bytes)
+    }
+  }
+
+  /**
+   * Subviews can't be taken of a stream, as the bytes they cover may already be gone or not yet have arrived.
+   *
+   * @throws {Error} - Always throws.
+   */
+  public subview (): ConsumableResource {
+    throw new Error('ConsumableStream does not support subviews.')
+  }
+
+  /**
+   * Seeks within the stream, relative to the current position.
+   *
+   * @param  bytes - The number of bytes to shift within the stream; this can be negative, within the retained history.
+   * @return {Promise<void>}
+   *
+   * @see ConsumableStream.aseek
+   */
+  public async seek (bytes: number): Promise<void> {
+    return this.aseek(this.position + bytes)
+  }
+
+  /**
+   * Seeks within the stream, using an absolute position.  Seeking forward skips over (and waits for) data;
+   *   seeking backward is only possible within the retained history.
+   *
+   * @param  bytes - How many bytes into the stream do we want to seek?
+   * @return {Promise<void>}
+   *
+   * @throws {Error} - Throws when the bytes parameter isn't a finite number, is NaN, or is < 0.
+   * @throws {RangeError} - Throws when seeking back further than the retained history.
+   * @throws {RangeError} - Throws when the stream ends before the position sought, leaving us at the end of the stream.
+   *
+   * @example
+   * ```
+   * const cstream = new ConsumableStream(stream, { history: 16 })
+   * await cstream.aseek(1000) // waits for, and skips over, the first 1000 bytes
+   * await cstream.aseek(990) // fine, within the last 16 bytes
+   * await cstream.aseek(0) // throws a RangeError
+   * ```
+   */
+  public async aseek (bytes: number): Promise<void> {
+    if (isNaN(bytes) || !isFinite(bytes) || bytes < 0) {
+      throw new Error('Bytes parameter must be a positive integer.')
+    }
+
+    bytes = Math.floor(bytes)
+
+    if (bytes < this.dataStart) {
+      throw new RangeError(`Cannot seek back to offset ${bytes}; only the last ${this.history} bytes read are retained.`)
+    }
+
+    await this.receive(bytes, bytes)
+    if (bytes > this.received) {
+      // what we skipped over is already gone, so there's nowhere to go back to but the end
+      this.position = this.received
+      throw new RangeError('Stream exhausted; attempted to seek beyond stream.')
+    }
+
+    this.position = bytes
+    this.discard(this.position)
+  }
+}
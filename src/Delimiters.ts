@@ -0,0 +1,164 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { ConsumableResource } from './ConsumableResource'
+import { DelimiterNotFoundError } from './Errors'
+import { StringEncoding } from './Strings'
+
+/**
+ * Options for reading up to a delimiter.
+ */
+export interface DelimiterOptions {
+  /**
+   * The most bytes to read before the delimiter (not counting the delimiter itself); unlimited by default.
+   */
+  maxBytes?: number
+
+  /**
+   * Whether to include the delimiter at the end of what's returned; defaults to false.  The delimiter is consumed either way.
+   */
+  includeDelimiter?: boolean
+}
+
+/**
+ * Options for reading lines.
+ */
+export interface LineOptions {
+  /**
+   * The encoding of the line; defaults to utf8.
+   */
+  encoding?: StringEncoding
+
+  /**
+   * The longest line to read, in bytes (not counting the final "\n", but counting any "\r" before it); unlimited by default.
+   */
+  maxBytes?: number
+}
+
+/**
+ * How many bytes to look through at first; doubled every time the delimiter isn't found.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+export const INITIAL_SEARCH_WINDOW = 256
+
+/**
+ * Peeks at up to the given number of bytes, settling for fewer when the resource turns out to end sooner -
+ *   a stream's length only becomes known once the peek runs into its end.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+export async function peekUpTo (source: ConsumableResource, bytes: number): Promise<Buffer> {
+  let buf: Buffer
+  try {
+    buf = await source.peek(bytes)
+  } catch (err) {
+    if (!(err instanceof RangeError) || source.remaining() >= bytes) {
+      throw err
+    }
+
+    buf = await source.peek(source.remaining())
+  }
+
+  return buf
+}
+
+/**
+ * Converts a delimiter into its bytes.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+function toDelimiter (delimiter: Buffer | string | number): Buffer {
+  const buf = Buffer.isBuffer(delimiter) ? delimiter : typeof delimiter === 'string' ? Buffer.from(delimiter) : Buffer.from([delimiter])
+  if (buf.length === 0) {
+    throw new Error('Delimiter must not be empty.')
+  }
+
+  return buf
+}
+
+/**
+ * Reads from a resource up to (and consuming) the next occurrence of a delimiter.
+ *   Searches through a growing window of peeked bytes, so nothing is consumed unless the delimiter is found.
+ *
+ * @param  source - The resource to read from.
+ * @param  delimiter - The bytes to read up to; strings are treated as utf8, and numbers as a single byte.
+ * @param  options - (optional) The most bytes to read, and whether to include the delimiter in what's returned.
+ * @return {Promise<Buffer>}
+ *
+ * @throws {Error} - Throws when the delimiter is empty, or maxBytes isn't a non-negative integer.
+ * @throws {DelimiterNotFoundError} - Throws when the delimiter isn't found within maxBytes, or before the end of the resource.
+ */
+export async function readUntil (source: ConsumableResource, delimiter: Buffer | string | number, options: DelimiterOptions = {}): Promise<Buffer> {
+  const delim = toDelimiter(delimiter)
+  const maxBytes = options.maxBytes ?? Infinity
+  if (maxBytes !== Infinity && (!Number.isInteger(maxBytes) || maxBytes < 0)) {
+    throw new Error('maxBytes option must be a positive integer.')
+  }
+
+  let size = INITIAL_SEARCH_WINDOW
+  let searchFrom = 0
+  while (true) {
+    const limit = Math.min(maxBytes + delim.length, source.remaining())
+    const want = Math.min(size, limit)
+    const window = await peekUpTo(source, want)
+
+    const index = window.indexOf(delim, searchFrom)
+    if (index !== -1) {
+      const buf = await source.read(index + delim.length)
+
+      return options.includeDelimiter === true ? buf : buf.slice(0, index)
+    }
+
+    // out of bytes to search - whether from the limit, or the resource running out
+    if (window.length < want || want >= limit) {
+      const where = window.length >= maxBytes + delim.length ? `within ${maxBytes} bytes` : 'before the end of the resource'
+      throw new DelimiterNotFoundError(`Delimiter not found ${where}.`, delim, window.length)
+    }
+
+    // a delimiter straddling the end of this window will be found next time around
+    searchFrom = Math.max(0, window.length - delim.length + 1)
+    size *= 2
+  }
+}
+
+/**
+ * Reads a line from a resource, consuming its line ending - "\n" or "\r\n" - without returning it.
+ *   A final line without a line ending is returned as-is.
+ *
+ * @param  source - The resource to read from.
+ * @param  options - (optional) Encoding and maximum length of the line.
+ * @return {Promise<string>}
+ *
+ * @throws {DelimiterNotFoundError} - Throws when the line is longer than maxBytes, or the resource has already been read entirely.
+ */
+export async function readLine (source: ConsumableResource, options: LineOptions = {}): Promise<string> {
+  let buf: Buffer
+  try {
+    buf = await readUntil(source, 0x0A, { maxBytes: options.maxBytes })
+  } catch (err) {
+    const remaining = source.remaining()
+    if (!(err instanceof DelimiterNotFoundError) || remaining === 0 || remaining > (options.maxBytes ?? Infinity)) {
+      throw err
+    }
+
+    buf = await source.read(remaining)
+  }
+
+  if (buf[buf.length - 1] === 0x0D) {
+    buf = buf.slice(0, -1)
+  }
+
+  return buf.toString(options.encoding ?? 'utf8')
+}
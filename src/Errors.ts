@@ -0,0 +1,36 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+/**
+ * Thrown when a delimiter being read up to can't be found - either within the maximum number of bytes allowed,
+ *   or before the end of the resource.  Nothing is consumed from the resource when this is thrown.
+ */
+export class DelimiterNotFoundError extends Error {
+  /**
+   * The delimiter that was searched for.
+   */
+  public delimiter: Buffer
+
+  /**
+   * How many bytes were searched without finding the delimiter.
+   */
+  public searched: number
+
+  /**
+   * @param  message - Description of the failure.
+   * @param  delimiter - The delimiter that was searched for.
+   * @param  searched - How many bytes were searched without finding the delimiter.
+   * @return {DelimiterNotFoundError}
+   */
+  constructor (message: string, delimiter: Buffer, searched: number) {
+    super(message)
+    this.name = 'DelimiterNotFoundError'
+    this.delimiter = delimiter
+    this.searched = searched
+  }
+}
@@ -6,13 +6,85 @@
 // @url <https://github.com/damianb/ByteAccordion>
 //
 
+import { once } from 'events'
+import { Writable } from 'stream'
+
+import { AbstractExpandingResource } from './AbstractExpandingResource'
 import { ExpandingResource } from './ExpandingResource'
+import { Endianness } from './NumericTypes'
 
-export class ExpandingBuffer implements ExpandingResource {
+/**
+ * Options accepted when constructing an ExpandingBuffer.
+ */
+export interface ExpandingBufferOptions {
   /**
-   * The current working Buffer instance.
+   * Default byte order for the typed write methods; defaults to "LE".
+   */
+  endianness?: Endianness
+
+  /**
+   * How many bytes to allocate up front, for when the final size is roughly known; defaults to 256.
+   */
+  initialCapacity?: number
+
+  /**
+   * Keep the written data as a list of fixed-size chunks that are never reallocated, rather than one contiguous Buffer.
+   *   Suited to very large outputs; the contiguous Buffer is only assembled when ExpandingBuffer.buf is accessed.
+   */
+  chunked?: boolean
+
+  /**
+   * The size of each chunk in chunked mode, in bytes; defaults to 64KiB.
+   */
+  chunkSize?: number
+}
+
+/**
+ * Default capacity of a new ExpandingBuffer's backing store, in bytes.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+const DEFAULT_CAPACITY = 256
+
+/**
+ * Default size of each chunk in chunked mode, in bytes.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+const DEFAULT_CHUNK_SIZE = 64 * 1024
+
+export class ExpandingBuffer extends AbstractExpandingResource implements ExpandingResource {
+  /**
+   * The backing store; only the first ExpandingBuffer.position bytes hold written data.
+   *
+   * @private
    */
-  public buf: Buffer
+  public store: Buffer
+
+  /**
+   * The capacity the backing store starts out with, and returns to on reset.
+   *
+   * @private
+   */
+  public initialCapacity: number
+
+  /**
+   * The size of each chunk when in chunked mode, or undefined when backed by a single contiguous store.
+   *
+   * @private
+   */
+  public chunkSize?: number
+
+  /**
+   * The chunks holding written data when in chunked mode; only the first ExpandingBuffer.position bytes across them hold written data.
+   *
+   * @private
+   */
+  public chunks: Buffer[]
 
   /**
    * How long the current Buffer instance is, in bytes.
@@ -25,19 +97,199 @@ export class ExpandingBuffer implements ExpandingResource {
    *   making it possible to just write to your buffers and not care about their lengths.
    *   Create an ExpandingBuffer and just call write as much as you need.
    *
+   * @param  options - (optional) Options for the buffer, such as the default endianness for typed writes.
    * @return {ExpandingBuffer}
    *
+   * @throws {Error} - Throws when the initialCapacity option isn't a non-negative integer.
+   * @throws {Error} - Throws when the chunkSize option isn't a positive integer.
+   *
    * @example
    * ```
    * import { ExpandingBuffer } from 'byteaccordion'
    * sbuf = new ExpandingBuffer()
    *
    * await sbuf.write('test')
+   *
+   * // typed writes use the default endianness unless told otherwise
+   * const header = new ExpandingBuffer({ endianness: 'BE' })
+   * await header.writeUInt32(0xCAFEBABE)
+   * await header.writeUInt16(1, 'LE')
+   *
+   * // avoid regrowing the buffer when the final size is roughly known
+   * const large = new ExpandingBuffer({ initialCapacity: 1024 * 1024 })
+   *
+   * // or never reallocate at all, for very large outputs
+   * const huge = new ExpandingBuffer({ chunked: true, chunkSize: 1024 * 1024 })
    * ```
    */
-  constructor () {
-    this.buf = Buffer.alloc(0)
+  constructor (options: ExpandingBufferOptions = {}) {
+    super()
+    const initialCapacity = options.initialCapacity ?? DEFAULT_CAPACITY
+    if (!Number.isInteger(initialCapacity) || initialCapacity < 0) {
+      throw new Error('initialCapacity option must be a positive integer.')
+    }
+
+    if (options.chunked === true) {
+      const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE
+      if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+        throw new Error('chunkSize option must be a positive integer.')
+      }
+
+      this.chunkSize = chunkSize
+    }
+
+    this.initialCapacity = initialCapacity
+    this.store = Buffer.allocUnsafe(this.chunkSize === undefined ? initialCapacity : 0)
+    this.chunks = []
     this.position = 0
+    if (options.endianness !== undefined) {
+      this.endianness = options.endianness
+    }
+  }
+
+  /**
+   * The bytes written so far.
+   *   This is a view onto the backing store rather than a copy, so it only remains current until the buffer next grows;
+   *   copy it if it needs to outlive further writes.
+   *   In chunked mode, this instead assembles a new contiguous copy of the chunks on every access - prefer
+   *   ExpandingBuffer.segments() or ExpandingBuffer.pipeTo() there.
+   */
+  public get buf (): Buffer {
+    if (this.chunkSize === undefined) {
+      return this.store.slice(0, this.position)
+    }
+
+    return Buffer.concat([...this.segments()], this.position)
+  }
+
+  /**
+   * Replaces everything written so far with the given bytes, continuing on from their end.
+   *   Any placeholders reserved beforehand are forgotten.
+   *   In contiguous mode the given Buffer becomes the backing store itself; in chunked mode it's copied into new chunks.
+   */
+  public set buf (value: Buffer) {
+    this.chunks = []
+    this.position = value.length
+    this.placeholders = []
+    if (this.chunkSize === undefined) {
+      this.store = value
+    } else {
+      this.store = Buffer.allocUnsafe(0)
+      this.copyIntoChunks(value, 0)
+    }
+  }
+
+  /**
+   * How many bytes the backing store can hold before it must grow.
+   */
+  public get capacity (): number {
+    return this.chunkSize === undefined ? this.store.length : this.chunks.length * this.chunkSize
+  }
+
+  /**
+   * Iterates over the written data without flattening it - a single view in contiguous mode, or a view of each chunk in chunked mode.
+   *   Like ExpandingBuffer.buf, the views share memory with the buffer.
+   *
+   * @return {Generator<Buffer>}
+   *
+   * @example
+   * ```
+   * const sbuf = new ExpandingBuffer({ chunked: true, chunkSize: 4 })
+   * await sbuf.write('testing')
+   *
+   * for (const segment of sbuf.segments()) {
+   *   // first "test", then "ing"
+   * }
+   * ```
+   */
+  public * segments (): Generator<Buffer> {
+    if (this.chunkSize === undefined) {
+      yield this.store.slice(0, this.position)
+      return
+    }
+
+    let remaining = this.position
+    for (const chunk of this.chunks) {
+      if (remaining <= 0) {
+        break
+      }
+
+      yield chunk.slice(0, Math.min(remaining, chunk.length))
+      remaining -= chunk.length
+    }
+  }
+
+  /**
+   * Streams the written data into another ExpandingResource or a Writable stream, one segment at a time and without flattening it.
+   *   Backpressure from a Writable is honored; the Writable is left open afterwards.
+   *
+   * @param  dest - The ExpandingResource or Writable to copy the data into.
+   * @return {Promise<number>} - Returns how many bytes were copied.
+   *
+   * @example
+   * ```
+   * const sbuf = new ExpandingBuffer({ chunked: true })
+   * // ... hundreds of megabytes of writes ...
+   *
+   * const sfile = new ExpandingFile('/path/to/file.bin')
+   * await sfile.open()
+   * await sbuf.pipeTo(sfile)
+   * await sfile.close()
+   * ```
+   */
+  public async pipeTo (dest: ExpandingResource | Writable): Promise<number> {
+    let piped = 0
+    for (const segment of this.segments()) {
+      if (dest instanceof Writable) {
+        if (!dest.write(segment)) {
+          await once(dest, 'drain')
+        }
+      } else {
+        await dest.write(segment)
+      }
+      piped += segment.length
+    }
+
+    return piped
+  }
+
+  /**
+   * Copies bytes into the chunks at the given offset, allocating new chunks as needed.
+   *
+   * @private
+   * @param  input - The bytes to copy.
+   * @param  offset - Where in the written data to copy them to.
+   * @return {void}
+   */
+  protected copyIntoChunks (input: Buffer, offset: number): void {
+    const chunkSize = this.chunkSize as number
+    let copied = 0
+    while (copied < input.length) {
+      const index = Math.floor((offset + copied) / chunkSize)
+      if (index === this.chunks.length) {
+        this.chunks.push(Buffer.allocUnsafe(chunkSize))
+      }
+
+      copied += input.copy(this.chunks[index], (offset + copied) % chunkSize, copied)
+    }
+  }
+
+  /**
+   * Grows the backing store geometrically so that it can hold at least the given number of bytes,
+   *   keeping the total cost of many small writes linear rather than quadratic.
+   *
+   * @private
+   * @param  needed - How many bytes the store must be able to hold.
+   * @return {void}
+   */
+  protected ensureCapacity (needed: number): void {
+    if (needed <= this.store.length) {
+      return
+    }
+
+    const store = Buffer.allocUnsafe(Math.max(needed, this.store.length * 2, DEFAULT_CAPACITY))
+    this.store.copy(store, 0, 0, this.position)
+    this.store = store
   }
 
   /**
@@ -57,8 +309,33 @@ export class ExpandingBuffer implements ExpandingResource {
   // todo: change to a normal method. currently ignored as going from Promise to non-Promise return will result in an API break.
   // eslint-disable-next-line @typescript-eslint/require-await
   public async reset (): Promise<void> {
-    this.buf = Buffer.alloc(0)
+    this.store = Buffer.allocUnsafe(this.chunkSize === undefined ? this.initialCapacity : 0)
+    this.chunks = []
     this.position = 0
+    this.placeholders = []
+  }
+
+  /**
+   * Signals that writing to the expanding "buffer" is finished, verifying that every reserved placeholder was filled in.
+   *   The buffer itself remains intact and available.
+   *
+   * @return {Promise<void>}
+   *
+   * @throws {Error} - Throws when any placeholder reserved with ExpandingBuffer.reserve() was left unfilled.
+   *
+   * @example
+   * ```
+   * const sbuf = new ExpandingBuffer()
+   * const size = await sbuf.reserve('uint16le')
+   * await sbuf.write('test')
+   * await sbuf.close()
+   * // throws, as size was never filled in
+   * ```
+   */
+  // Must be async to satisfy the ExpandingFile API
+  // eslint-disable-next-line @typescript-eslint/require-await
+  public async close (): Promise<void> {
+    this.assertPlaceholdersFilled()
   }
 
   /**
@@ -79,21 +356,47 @@ export class ExpandingBuffer implements ExpandingResource {
   // Must be async to satisfy the ExpandingResource interface
   // eslint-disable-next-line @typescript-eslint/require-await
   public async write (input: Buffer | number[] | number | string): Promise<number> {
-    let inBuffer = null
-    if (Buffer.isBuffer(input)) {
-      inBuffer = input
-    } else if (Array.isArray(input)) {
-      // possible typescript bug - typescript can't seem to handle the overloading
-      //   when we combine the Array check and string check.
-      inBuffer = Buffer.from(input)
-    } else if (typeof input === 'string') {
-      inBuffer = Buffer.from(input)
+    const inBuffer = this.toBuffer(input)
+
+    if (this.chunkSize === undefined) {
+      this.ensureCapacity(this.position + inBuffer.length)
+      inBuffer.copy(this.store, this.position)
     } else {
-      inBuffer = Buffer.from([input])
+      this.copyIntoChunks(inBuffer, this.position)
     }
+    this.notify(inBuffer)
+
+    return (this.position += inBuffer.length)
+  }
 
-    this.buf = Buffer.concat([this.buf, inBuffer], this.buf.length + inBuffer.length)
+  /**
+   * Overwrites previously written bytes within the expanding "buffer", leaving the position untouched.
+   *
+   * @param  offset - Where in the buffer to write, in bytes.
+   * @param  input - What to write to the buffer?
+   * @return {Promise<void>}
+   *
+   * @throws {RangeError} - Throws when the write would extend beyond what has been written so far.
+   *
+   * @example
+   * ```
+   * const sbuf = new ExpandingBuffer()
+   * await sbuf.write('test')
+   * await sbuf.writeAt(1, 'E')
+   *
+   * // sbuf.buf, when dumped, will be a buffer containing "tEst"
+   * ```
+   */
+  // Must be async to satisfy the ExpandingResource interface
+  // eslint-disable-next-line @typescript-eslint/require-await
+  public async writeAt (offset: number, input: Buffer | number[] | number | string): Promise<void> {
+    const inBuffer = this.toBuffer(input)
+    this.assertWriteAt(offset, inBuffer.length)
 
-    return (this.position = this.buf.length)
+    if (this.chunkSize === undefined) {
+      inBuffer.copy(this.store, offset)
+    } else {
+      this.copyIntoChunks(inBuffer, offset)
+    }
   }
 }
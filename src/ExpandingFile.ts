@@ -9,9 +9,27 @@
 import * as fs from 'fs'
 import { FileHandle } from 'fs/promises'
 
+import { AbstractExpandingResource } from './AbstractExpandingResource'
 import { ExpandingResource } from './ExpandingResource'
+import { Endianness } from './NumericTypes'
 
-export class ExpandingFile implements ExpandingResource {
+/**
+ * Options accepted when constructing an ExpandingFile.
+ */
+export interface ExpandingFileOptions {
+  /**
+   * Default byte order for the typed write methods; defaults to "LE".
+   */
+  endianness?: Endianness
+
+  /**
+   * How many bytes of writes to hold in memory before flushing them to the file in one go; defaults to 0 (unbuffered).
+   *   Buffered writes are flushed automatically on close.
+   */
+  writeBuffer?: number
+}
+
+export class ExpandingFile extends AbstractExpandingResource implements ExpandingResource {
   // TODO: Provide .reset() method, probably using fs.truncate() or something.
 
   /**
@@ -33,26 +51,64 @@ export class ExpandingFile implements ExpandingResource {
    */
   public position: number
 
+  /**
+   * The flush threshold for write-behind buffering, in bytes; 0 when unbuffered.
+   *
+   * @private
+   */
+  public writeBuffer: number
+
+  /**
+   * Writes held in memory, waiting to be flushed to the file - they end at ExpandingFile.position.
+   *
+   * @private
+   */
+  public pending: Buffer[]
+
+  /**
+   * How many bytes are held in ExpandingFile.pending.
+   *
+   * @private
+   */
+  public pendingLength: number
+
   /**
    * ExpandingFile is a class designed to wrap around node.js file to allow for more fluid writing capabilities,
    *   making it possible to just write to your files and not care about their lengths, inputs, or stream events.
    *   Create an ExpandingFile and just call write as much as you need.
    *
    * @param  {string} path - Path to the file that we're going to be writing to.
+   * @param  options - (optional) Options for the file, such as the default endianness for typed writes.
    * @return {ExpandingFile}
    *
+   * @throws {Error} - Throws when the writeBuffer option isn't a non-negative integer.
+   *
    * @example
    * ```
    * import { ExpandingFile } from 'byteaccordion'
    * sbuf = new ExpandingFile('/path/to/file.txt')
    *
    * await sbuf.write('test')
+   *
+   * // emitting many small fields is far faster when writes are buffered
+   * const buffered = new ExpandingFile('/path/to/file.bin', { writeBuffer: 64 * 1024 })
    * ```
    */
-  constructor (path: string) {
+  constructor (path: string, options: ExpandingFileOptions = {}) {
+    super()
+    const writeBuffer = options.writeBuffer ?? 0
+    if (!Number.isInteger(writeBuffer) || writeBuffer < 0) {
+      throw new Error('writeBuffer option must be a positive integer.')
+    }
+
     this.path = path
     this.fh = undefined
-    this.position = 0
+    this.position = this.pendingLength = 0
+    this.pending = []
+    this.writeBuffer = writeBuffer
+    if (options.endianness !== undefined) {
+      this.endianness = options.endianness
+    }
   }
 
   /**
@@ -71,14 +127,19 @@ export class ExpandingFile implements ExpandingResource {
    */
   public async open (): Promise<void> {
     this.fh = await fs.promises.open(this.path, 'w', 0o755)
-    this.position = 0
+    this.position = this.pendingLength = 0
+    this.pending = []
+    this.placeholders = []
   }
 
   /**
-   * Closes the file, preventing future writing.
+   * Closes the file, preventing future writing.  Any buffered writes are flushed first.
+   *   The file is closed even if a reserved placeholder was left unfilled, but an error is thrown afterwards.
    *
    * @return {Promise<void>}
    *
+   * @throws {Error} - Throws when any placeholder reserved with ExpandingFile.reserve() was left unfilled.
+   *
    * @example
    * ```
    * const filepath = '/path/to/file.txt'
@@ -94,11 +155,18 @@ export class ExpandingFile implements ExpandingResource {
    */
   public async close (): Promise<void> {
     if (this.fh !== undefined) {
-      await this.fh.close()
+      const fh = this.fh
+      try {
+        await this.flush()
+      } finally {
+        this.fh = undefined
+        await fh.close()
+      }
     }
 
-    this.fh = undefined
-    this.position = 0
+    this.position = this.pendingLength = 0
+    this.pending = []
+    this.assertPlaceholdersFilled()
   }
 
   /**
@@ -122,22 +190,100 @@ export class ExpandingFile implements ExpandingResource {
       throw new Error('File does not yet appear to be opened.')
     }
 
-    let inBuffer = null
-    if (Buffer.isBuffer(input)) {
-      inBuffer = input
-    } else if (Array.isArray(input)) {
-      // possible typescript bug - typescript can't seem to handle the overloading
-      //   when we combine the Array check and string check.
-      inBuffer = Buffer.from(input)
-    } else if (typeof input === 'string') {
-      inBuffer = Buffer.from(input)
-    } else {
-      inBuffer = Buffer.from([input])
+    const inBuffer = this.toBuffer(input)
+    if (this.writeBuffer === 0) {
+      const { bytesWritten } = await this.fh.write(inBuffer, 0, inBuffer.length, this.position)
+      this.position += bytesWritten
+      this.notify(inBuffer)
+
+      return this.position
     }
 
-    const { bytesWritten } = await this.fh.write(inBuffer, 0, inBuffer.length, this.position)
-    this.position += bytesWritten
+    // writes too large to be worth holding on to go straight through, after whatever was already held
+    if (inBuffer.length >= this.writeBuffer) {
+      await this.flush()
+      const { bytesWritten } = await this.fh.write(inBuffer, 0, inBuffer.length, this.position)
+      this.position += bytesWritten
+      this.notify(inBuffer)
+
+      return this.position
+    }
+
+    // copied, as the caller is free to reuse their Buffer once we return
+    this.pending.push(Buffer.from(inBuffer))
+    this.pendingLength += inBuffer.length
+    this.position += inBuffer.length
+    this.notify(inBuffer)
+    if (this.pendingLength >= this.writeBuffer) {
+      await this.flush()
+    }
 
     return this.position
   }
+
+  /**
+   * Writes any buffered writes out to the file.  Does nothing when unbuffered, or when nothing is waiting to be written.
+   *
+   * @return {Promise<void>}
+   *
+   * @throws {Error} - Throws when the file hasn't yet been opened.
+   *
+   * @example
+   * ```
+   * const sbuf = new ExpandingFile('/path/to/file.txt', { writeBuffer: 4096 })
+   * await sbuf.open()
+   * await sbuf.write('test')
+   * // the file is still empty...
+   *
+   * await sbuf.flush()
+   * // ...and now contains "test"
+   * ```
+   */
+  public async flush (): Promise<void> {
+    if (this.pendingLength === 0) {
+      return
+    }
+
+    if (this.fh === undefined) {
+      throw new Error('File does not yet appear to be opened.')
+    }
+
+    const data = Buffer.concat(this.pending, this.pendingLength)
+    const offset = this.position - this.pendingLength
+    this.pending = []
+    this.pendingLength = 0
+
+    await this.fh.write(data, 0, data.length, offset)
+  }
+
+  /**
+   * Overwrites previously written bytes within the file, leaving the position untouched.  Any buffered writes are flushed first.
+   *
+   * @param  offset - Where in the file to write, in bytes.
+   * @param  input - What to write to the file?
+   * @return {Promise<void>}
+   *
+   * @throws {RangeError} - Throws when the write would extend beyond what has been written so far.
+   *
+   * @example
+   * ```
+   * const sbuf = new ExpandingFile('/path/to/file.txt')
+   * await sbuf.open()
+   * await sbuf.write('test')
+   * await sbuf.writeAt(1, 'E')
+   *
+   * // the file, when opened, will contain "tEst"
+   * ```
+   */
+  public async writeAt (offset: number, input: Buffer | number[] | number | string): Promise<void> {
+    if (this.fh === undefined) {
+      throw new Error('File does not yet appear to be opened.')
+    }
+
+    const inBuffer = this.toBuffer(input)
+    this.assertWriteAt(offset, inBuffer.length)
+
+    await this.flush()
+    await this.fh.write(inBuffer, 0, inBuffer.length, offset)
+  }
 }
@@ -6,12 +6,37 @@
 // @url <https://github.com/damianb/ByteAccordion>
 //
 
+import { Endianness, NumericType, NumericValue } from './NumericTypes'
+import { Placeholder } from './Placeholder'
+import { FixedStringOptions, LengthPrefixType, StringOptions } from './Strings'
+import { HashObserver } from './Hashes'
+
+/**
+ * Options for padding out to an alignment boundary within a resource.
+ */
+export interface FillOptions {
+  /**
+   * The byte value to pad with; defaults to 0.
+   */
+  fill?: number
+
+  /**
+   * The absolute offset boundaries are measured from, such as the start of an enclosing chunk; defaults to 0.
+   */
+  base?: number
+}
+
 export interface ExpandingResource {
   /**
    * How many bytes have we written to this resource?
    */
   position: number
 
+  /**
+   * The byte order used by the typed write methods when no per-call byte order is given.
+   */
+  endianness: Endianness
+
   /**
    * Write to the resource.
    *
@@ -19,4 +44,222 @@ export interface ExpandingResource {
    * @return {Promise<number>} - Returns the length of the current resource.
    */
   write (input: Buffer | number[] | number | string): Promise<number>
+
+  /**
+   * Overwrites previously written bytes at the given offset, leaving the position untouched.
+   *
+   * @param  offset - Where in the resource to write, in bytes.
+   * @param  input - What to write to the resource.
+   * @return {Promise<void>}
+   */
+  writeAt (offset: number, input: Buffer | number[] | number | string): Promise<void>
+
+  /**
+   * Reserves space at the current position to be filled in later, such as a size or offset field in a header.
+   *
+   * @param  size - How many bytes to reserve, or the numeric type whose size should be reserved.
+   * @return {Promise<Placeholder>} - Returns a handle to fill the reserved space in with.
+   */
+  reserve (size: number | NumericType): Promise<Placeholder>
+
+  /**
+   * Writes fill bytes up to the next multiple of the given number of bytes.
+   *
+   * @param  boundary - The alignment, in bytes.
+   * @param  options - (optional) The byte value to pad with, and the offset boundaries are measured from.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   */
+  align (boundary: number, options?: FillOptions): Promise<number>
+
+  /**
+   * Attaches a HashObserver, which will digest every byte written from here on - until it's detached.
+   *
+   * @param  observer - The HashObserver to attach.
+   * @return {T} - Returns the observer attached.
+   */
+  attach<T extends HashObserver> (observer: T): T
+
+  /**
+   * Detaches a previously attached HashObserver.
+   *
+   * @param  observer - The HashObserver to detach.
+   * @return {void}
+   */
+  detach (observer: HashObserver): void
+
+  /**
+   * Writes a single numeric value of the given type to the resource.
+   *
+   * @param  type - The numeric type to encode the value as.
+   * @param  value - The value to write; a bigint for 64-bit integer types, a number otherwise.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   */
+  writeNumeric<T extends NumericType> (type: T, value: NumericValue<T>): Promise<number>
+
+  /**
+   * Writes an unsigned 8-bit integer to the resource.
+   *
+   * @param  value - The value to write.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   */
+  writeUInt8 (value: number): Promise<number>
+
+  /**
+   * Writes a signed 8-bit integer to the resource.
+   *
+   * @param  value - The value to write.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   */
+  writeInt8 (value: number): Promise<number>
+
+  /**
+   * Writes an unsigned 16-bit integer to the resource.
+   *
+   * @param  value - The value to write.
+   * @param  endianness - (optional) Byte order to write with, overriding the resource's default endianness.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   */
+  writeUInt16 (value: number, endianness?: Endianness): Promise<number>
+
+  /**
+   * Writes a signed 16-bit integer to the resource.
+   *
+   * @param  value - The value to write.
+   * @param  endianness - (optional) Byte order to write with, overriding the resource's default endianness.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   */
+  writeInt16 (value: number, endianness?: Endianness): Promise<number>
+
+  /**
+   * Writes an unsigned 24-bit integer to the resource.
+   *
+   * @param  value - The value to write.
+   * @param  endianness - (optional) Byte order to write with, overriding the resource's default endianness.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   */
+  writeUInt24 (value: number, endianness?: Endianness): Promise<number>
+
+  /**
+   * Writes a signed 24-bit integer to the resource.
+   *
+   * @param  value - The value to write.
+   * @param  endianness - (optional) Byte order to write with, overriding the resource's default endianness.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   */
+  writeInt24 (value: number, endianness?: Endianness): Promise<number>
+
+  /**
+   * Writes an unsigned 32-bit integer to the resource.
+   *
+   * @param  value - The value to write.
+   * @param  endianness - (optional) Byte order to write with, overriding the resource's default endianness.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   */
+  writeUInt32 (value: number, endianness?: Endianness): Promise<number>
+
+  /**
+   * Writes a signed 32-bit integer to the resource.
+   *
+   * @param  value - The value to write.
+   * @param  endianness - (optional) Byte order to write with, overriding the resource's default endianness.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   */
+  writeInt32 (value: number, endianness?: Endianness): Promise<number>
+
+  /**
+   * Writes an unsigned 64-bit integer to the resource.
+   *
+   * @param  value - The value to write.
+   * @param  endianness - (optional) Byte order to write with, overriding the resource's default endianness.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   */
+  writeBigUInt64 (value: bigint, endianness?: Endianness): Promise<number>
+
+  /**
+   * Writes a signed 64-bit integer to the resource.
+   *
+   * @param  value - The value to write.
+   * @param  endianness - (optional) Byte order to write with, overriding the resource's default endianness.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   */
+  writeBigInt64 (value: bigint, endianness?: Endianness): Promise<number>
+
+  /**
+   * Writes a 32-bit float to the resource.
+   *
+   * @param  value - The value to write.
+   * @param  endianness - (optional) Byte order to write with, overriding the resource's default endianness.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   */
+  writeFloat (value: number, endianness?: Endianness): Promise<number>
+
+  /**
+   * Writes a 64-bit float to the resource.
+   *
+   * @param  value - The value to write.
+   * @param  endianness - (optional) Byte order to write with, overriding the resource's default endianness.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   */
+  writeDouble (value: number, endianness?: Endianness): Promise<number>
+
+  /**
+   * Writes an unsigned integer as unsigned LEB128.
+   *
+   * @param  value - The value to write.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   */
+  writeULEB128 (value: number): Promise<number>
+
+  /**
+   * Writes a signed integer as signed LEB128.
+   *
+   * @param  value - The value to write.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   */
+  writeSLEB128 (value: number): Promise<number>
+
+  /**
+   * Writes a signed integer zigzag-encoded as unsigned LEB128 (as used by protobuf's sint types).
+   *
+   * @param  value - The value to write.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   */
+  writeZigZag (value: number): Promise<number>
+
+  /**
+   * Writes an unsigned integer as a MIDI-style variable-length quantity.
+   *
+   * @param  value - The value to write.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   */
+  writeVLQ (value: number): Promise<number>
+
+  /**
+   * Writes a string followed by a NUL terminator.
+   *
+   * @param  value - The string to write.
+   * @param  options - (optional) Encoding and maximum length of the string.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   */
+  writeCString (value: string, options?: StringOptions): Promise<number>
+
+  /**
+   * Writes a string preceded by its length in bytes.
+   *
+   * @param  value - The string to write.
+   * @param  prefix - The integer type to hold the length of the string.
+   * @param  options - (optional) Encoding and maximum length of the string.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   */
+  writePrefixedString (value: string, prefix: LengthPrefixType, options?: StringOptions): Promise<number>
+
+  /**
+   * Writes a string into a fixed-width field, padding out whatever space is left.
+   *
+   * @param  value - The string to write.
+   * @param  length - The width of the field, in bytes.
+   * @param  options - (optional) Encoding and padding of the field.
+   * @return {Promise<number>} - Returns the length of the current resource.
+   */
+  writeFixedString (value: string, length: number, options?: FixedStringOptions): Promise<number>
 }
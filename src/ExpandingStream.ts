@@ -0,0 +1,216 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { Writable } from 'stream'
+
+import { AbstractExpandingResource } from './AbstractExpandingResource'
+import { ExpandingResource } from './ExpandingResource'
+import { Endianness } from './NumericTypes'
+import { Placeholder } from './Placeholder'
+
+/**
+ * Options accepted when constructing an ExpandingStream.
+ */
+export interface ExpandingStreamOptions {
+  /**
+   * Default byte order for the typed write methods; defaults to "LE".
+   */
+  endianness?: Endianness
+}
+
+/**
+ * Waits for a Writable to emit the given event, rejecting should it error or close first - as a destroyed stream never will.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+// this needs the stream events, so is written with a manually created promise rather than as an async function
+// eslint-disable-next-line @typescript-eslint/promise-function-async
+function settled (stream: Writable, event: 'drain' | 'finish'): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = (): void => {
+      stream.off(event, onEvent)
+      stream.off('error', onError)
+      stream.off('close', onClose)
+    }
+    const onEvent = (): void => {
+      cleanup()
+      resolve()
+    }
+    const onError = (err: Error): void => {
+      cleanup()
+      reject(err)
+    }
+    const onClose = (): void => {
+      cleanup()
+      reject(new Error(`Stream closed before it ${event === 'drain' ? 'drained' : 'finished'}.`))
+    }
+
+    stream.on(event, onEvent)
+    stream.on('error', onError)
+    stream.on('close', onClose)
+  })
+}
+
+export class ExpandingStream extends AbstractExpandingResource implements ExpandingResource {
+  /**
+   * The stream we're writing into.
+   *
+   * @private
+   */
+  public stream: Writable
+
+  /**
+   * How many bytes have been written into the stream so far.
+   */
+  public position: number
+
+  /**
+   * The error the stream failed with, if it has - emitted, or closing before it finished - to be thrown by the next write or close.
+   *
+   * @private
+   */
+  public failure?: Error
+
+  /**
+   * ExpandingStream is a class designed to allow for fluid writing into a node.js Writable stream - a socket, compressor or process pipe -
+   *   with each write waiting until the stream has accepted the data, so backpressure is honored without having to watch for drain events.
+   *   As what's been written is gone, positioned writes and placeholders are not supported.
+   *
+   * @param  stream - The Writable stream to write into.
+   * @param  options - (optional) Options for the stream, such as the default endianness for typed writes.
+   * @return {ExpandingStream}
+   *
+   * @example
+   * ```
+   * import { ExpandingStream } from 'byteaccordion'
+   * const gz = zlib.createGzip()
+   * gz.pipe(fs.createWriteStream('/path/to/file.gz'))
+   * const sstream = new ExpandingStream(gz)
+   *
+   * await sstream.write('test')
+   * await sstream.writeUInt32(1)
+   * await sstream.close()
+   * ```
+   */
+  constructor (stream: Writable, options: ExpandingStreamOptions = {}) {
+    super()
+    this.stream = stream
+    this.position = 0
+    if (options.endianness !== undefined) {
+      this.endianness = options.endianness
+    }
+
+    // listen for the stream failing for as long as we hold it, as an unhandled error event would take the process down with it
+    stream.on('error', (err: Error) => {
+      this.failure = this.failure ?? err
+    })
+    stream.on('close', () => {
+      if (!stream.writableFinished) {
+        this.failure = this.failure ?? new Error('Stream closed before it finished.')
+      }
+    })
+  }
+
+  /**
+   * Writes into the stream, resolving once the stream has accepted the data - immediately, or once it has drained.
+   *
+   * @param  input - What to write to the stream?
+   * @return {Promise<number>} - Returns how many bytes have been written to the stream so far.
+   *
+   * @throws {Error} - Throws when the stream has already been ended or destroyed, or has failed since the last write.
+   * @throws {Error} - Throws when the stream emits an error, or closes, while we wait for it to drain; nothing is counted as written then.
+   *
+   * @example
+   * ```
+   * const sstream = new ExpandingStream(socket)
+   * await sstream.write('test')
+   * await sstream.write('test2')
+   *
+   * // the socket will have been sent "testtest2"
+   * ```
+   */
+  public async write (input: Buffer | number[] | number | string): Promise<number> {
+    if (this.failure !== undefined) {
+      throw this.failure
+    }
+    if (this.stream.writableEnded || this.stream.destroyed) {
+      throw new Error('Stream is no longer writable.')
+    }
+
+    const inBuffer = this.toBuffer(input)
+    if (!this.stream.write(inBuffer)) {
+      if (this.stream.destroyed) {
+        throw new Error('Stream closed before it drained.')
+      }
+
+      await settled(this.stream, 'drain')
+    }
+
+    // only count the bytes once the stream has accepted them
+    this.position += inBuffer.length
+    this.notify(inBuffer)
+
+    return this.position
+  }
+
+  /**
+   * Positioned writes are not possible, as what's been written to the stream is already gone.
+   *
+   * @throws {Error} - Always throws.
+   */
+  // Must be async to satisfy the ExpandingResource interface
+  // eslint-disable-next-line @typescript-eslint/require-await
+  public async writeAt (): Promise<void> {
+    throw new Error('ExpandingStream does not support positioned writes.')
+  }
+
+  /**
+   * Placeholders can't be reserved, as they could never be filled in - what's been written to the stream is already gone.
+   *
+   * @throws {Error} - Always throws.
+   */
+  // Must be async to satisfy the ExpandingResource interface
+  // eslint-disable-next-line @typescript-eslint/require-await
+  public async reserve (): Promise<Placeholder> {
+    throw new Error('ExpandingStream does not support reserving placeholders.')
+  }
+
+  /**
+   * Ends the stream, waiting until everything written has been flushed out of it.
+   *
+   * @return {Promise<void>}
+   *
+   * @throws {Error} - Throws when the stream has failed since the last write, or emits an error, or closes, before it finishes.
+   *
+   * @example
+   * ```
+   * const sstream = new ExpandingStream(fs.createWriteStream('/path/to/file.txt'))
+   * await sstream.write('test')
+   * await sstream.close()
+   * // the file now contains "test"
+   * ```
+   */
+  public async close (): Promise<void> {
+    if (this.failure !== undefined) {
+      throw this.failure
+    }
+    if (!this.stream.writableEnded) {
+      this.stream.end()
+    }
+
+    if (!this.stream.writableFinished) {
+      if (this.stream.destroyed) {
+        throw new Error('Stream closed before it finished.')
+      }
+
+      await settled(this.stream, 'finish')
+    }
+  }
+}
@@ -0,0 +1,233 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import * as crypto from 'crypto'
+
+/**
+ * Anything that can be attached to a resource to digest the bytes passing through it.
+ */
+export interface HashObserver {
+  /**
+   * Digests another run of bytes.
+   *
+   * @param  chunk - The bytes to digest.
+   * @return {void}
+   */
+  update (chunk: Buffer): void
+
+  /**
+   * Returns the digest of every byte seen so far.  May be called any number of times.
+   *
+   * @return {Buffer}
+   */
+  digest (): Buffer
+}
+
+/**
+ * Cryptographic hash algorithms supported by CryptoHash.
+ */
+export type HashAlgorithm = 'md5' | 'sha1' | 'sha256'
+
+/**
+ * Lookup table for CRC-32, built on first use.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+let crcTable: Uint32Array | undefined
+
+/**
+ * Builds (or returns the already built) lookup table for CRC-32.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+function getCrcTable (): Uint32Array {
+  if (crcTable === undefined) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = (c & 1) !== 0 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c
+    }
+  }
+
+  return crcTable
+}
+
+/**
+ * Computes the CRC-32 (as used by ZIP, gzip and PNG) of a Buffer, optionally continuing on from a previous CRC-32.
+ *
+ * @param  buf - The bytes to checksum.
+ * @param  previous - (optional) The CRC-32 of the bytes preceding these; defaults to 0.
+ * @return {number} - Returns the CRC-32 as an unsigned 32-bit integer.
+ *
+ * @example
+ * ```
+ * crc32(Buffer.from('123456789')) // 0xCBF43926
+ * crc32(Buffer.from('6789'), crc32(Buffer.from('12345'))) // also 0xCBF43926
+ * ```
+ */
+export function crc32 (buf: Buffer, previous: number = 0): number {
+  const table = getCrcTable()
+  let crc = (previous ^ 0xFFFFFFFF) >>> 0
+  for (let i = 0; i < buf.length; i++) {
+    crc = table[(crc ^ buf[i]) & 0xFF] ^ (crc >>> 8)
+  }
+
+  return (crc ^ 0xFFFFFFFF) >>> 0
+}
+
+export class CRC32 implements HashObserver {
+  /**
+   * The CRC-32 of everything seen so far, as an unsigned 32-bit integer.
+   */
+  public value: number
+
+  /**
+   * CRC32 is a HashObserver computing the CRC-32 checksum used by ZIP, gzip and PNG.
+   *
+   * @return {CRC32}
+   *
+   * @example
+   * ```
+   * import { CRC32, ConsumableBuffer } from 'byteaccordion'
+   * const cbuf = new ConsumableBuffer(Buffer.from('123456789'))
+   * const crc = cbuf.attach(new CRC32())
+   *
+   * await cbuf.read(9)
+   * crc.value // 0xCBF43926
+   * ```
+   */
+  constructor () {
+    this.value = 0
+  }
+
+  public update (chunk: Buffer): void {
+    this.value = crc32(chunk, this.value)
+  }
+
+  /**
+   * Returns the CRC-32 as 4 big-endian bytes.
+   *
+   * @return {Buffer}
+   */
+  public digest (): Buffer {
+    const buf = Buffer.alloc(4)
+    buf.writeUInt32BE(this.value)
+
+    return buf
+  }
+}
+
+export class Adler32 implements HashObserver {
+  /**
+   * The running sum of all bytes, modulo 65521.
+   *
+   * @private
+   */
+  public a: number
+
+  /**
+   * The running sum of every value of Adler32.a, modulo 65521.
+   *
+   * @private
+   */
+  public b: number
+
+  /**
+   * Adler32 is a HashObserver computing the Adler-32 checksum used by zlib.
+   *
+   * @return {Adler32}
+   */
+  constructor () {
+    this.a = 1
+    this.b = 0
+  }
+
+  /**
+   * The Adler-32 of everything seen so far, as an unsigned 32-bit integer.
+   */
+  public get value (): number {
+    return ((this.b << 16) | this.a) >>> 0
+  }
+
+  public update (chunk: Buffer): void {
+    // the sums are only reduced every few thousand bytes, as they can't overflow a double before then
+    for (let i = 0; i < chunk.length; i += 4096) {
+      const end = Math.min(i + 4096, chunk.length)
+      for (let j = i; j < end; j++) {
+        this.a += chunk[j]
+        this.b += this.a
+      }
+      this.a %= 65521
+      this.b %= 65521
+    }
+  }
+
+  /**
+   * Returns the Adler-32 as 4 big-endian bytes.
+   *
+   * @return {Buffer}
+   */
+  public digest (): Buffer {
+    const buf = Buffer.alloc(4)
+    buf.writeUInt32BE(this.value)
+
+    return buf
+  }
+}
+
+export class CryptoHash implements HashObserver {
+  /**
+   * The underlying node.js Hash instance.
+   *
+   * @private
+   */
+  public hash: crypto.Hash
+
+  /**
+   * CryptoHash is a HashObserver computing a cryptographic digest with node.js's crypto module.
+   *
+   * @param  algorithm - The hash algorithm to use.
+   * @return {CryptoHash}
+   *
+   * @throws {TypeError} - Throws when the algorithm isn't supported.
+   *
+   * @example
+   * ```
+   * import { CryptoHash, ExpandingFile } from 'byteaccordion'
+   * const sfile = new ExpandingFile('/path/to/file.bin')
+   * await sfile.open()
+   * const sha = sfile.attach(new CryptoHash('sha256'))
+   *
+   * await sfile.write('test')
+   * sha.digest().toString('hex') // '9f86d081...'
+   * ```
+   */
+  constructor (algorithm: HashAlgorithm) {
+    if (!['md5', 'sha1', 'sha256'].includes(algorithm)) {
+      throw new TypeError(`Unsupported hash algorithm "${String(algorithm)}".`)
+    }
+
+    this.hash = crypto.createHash(algorithm)
+  }
+
+  public update (chunk: Buffer): void {
+    this.hash.update(chunk)
+  }
+
+  public digest (): Buffer {
+    // digesting a copy leaves the hash usable for further updates
+    return this.hash.copy().digest()
+  }
+}
@@ -0,0 +1,183 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+/**
+ * Byte order used when reading or writing multi-byte numeric values.
+ */
+export type Endianness = 'LE' | 'BE'
+
+/**
+ * Numeric types that are represented as a bigint rather than a number.
+ */
+export type BigNumericType = 'uint64le' | 'uint64be' | 'int64le' | 'int64be'
+
+/**
+ * Every numeric type that can be read from or written to a resource.
+ *   Multi-byte types carry their byte order as a suffix ("le" or "be").
+ */
+export type NumericType = 'uint8' | 'int8'
+| 'uint16le' | 'uint16be' | 'int16le' | 'int16be'
+| 'uint24le' | 'uint24be' | 'int24le' | 'int24be'
+| 'uint32le' | 'uint32be' | 'int32le' | 'int32be'
+| 'float32le' | 'float32be' | 'float64le' | 'float64be'
+| BigNumericType
+
+/**
+ * Numeric type names without a byte order, for values wider than a single byte.
+ */
+export type MultiByteNumericBase = 'uint16' | 'int16' | 'uint24' | 'int24' | 'uint32' | 'int32' | 'uint64' | 'int64' | 'float32' | 'float64'
+
+/**
+ * The JS type produced when decoding the given NumericType - bigint for 64-bit integers, number for everything else.
+ */
+export type NumericValue<T extends NumericType> = T extends BigNumericType ? bigint : number
+
+/**
+ * @private
+ * @hidden
+ * @ignore
+ */
+interface NumericCodec<T extends NumericType> {
+  size: number
+  read (buf: Buffer, offset: number): NumericValue<T>
+  write (buf: Buffer, value: NumericValue<T>, offset: number): void
+}
+
+/**
+ * Lookup table of how to decode and encode each numeric type.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+const codecs: { [T in NumericType]: NumericCodec<T> } = {
+  uint8: { size: 1, read: (buf, offset) => buf.readUInt8(offset), write: (buf, value, offset) => buf.writeUInt8(value, offset) },
+  int8: { size: 1, read: (buf, offset) => buf.readInt8(offset), write: (buf, value, offset) => buf.writeInt8(value, offset) },
+  uint16le: { size: 2, read: (buf, offset) => buf.readUInt16LE(offset), write: (buf, value, offset) => buf.writeUInt16LE(value, offset) },
+  uint16be: { size: 2, read: (buf, offset) => buf.readUInt16BE(offset), write: (buf, value, offset) => buf.writeUInt16BE(value, offset) },
+  int16le: { size: 2, read: (buf, offset) => buf.readInt16LE(offset), write: (buf, value, offset) => buf.writeInt16LE(value, offset) },
+  int16be: { size: 2, read: (buf, offset) => buf.readInt16BE(offset), write: (buf, value, offset) => buf.writeInt16BE(value, offset) },
+  uint24le: { size: 3, read: (buf, offset) => buf.readUIntLE(offset, 3), write: (buf, value, offset) => buf.writeUIntLE(value, offset, 3) },
+  uint24be: { size: 3, read: (buf, offset) => buf.readUIntBE(offset, 3), write: (buf, value, offset) => buf.writeUIntBE(value, offset, 3) },
+  int24le: { size: 3, read: (buf, offset) => buf.readIntLE(offset, 3), write: (buf, value, offset) => buf.writeIntLE(value, offset, 3) },
+  int24be: { size: 3, read: (buf, offset) => buf.readIntBE(offset, 3), write: (buf, value, offset) => buf.writeIntBE(value, offset, 3) },
+  uint32le: { size: 4, read: (buf, offset) => buf.readUInt32LE(offset), write: (buf, value, offset) => buf.writeUInt32LE(value, offset) },
+  uint32be: { size: 4, read: (buf, offset) => buf.readUInt32BE(offset), write: (buf, value, offset) => buf.writeUInt32BE(value, offset) },
+  int32le: { size: 4, read: (buf, offset) => buf.readInt32LE(offset), write: (buf, value, offset) => buf.writeInt32LE(value, offset) },
+  int32be: { size: 4, read: (buf, offset) => buf.readInt32BE(offset), write: (buf, value, offset) => buf.writeInt32BE(value, offset) },
+  float32le: { size: 4, read: (buf, offset) => buf.readFloatLE(offset), write: (buf, value, offset) => buf.writeFloatLE(value, offset) },
+  float32be: { size: 4, read: (buf, offset) => buf.readFloatBE(offset), write: (buf, value, offset) => buf.writeFloatBE(value, offset) },
+  float64le: { size: 8, read: (buf, offset) => buf.readDoubleLE(offset), write: (buf, value, offset) => buf.writeDoubleLE(value, offset) },
+  float64be: { size: 8, read: (buf, offset) => buf.readDoubleBE(offset), write: (buf, value, offset) => buf.writeDoubleBE(value, offset) },
+  uint64le: { size: 8, read: (buf, offset) => buf.readBigUInt64LE(offset), write: (buf, value, offset) => buf.writeBigUInt64LE(value, offset) },
+  uint64be: { size: 8, read: (buf, offset) => buf.readBigUInt64BE(offset), write: (buf, value, offset) => buf.writeBigUInt64BE(value, offset) },
+  int64le: { size: 8, read: (buf, offset) => buf.readBigInt64LE(offset), write: (buf, value, offset) => buf.writeBigInt64LE(value, offset) },
+  int64be: { size: 8, read: (buf, offset) => buf.readBigInt64BE(offset), write: (buf, value, offset) => buf.writeBigInt64BE(value, offset) }
+}
+
+/**
+ * Looks up the codec for a numeric type, refusing anything we don't know about.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+function getCodec<T extends NumericType> (type: T): NumericCodec<T> {
+  if (!isNumericType(type)) {
+    throw new TypeError(`Unknown numeric type "${String(type)}".`)
+  }
+
+  return codecs[type] as NumericCodec<T>
+}
+
+/**
+ * Checks whether the given value names a known NumericType.
+ *
+ * @param  type - The value to check.
+ * @return {boolean}
+ */
+export function isNumericType (type: unknown): type is NumericType {
+  return typeof type === 'string' && Object.prototype.hasOwnProperty.call(codecs, type) === true
+}
+
+/**
+ * Gets the number of bytes a numeric type occupies.
+ *
+ * @param  type - The numeric type to measure.
+ * @return {number} - The size of the type, in bytes.
+ *
+ * @throws {TypeError} - Throws when the numeric type is unknown.
+ */
+export function numericSize (type: NumericType): number {
+  return getCodec(type).size
+}
+
+/**
+ * Decodes a numeric value out of a Buffer.
+ *
+ * @param  type - The numeric type to decode.
+ * @param  buf - The Buffer to decode from.
+ * @param  offset - (optional) Where in the Buffer the value starts.
+ * @return {NumericValue<T>} - The decoded value.
+ *
+ * @throws {TypeError} - Throws when the numeric type is unknown.
+ * @throws {RangeError} - Throws when the Buffer is too short to contain the value.
+ */
+export function decodeNumeric<T extends NumericType> (type: T, buf: Buffer, offset: number = 0): NumericValue<T> {
+  return getCodec(type).read(buf, offset)
+}
+
+/**
+ * Encodes a numeric value into a new Buffer.
+ *
+ * @param  type - The numeric type to encode as.
+ * @param  value - The value to encode.
+ * @return {Buffer} - A Buffer exactly as long as the numeric type, containing the encoded value.
+ *
+ * @throws {TypeError} - Throws when the numeric type is unknown.
+ * @throws {RangeError} - Throws when the value does not fit within the numeric type.
+ */
+export function encodeNumeric<T extends NumericType> (type: T, value: NumericValue<T>): Buffer {
+  const codec = getCodec(type)
+  const buf = Buffer.alloc(codec.size)
+  codec.write(buf, value, 0)
+
+  return buf
+}
+
+/**
+ * Builds the endian-specific NumericType for a base type name, e.g. ("uint16", "BE") becomes "uint16be".
+ *
+ * @param  base - The base type name, without byte order.
+ * @param  endianness - The byte order to use.
+ * @return {NumericType}
+ *
+ * @throws {TypeError} - Throws when the endianness is neither "LE" nor "BE".
+ */
+export function withEndianness (base: MultiByteNumericBase, endianness: Endianness): NumericType {
+  if (endianness !== 'LE' && endianness !== 'BE') {
+    throw new TypeError('Endianness must be either "LE" or "BE".')
+  }
+
+  return getCodecName(`${base}${endianness === 'LE' ? 'le' : 'be'}`)
+}
+
+/**
+ * Validates a generated numeric type name.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+function getCodecName (type: string): NumericType {
+  if (!isNumericType(type)) {
+    throw new TypeError(`Unknown numeric type "${type}".`)
+  }
+
+  return type
+}
@@ -0,0 +1,92 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { ExpandingResource } from './ExpandingResource'
+import { NumericType, NumericValue, encodeNumeric } from './NumericTypes'
+
+export class Placeholder {
+  /**
+   * The resource the placeholder was reserved within.
+   *
+   * @private
+   */
+  public resource: ExpandingResource
+
+  /**
+   * Where within the resource the placeholder starts, in bytes.
+   */
+  public offset: number
+
+  /**
+   * How many bytes were reserved.
+   */
+  public length: number
+
+  /**
+   * Whether the placeholder has been filled in yet.
+   */
+  public filled: boolean
+
+  /**
+   * Placeholder is a handle onto a run of bytes reserved within an ExpandingResource with ExpandingResource.reserve(),
+   *   to be filled in later once its contents are known - sizes, offsets and checksums within headers, for instance.
+   *   Not meant to be constructed directly.
+   *
+   * @param  resource - The resource the placeholder was reserved within.
+   * @param  offset - Where within the resource the placeholder starts.
+   * @param  length - How many bytes were reserved.
+   * @return {Placeholder}
+   *
+   * @example
+   * ```
+   * const sbuf = new ExpandingBuffer()
+   * const size = await sbuf.reserve('uint32le')
+   *
+   * await sbuf.write('body of unknown length')
+   * await size.fillNumeric('uint32le', sbuf.position - 4)
+   * ```
+   */
+  constructor (resource: ExpandingResource, offset: number, length: number) {
+    this.resource = resource
+    this.offset = offset
+    this.length = length
+    this.filled = false
+  }
+
+  /**
+   * Fills in the placeholder with raw bytes.  May be called more than once; the last fill wins.
+   *
+   * @param  input - The bytes to fill the placeholder with; must be exactly as long as the placeholder.
+   * @return {Promise<void>}
+   *
+   * @throws {RangeError} - Throws when the input isn't exactly as long as the placeholder.
+   */
+  public async fill (input: Buffer | number[]): Promise<void> {
+    const buf = Buffer.isBuffer(input) ? input : Buffer.from(input)
+    if (buf.length !== this.length) {
+      throw new RangeError(`Placeholder expects exactly ${this.length} bytes, received ${buf.length}.`)
+    }
+
+    await this.resource.writeAt(this.offset, buf)
+    this.filled = true
+  }
+
+  /**
+   * Fills in the placeholder with a numeric value.
+   *
+   * @param  type - The numeric type to encode the value as; must be exactly as wide as the placeholder.
+   * @param  value - The value to fill the placeholder with.
+   * @return {Promise<void>}
+   *
+   * @throws {RangeError} - Throws when the numeric type isn't exactly as wide as the placeholder.
+   * @throws {RangeError} - Throws when the value does not fit within the numeric type.
+   */
+  public async fillNumeric<T extends NumericType> (type: T, value: NumericValue<T>): Promise<void> {
+    return this.fill(encodeNumeric(type, value))
+  }
+}
@@ -0,0 +1,429 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { ConsumableResource } from './ConsumableResource'
+import { ExpandingResource } from './ExpandingResource'
+import { NumericType, NumericValue, isNumericType } from './NumericTypes'
+import { LengthPrefixType, StringEncoding, StringPadding } from './Strings'
+
+/**
+ * Anything that knows how to decode a value from a ConsumableResource and encode it back into an ExpandingResource.
+ */
+export interface SchemaType<T> {
+  /**
+   * Decodes a value from the resource, consuming exactly the bytes that make it up.
+   *
+   * @param  source - The resource to read from.
+   * @return {Promise<T>}
+   */
+  read (source: ConsumableResource): Promise<T>
+
+  /**
+   * Encodes a value into the resource.
+   *
+   * @param  dest - The resource to write to.
+   * @param  value - The value to encode.
+   * @return {Promise<void>}
+   */
+  write (dest: ExpandingResource, value: T): Promise<void>
+}
+
+/**
+ * A single field within a schema - either the name of a numeric type, or another SchemaType.
+ */
+export type FieldDefinition = NumericType | SchemaType<any>
+
+/**
+ * The JS type a field decodes to.
+ */
+export type FieldValue<F extends FieldDefinition> = F extends NumericType ? NumericValue<F> : F extends SchemaType<infer T> ? T : never
+
+/**
+ * Field definitions of a Struct, keyed by field name.
+ *   Fields are read and written in the order they were declared in.
+ */
+export interface StructDefinition {
+  [field: string]: FieldDefinition
+}
+
+/**
+ * The JS object type a Struct decodes to.
+ */
+export type StructValue<D extends StructDefinition> = { [K in keyof D]: FieldValue<D[K]> }
+
+/**
+ * The JS type any SchemaType decodes to - handy for deriving TypeScript types from a schema.
+ *
+ * @example
+ * ```
+ * const Header = new Struct({ magic: new FixedBytes(4), version: 'uint16le' })
+ * type Header = SchemaValue<typeof Header>
+ * // { magic: Buffer, version: number }
+ * ```
+ */
+export type SchemaValue<S extends SchemaType<any>> = S extends SchemaType<infer T> ? T : never
+
+/**
+ * Reads a single field, whatever kind of definition it is.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+async function readField<F extends FieldDefinition> (field: F, source: ConsumableResource): Promise<FieldValue<F>> {
+  if (isNumericType(field)) {
+    return source.readNumeric(field) as Promise<FieldValue<F>>
+  }
+
+  return (field as SchemaType<FieldValue<F>>).read(source)
+}
+
+/**
+ * Writes a single field, whatever kind of definition it is.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+async function writeField<F extends FieldDefinition> (field: F, dest: ExpandingResource, value: FieldValue<F>): Promise<void> {
+  if (isNumericType(field)) {
+    await dest.writeNumeric(field, value)
+    return
+  }
+
+  await (field as SchemaType<FieldValue<F>>).write(dest, value)
+}
+
+export class Struct<D extends StructDefinition> implements SchemaType<StructValue<D>> {
+  /**
+   * The field definitions making up this struct.
+   */
+  public definition: D
+
+  /**
+   * Struct is a declarative, typed record layout - define the fields once, then read or write whole objects with it.
+   *   Fields may be numeric type names or any other SchemaType, including other Structs.
+   *
+   * @param  definition - The fields of the struct, in the order they appear in the data.
+   * @return {Struct}
+   *
+   * @example
+   * ```
+   * import { Struct, FixedArray, PrefixedString, SchemaValue } from 'byteaccordion'
+   *
+   * const Point = new Struct({ x: 'int16le', y: 'int16le' })
+   * const Shape = new Struct({
+   *   name: new PrefixedString('uint8'),
+   *   points: new FixedArray(Point, 3),
+   *   color: 'uint32be'
+   * })
+   * type Shape = SchemaValue<typeof Shape>
+   *
+   * const shape: Shape = await Shape.read(cbuf)
+   * await Shape.write(sbuf, shape)
+   * ```
+   */
+  constructor (definition: D) {
+    this.definition = definition
+  }
+
+  /**
+   * Reads every field of the struct from the resource, in declaration order.
+   *
+   * @param  source - The resource to read from.
+   * @return {Promise<StructValue<D>>} - Returns the decoded object.
+   */
+  public async read (source: ConsumableResource): Promise<StructValue<D>> {
+    const res: Partial<StructValue<D>> = {}
+    for (const key of Object.keys(this.definition) as Array<keyof D>) {
+      res[key] = await readField(this.definition[key], source)
+    }
+
+    return res as StructValue<D>
+  }
+
+  /**
+   * Writes every field of the struct to the resource, in declaration order.
+   *
+   * @param  dest - The resource to write to.
+   * @param  value - The object to encode.
+   * @return {Promise<void>}
+   *
+   * @throws {TypeError} - Throws when the object is missing one of the struct's fields.
+   */
+  public async write (dest: ExpandingResource, value: StructValue<D>): Promise<void> {
+    for (const key of Object.keys(this.definition) as Array<keyof D>) {
+      if (value[key] === undefined) {
+        throw new TypeError(`Struct value is missing field "${String(key)}".`)
+      }
+
+      await writeField(this.definition[key], dest, value[key])
+    }
+  }
+}
+
+export class FixedArray<F extends FieldDefinition> implements SchemaType<Array<FieldValue<F>>> {
+  /**
+   * The definition of each element within the array.
+   */
+  public element: F
+
+  /**
+   * How many elements the array holds.
+   */
+  public length: number
+
+  /**
+   * FixedArray describes a run of a fixed number of identical elements.
+   *
+   * @param  element - The numeric type or SchemaType of each element.
+   * @param  length - The number of elements.
+   * @return {FixedArray}
+   *
+   * @throws {Error} - Throws when the length isn't a non-negative integer.
+   */
+  constructor (element: F, length: number) {
+    if (!Number.isInteger(length) || length < 0) {
+      throw new Error('Length parameter must be a positive integer.')
+    }
+
+    this.element = element
+    this.length = length
+  }
+
+  /**
+   * Reads every element of the array from the resource.
+   *
+   * @param  source - The resource to read from.
+   * @return {Promise<Array<FieldValue<F>>>}
+   */
+  public async read (source: ConsumableResource): Promise<Array<FieldValue<F>>> {
+    const res: Array<FieldValue<F>> = []
+    for (let i = 0; i < this.length; i++) {
+      res.push(await readField(this.element, source))
+    }
+
+    return res
+  }
+
+  /**
+   * Writes every element of the array to the resource.
+   *
+   * @param  dest - The resource to write to.
+   * @param  value - The elements to encode.
+   * @return {Promise<void>}
+   *
+   * @throws {RangeError} - Throws when the number of elements doesn't match the array's length.
+   */
+  public async write (dest: ExpandingResource, value: Array<FieldValue<F>>): Promise<void> {
+    if (value.length !== this.length) {
+      throw new RangeError(`FixedArray expects exactly ${this.length} elements, received ${value.length}.`)
+    }
+
+    for (const item of value) {
+      await writeField(this.element, dest, item)
+    }
+  }
+}
+
+export class FixedBytes implements SchemaType<Buffer> {
+  /**
+   * How many bytes make up the field.
+   */
+  public length: number
+
+  /**
+   * FixedBytes describes a raw run of bytes of a known length, such as a magic number or reserved area.
+   *
+   * @param  length - The number of bytes.
+   * @return {FixedBytes}
+   *
+   * @throws {Error} - Throws when the length isn't a non-negative integer.
+   */
+  constructor (length: number) {
+    if (!Number.isInteger(length) || length < 0) {
+      throw new Error('Length parameter must be a positive integer.')
+    }
+
+    this.length = length
+  }
+
+  /**
+   * Reads the bytes from the resource.
+   *
+   * @param  source - The resource to read from.
+   * @return {Promise<Buffer>}
+   */
+  public async read (source: ConsumableResource): Promise<Buffer> {
+    return source.read(this.length)
+  }
+
+  /**
+   * Writes the bytes to the resource.
+   *
+   * @param  dest - The resource to write to.
+   * @param  value - The bytes to write.
+   * @return {Promise<void>}
+   *
+   * @throws {RangeError} - Throws when the Buffer isn't exactly the field's length.
+   */
+  public async write (dest: ExpandingResource, value: Buffer): Promise<void> {
+    if (value.length !== this.length) {
+      throw new RangeError(`FixedBytes expects exactly ${this.length} bytes, received ${value.length}.`)
+    }
+
+    await dest.write(value)
+  }
+}
+
+export class PrefixedString implements SchemaType<string> {
+  /**
+   * The integer type of the length prefix.
+   */
+  public prefix: LengthPrefixType
+
+  /**
+   * The encoding of the string's bytes.
+   */
+  public encoding: StringEncoding
+
+  /**
+   * PrefixedString describes a string preceded by its length in bytes.
+   *
+   * @param  prefix - The integer type holding the length of the string in bytes, or "uleb128" for a varint length.
+   * @param  encoding - (optional) The encoding of the string; defaults to utf8.
+   * @return {PrefixedString}
+   */
+  constructor (prefix: LengthPrefixType, encoding: StringEncoding = 'utf8') {
+    this.prefix = prefix
+    this.encoding = encoding
+  }
+
+  /**
+   * Reads the length prefix and then the string itself from the resource.
+   *
+   * @param  source - The resource to read from.
+   * @return {Promise<string>}
+   */
+  public async read (source: ConsumableResource): Promise<string> {
+    return source.readPrefixedString(this.prefix, { encoding: this.encoding })
+  }
+
+  /**
+   * Writes the length prefix followed by the encoded string to the resource.
+   *
+   * @param  dest - The resource to write to.
+   * @param  value - The string to write.
+   * @return {Promise<void>}
+   *
+   * @throws {RangeError} - Throws when the encoded string is too long for the length prefix.
+   */
+  public async write (dest: ExpandingResource, value: string): Promise<void> {
+    await dest.writePrefixedString(value, this.prefix, { encoding: this.encoding })
+  }
+}
+
+export class CString implements SchemaType<string> {
+  /**
+   * The encoding of the string's bytes.
+   */
+  public encoding: StringEncoding
+
+  /**
+   * CString describes a NUL-terminated string.
+   *
+   * @param  encoding - (optional) The encoding of the string; defaults to utf8.
+   * @return {CString}
+   */
+  constructor (encoding: StringEncoding = 'utf8') {
+    this.encoding = encoding
+  }
+
+  /**
+   * Reads the string and its terminator from the resource.
+   *
+   * @param  source - The resource to read from.
+   * @return {Promise<string>}
+   */
+  public async read (source: ConsumableResource): Promise<string> {
+    return source.readCString({ encoding: this.encoding })
+  }
+
+  /**
+   * Writes the string followed by its terminator to the resource.
+   *
+   * @param  dest - The resource to write to.
+   * @param  value - The string to write.
+   * @return {Promise<void>}
+   *
+   * @throws {Error} - Throws when the string itself contains a NUL character.
+   */
+  public async write (dest: ExpandingResource, value: string): Promise<void> {
+    await dest.writeCString(value, { encoding: this.encoding })
+  }
+}
+
+export class FixedString implements SchemaType<string> {
+  /**
+   * The width of the field, in bytes.
+   */
+  public length: number
+
+  /**
+   * The encoding of the string's bytes.
+   */
+  public encoding: StringEncoding
+
+  /**
+   * What the field is padded out with.
+   */
+  public padding: StringPadding
+
+  /**
+   * FixedString describes a string stored in a fixed-width field, padded out with NUL bytes or spaces.
+   *
+   * @param  length - The width of the field, in bytes.
+   * @param  encoding - (optional) The encoding of the string; defaults to utf8.
+   * @param  padding - (optional) What the field is padded out with; defaults to "nul".
+   * @return {FixedString}
+   *
+   * @throws {Error} - Throws when the length isn't a non-negative integer.
+   */
+  constructor (length: number, encoding: StringEncoding = 'utf8', padding: StringPadding = 'nul') {
+    if (!Number.isInteger(length) || length < 0) {
+      throw new Error('Length parameter must be a positive integer.')
+    }
+
+    this.length = length
+    this.encoding = encoding
+    this.padding = padding
+  }
+
+  /**
+   * Reads the field from the resource, stripping its padding.
+   *
+   * @param  source - The resource to read from.
+   * @return {Promise<string>}
+   */
+  public async read (source: ConsumableResource): Promise<string> {
+    return source.readFixedString(this.length, { encoding: this.encoding, padding: this.padding })
+  }
+
+  /**
+   * Writes the string to the resource, padded out to the width of the field.
+   *
+   * @param  dest - The resource to write to.
+   * @param  value - The string to write.
+   * @return {Promise<void>}
+   *
+   * @throws {RangeError} - Throws when the encoded string is wider than the field.
+   */
+  public async write (dest: ExpandingResource, value: string): Promise<void> {
+    await dest.writeFixedString(value, this.length, { encoding: this.encoding, padding: this.padding })
+  }
+}
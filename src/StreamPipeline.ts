@@ -9,6 +9,7 @@
 import * as fs from 'fs'
 import { FileHandle } from 'fs/promises'
 
+import { Codec, CompressionFormat, compressSync, createCompressor } from './Compression'
 import { ExpandingFile } from './ExpandingFile'
 
 /**
@@ -38,6 +39,26 @@ export interface PumpResult {
    * How much did we just write to the file?
    */
   wrote: number
+
+  /**
+   * How much did we read from the source?  Differs from PumpResult.wrote when compressing on the fly.
+   */
+  read: number
+}
+
+/**
+ * Options accepted by StreamPipeline.pump().
+ */
+export interface PumpOptions {
+  /**
+   * (optional) Compress the content on its way into the file, in the given format.
+   */
+  compress?: CompressionFormat
+
+  /**
+   * (optional) The compression level to use when compressing; defaults to zlib's default.
+   */
+  level?: number
 }
 
 export class StreamPipeline {
@@ -96,27 +117,66 @@ export class StreamPipeline {
     }
 
     this.sbuf = dest
+    this.replaceDestination(dest)
+  }
+
+  /**
+   * Replaces the destination with a new WriteStream onto the ExpandingFile's file descriptor, starting wherever the ExpandingFile currently ends.
+   *   The previous WriteStream is ended; the file descriptor itself belongs to the ExpandingFile, and is left open.
+   *
+   * @private
+   * @param  dest - The ExpandingFile to write into.
+   * @return {void}
+   */
+  protected replaceDestination (dest: ExpandingFile): void {
+    if (dest.fh === undefined) {
+      throw new Error('StreamPipeline.load expects an already-opened ExpandingFile instance.')
+    }
+
     const streamOpts: StreamOptions = {
       fd: dest.fh.fd,
       flags: 'w',
       mode: 0o755,
-      autoClose: false
+      autoClose: false,
+      start: dest.position
     }
 
+    this.destination?.end()
     this.destination = fs.createWriteStream('', streamOpts)
   }
 
   /**
    * Pumps the given "source" contents into the destination specified in StreamPipeline.load().
+   *   Writes made directly to the ExpandingFile in between pumps are respected - any buffered writes are flushed first,
+   *   and the content lands at the ExpandingFile's current position.
    *
    * @param  source - The source Buffer, file descriptor (integer), or filepath (string) to read from.
    * @param  start - (optional) Start point for reading, passed to fs.createReadStream to identify a section to read from.
    * @param  length - (optional) Identifies how many bytes to read and pump into the destination.
+   * @param  options - (optional) Options for the pump, such as a compression format to compress the content with on the fly.
    * @return {Promise<PumpResult>} - Returns an object containing the offset and length of what was just written to the destination.
+   *
+   * @example
+   * ```
+   * // store a deflated entry without going through a temporary file
+   * const { offset, wrote, read } = await sfile.pump('/path/to/entry.txt', undefined, undefined, { compress: 'deflateRaw' })
+   * ```
    */
-  public async pump (source: Buffer | FileHandle | string, start?: number, length?: number): Promise<PumpResult> {
+  public async pump (source: Buffer | FileHandle | string, start?: number, length?: number, options: PumpOptions = {}): Promise<PumpResult> {
+    if (this.sbuf !== undefined) {
+      await this.sbuf.flush()
+      this.replaceDestination(this.sbuf)
+    }
+
     let fh = null
     if (Buffer.isBuffer(source)) {
+      if (options.compress !== undefined) {
+        const res = await this._pump(compressSync(source, options.compress, options.level))
+        res.read = source.length
+
+        return res
+      }
+
       return this._pump(source)
     } else if ((typeof source) === 'string') {
       try {
@@ -149,8 +209,9 @@ export class StreamPipeline {
       }
     }
 
+    const compressor = options.compress !== undefined ? createCompressor(options.compress, options.level) : undefined
     const content = fs.createReadStream('', streamOpts)
-    const res = await this._pump(content)
+    const res = await this._pump(content, compressor)
     if (typeof source === 'string') {
       await fh.close()
     }
@@ -165,11 +226,12 @@ export class StreamPipeline {
    *
    * @private
    * @param  content - The content to pipe into the destination stream.
+   * @param  compressor - (optional) A compressor to pass the content through on its way into the destination stream.
    * @return {Promise<PumpResult>} - Returns an object containing the offset and length of what was just written to the destination.
    */
   // NO, TYPESCRIPT-ESLINT. THIS CANNOT BE WRITTEN AS AN ASYNC FUNCTION YOU STUPID OPINIONATED FUCKS.
   // eslint-disable-next-line @typescript-eslint/promise-function-async
-  public _pump (content: fs.ReadStream | Buffer): Promise<PumpResult> {
+  public _pump (content: fs.ReadStream | Buffer, compressor?: Codec): Promise<PumpResult> {
     return new Promise((resolve, reject) => {
       if (Buffer.isBuffer(content)) {
         if (this.sbuf === undefined || this.destination === undefined) {
@@ -183,8 +245,9 @@ export class StreamPipeline {
 
           const oldPosition = this.sbuf.position
           this.sbuf.position += content.length
+          this.sbuf.notify(content)
 
-          const res: PumpResult = { offset: oldPosition, wrote: content.length }
+          const res: PumpResult = { offset: oldPosition, wrote: content.length, read: content.length }
           return resolve(res)
         })
       } else {
@@ -193,20 +256,29 @@ export class StreamPipeline {
           return
         }
 
-        content.on('end', () => {
+        const destination = this.destination
+        const output = compressor === undefined ? content : content.pipe(compressor)
+        let wrote = 0
+        output.on('end', () => {
           if (this.sbuf === undefined) {
             return
           }
 
-          content.unpipe(this.destination)
+          output.unpipe(destination)
           const oldPosition = this.sbuf.position
-          this.sbuf.position += content.bytesRead
+          this.sbuf.position += wrote
 
-          const res: PumpResult = { offset: oldPosition, wrote: content.bytesRead }
-          return resolve(res)
+          // everything has been handed to the destination by now, but may still be waiting to be written out
+          const res: PumpResult = { offset: oldPosition, wrote, read: content.bytesRead }
+          destination.write(Buffer.alloc(0), () => resolve(res))
+        })
+        output.on('data', (chunk: Buffer) => {
+          wrote += chunk.length
+          this.sbuf?.notify(chunk)
         })
         content.on('error', (err: any) => reject(err))
-        content.pipe(this.destination, { end: false })
+        compressor?.on('error', (err: any) => reject(err))
+        output.pipe(destination, { end: false })
       }
     })
   }
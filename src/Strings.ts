@@ -0,0 +1,268 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { ConsumableResource } from './ConsumableResource'
+import { INITIAL_SEARCH_WINDOW, peekUpTo } from './Delimiters'
+import { ExpandingResource } from './ExpandingResource'
+
+/**
+ * Text encodings supported by the string helpers.
+ */
+export type StringEncoding = 'utf8' | 'utf16le' | 'latin1' | 'ascii'
+
+/**
+ * Integer types usable as a length prefix.
+ */
+export type LengthPrefixType = 'uint8' | 'uint16le' | 'uint16be' | 'uint24le' | 'uint24be' | 'uint32le' | 'uint32be' | 'uleb128'
+
+/**
+ * What a fixed-width string field is padded out with - NUL bytes or spaces.
+ */
+export type StringPadding = 'nul' | 'space'
+
+/**
+ * Options for reading or writing NUL-terminated and length-prefixed strings.
+ */
+export interface StringOptions {
+  /**
+   * The encoding of the string; defaults to utf8.
+   */
+  encoding?: StringEncoding
+
+  /**
+   * The longest string we're willing to handle, in bytes (not counting any terminator or prefix).
+   */
+  maxLength?: number
+}
+
+/**
+ * Options for reading or writing fixed-width strings.
+ */
+export interface FixedStringOptions {
+  /**
+   * The encoding of the string; defaults to utf8.
+   */
+  encoding?: StringEncoding
+
+  /**
+   * What the field is padded out with; defaults to "nul".
+   */
+  padding?: StringPadding
+}
+
+/**
+ * @private
+ * @hidden
+ * @ignore
+ */
+const encodings: StringEncoding[] = ['utf8', 'utf16le', 'latin1', 'ascii']
+
+/**
+ * Validates the encoding option, returning the encoding to use.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+function getEncoding (encoding: StringEncoding = 'utf8'): StringEncoding {
+  if (!encodings.includes(encoding)) {
+    throw new TypeError(`Unsupported string encoding "${String(encoding)}".`)
+  }
+
+  return encoding
+}
+
+/**
+ * How many bytes make up a single code unit (and so a terminator) in the given encoding.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+function unitSize (encoding: StringEncoding): number {
+  return encoding === 'utf16le' ? 2 : 1
+}
+
+/**
+ * Finds the first NUL code unit within a buffer, respecting code unit alignment.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+function findTerminator (buf: Buffer, unit: number): number {
+  for (let i = 0; i + unit <= buf.length; i += unit) {
+    if (buf[i] === 0 && (unit === 1 || buf[i + 1] === 0)) {
+      return i
+    }
+  }
+
+  return -1
+}
+
+/**
+ * Checks an encoded string against the maxLength option.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+function assertMaxLength (length: number, maxLength?: number): void {
+  if (maxLength !== undefined && length > maxLength) {
+    throw new RangeError(`String exceeds the maximum length of ${maxLength} bytes.`)
+  }
+}
+
+/**
+ * Reads a NUL-terminated string from a resource, consuming the terminator as well.
+ *   Searches through a growing window of peeked bytes, so nothing is consumed unless the terminator is found.
+ *
+ * @param  source - The resource to read from.
+ * @param  options - (optional) Encoding and maximum length of the string.
+ * @return {Promise<string>}
+ *
+ * @throws {RangeError} - Throws when no terminator is found within maxLength bytes.
+ * @throws {RangeError} - Throws when the resource runs out before the terminator.
+ */
+export async function readCString (source: ConsumableResource, options: StringOptions = {}): Promise<string> {
+  const encoding = getEncoding(options.encoding)
+  const unit = unitSize(encoding)
+  const maxLength = options.maxLength ?? Infinity
+  let size = INITIAL_SEARCH_WINDOW
+  while (true) {
+    const limit = Math.min(maxLength + unit, source.remaining())
+    const want = Math.min(size, limit)
+    const window = await peekUpTo(source, want)
+
+    const end = findTerminator(window, unit)
+    if (end !== -1) {
+      return (await source.read(end + unit)).toString(encoding, 0, end)
+    }
+
+    // out of bytes to search - whether from the limit, or the resource running out
+    if (window.length < want || want >= limit) {
+      assertMaxLength(window.length, options.maxLength)
+      throw new RangeError('String terminator not found before the end of the resource.')
+    }
+
+    size *= 2
+  }
+}
+
+/**
+ * Reads a string preceded by its length in bytes from a resource.
+ *
+ * @param  source - The resource to read from.
+ * @param  prefix - The integer type holding the length of the string.
+ * @param  options - (optional) Encoding and maximum length of the string.
+ * @return {Promise<string>}
+ *
+ * @throws {RangeError} - Throws when the length prefix exceeds maxLength.
+ * @throws {RangeError} - Throws when the resource runs out before the end of the string.
+ */
+export async function readPrefixedString (source: ConsumableResource, prefix: LengthPrefixType, options: StringOptions = {}): Promise<string> {
+  const encoding = getEncoding(options.encoding)
+  const length = prefix === 'uleb128' ? await source.readULEB128() : await source.readNumeric(prefix)
+  assertMaxLength(length, options.maxLength)
+
+  return (await source.read(length)).toString(encoding)
+}
+
+/**
+ * Reads a fixed-width string field from a resource, stripping its padding.
+ *   NUL-padded fields end at the first NUL; space-padded fields have trailing spaces removed.
+ *
+ * @param  source - The resource to read from.
+ * @param  length - The width of the field, in bytes.
+ * @param  options - (optional) Encoding and padding of the field.
+ * @return {Promise<string>}
+ *
+ * @throws {RangeError} - Throws when the resource runs out before the end of the field.
+ */
+export async function readFixedString (source: ConsumableResource, length: number, options: FixedStringOptions = {}): Promise<string> {
+  const encoding = getEncoding(options.encoding)
+  const buf = await source.read(length)
+  if (options.padding === 'space') {
+    return buf.toString(encoding).replace(/ +$/, '')
+  }
+
+  const end = findTerminator(buf, unitSize(encoding))
+
+  return buf.slice(0, end === -1 ? buf.length : end).toString(encoding)
+}
+
+/**
+ * Writes a string followed by a NUL terminator to a resource.
+ *
+ * @param  dest - The resource to write to.
+ * @param  value - The string to write.
+ * @param  options - (optional) Encoding and maximum length of the string.
+ * @return {Promise<number>} - Returns the length of the current resource.
+ *
+ * @throws {Error} - Throws when the string itself contains a NUL character.
+ * @throws {RangeError} - Throws when the encoded string exceeds maxLength.
+ */
+export async function writeCString (dest: ExpandingResource, value: string, options: StringOptions = {}): Promise<number> {
+  const encoding = getEncoding(options.encoding)
+  if (value.includes('\0')) {
+    throw new Error('NUL-terminated strings cannot contain a NUL character.')
+  }
+
+  const buf = Buffer.from(value, encoding)
+  assertMaxLength(buf.length, options.maxLength)
+
+  return dest.write(Buffer.concat([buf, Buffer.alloc(unitSize(encoding))]))
+}
+
+/**
+ * Writes a string preceded by its length in bytes to a resource.
+ *
+ * @param  dest - The resource to write to.
+ * @param  value - The string to write.
+ * @param  prefix - The integer type to hold the length of the string.
+ * @param  options - (optional) Encoding and maximum length of the string.
+ * @return {Promise<number>} - Returns the length of the current resource.
+ *
+ * @throws {RangeError} - Throws when the encoded string exceeds maxLength, or is too long for the length prefix.
+ */
+export async function writePrefixedString (dest: ExpandingResource, value: string, prefix: LengthPrefixType, options: StringOptions = {}): Promise<number> {
+  const buf = Buffer.from(value, getEncoding(options.encoding))
+  assertMaxLength(buf.length, options.maxLength)
+
+  if (prefix === 'uleb128') {
+    await dest.writeULEB128(buf.length)
+  } else {
+    await dest.writeNumeric(prefix, buf.length)
+  }
+
+  return dest.write(buf)
+}
+
+/**
+ * Writes a string into a fixed-width field, padding out whatever space is left.
+ *
+ * @param  dest - The resource to write to.
+ * @param  value - The string to write.
+ * @param  length - The width of the field, in bytes.
+ * @param  options - (optional) Encoding and padding of the field.
+ * @return {Promise<number>} - Returns the length of the current resource.
+ *
+ * @throws {RangeError} - Throws when the encoded string is wider than the field.
+ */
+export async function writeFixedString (dest: ExpandingResource, value: string, length: number, options: FixedStringOptions = {}): Promise<number> {
+  const encoding = getEncoding(options.encoding)
+  const buf = Buffer.from(value, encoding)
+  if (buf.length > length) {
+    throw new RangeError(`String of ${buf.length} bytes does not fit within a ${length} byte field.`)
+  }
+
+  const field = Buffer.alloc(length, options.padding === 'space' ? Buffer.from(' ', encoding) : 0)
+  buf.copy(field)
+
+  return dest.write(field)
+}
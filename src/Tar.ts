@@ -0,0 +1,358 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+/**
+ * The size of a tar block - every header takes one, and entry data is padded out to a multiple of it.
+ */
+export const TAR_BLOCK_SIZE = 512
+
+/**
+ * The kinds of entries a tar archive can hold.
+ */
+export type TarEntryType = 'file' | 'link' | 'symlink' | 'characterDevice' | 'blockDevice' | 'directory' | 'fifo' | 'unknown'
+
+/**
+ * The metadata held by a tar header.
+ */
+export interface TarHeader {
+  /**
+   * The path of the entry within the archive.
+   */
+  name: string
+
+  /**
+   * What kind of entry this is.
+   */
+  type: TarEntryType
+
+  /**
+   * Permission bits of the entry.
+   */
+  mode: number
+
+  /**
+   * Owner user id.
+   */
+  uid: number
+
+  /**
+   * Owner group id.
+   */
+  gid: number
+
+  /**
+   * Size of the entry's data, in bytes.
+   */
+  size: number
+
+  /**
+   * Last modification time.
+   */
+  mtime: Date
+
+  /**
+   * Target of a link or symlink entry; empty otherwise.
+   */
+  linkname: string
+
+  /**
+   * Owner user name.
+   */
+  uname: string
+
+  /**
+   * Owner group name.
+   */
+  gname: string
+}
+
+/**
+ * Mapping of typeflags to entry types.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+const TYPEFLAGS: { [typeflag: string]: TarEntryType } = {
+  0: 'file',
+  1: 'link',
+  2: 'symlink',
+  3: 'characterDevice',
+  4: 'blockDevice',
+  5: 'directory',
+  6: 'fifo',
+  7: 'file'
+}
+
+/**
+ * The widths of the numeric header fields, which hold octal digits followed by a NUL.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+const FIELD_LIMITS = {
+  uid: 0o7777777,
+  gid: 0o7777777,
+  size: 0o77777777777,
+  mtime: 0o77777777777
+}
+
+/**
+ * Rounds a size up to a whole number of tar blocks.
+ *
+ * @param  size - The size to round up, in bytes.
+ * @return {number}
+ */
+export function tarPadded (size: number): number {
+  return Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE
+}
+
+/**
+ * Splits a path into the ustar name and prefix fields, if it can be made to fit them.
+ *
+ * @private
+ * @param  path - The path to split.
+ * @return {[string, string] | undefined} - Returns the prefix and name, or undefined when the path can't fit.
+ */
+export function splitTarName (path: string): [string, string] | undefined {
+  if (Buffer.byteLength(path) <= 100) {
+    return ['', path]
+  }
+
+  // the prefix is joined back on with a slash, so we need to split at one - as far along as the prefix allows
+  for (let i = path.lastIndexOf('/'); i > 0; i = path.lastIndexOf('/', i - 1)) {
+    const prefix = path.slice(0, i)
+    const name = path.slice(i + 1)
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(name) <= 100 && name.length > 0) {
+      return [prefix, name]
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Works out which pax extended header records a header needs, for whatever can't be represented by the ustar fields.
+ *
+ * @private
+ * @param  header - The header to be written.
+ * @return {Record<string, string>} - Returns the pax records needed, if any.
+ */
+export function tarPaxRecords (header: TarHeader): Record<string, string> {
+  const records: Record<string, string> = {}
+  if (splitTarName(header.name) === undefined) {
+    records.path = header.name
+  }
+  if (Buffer.byteLength(header.linkname) > 100) {
+    records.linkpath = header.linkname
+  }
+  if (header.size > FIELD_LIMITS.size) {
+    records.size = String(header.size)
+  }
+  if (header.mtime.getTime() / 1000 > FIELD_LIMITS.mtime) {
+    records.mtime = String(header.mtime.getTime() / 1000)
+  }
+  if (header.uid > FIELD_LIMITS.uid) {
+    records.uid = String(header.uid)
+  }
+  if (header.gid > FIELD_LIMITS.gid) {
+    records.gid = String(header.gid)
+  }
+  if (Buffer.byteLength(header.uname) > 32) {
+    records.uname = header.uname
+  }
+  if (Buffer.byteLength(header.gname) > 32) {
+    records.gname = header.gname
+  }
+
+  return records
+}
+
+/**
+ * Encodes pax extended header records into the data of a pax header entry.
+ *
+ * @private
+ * @param  records - The records to encode.
+ * @return {Buffer}
+ */
+export function encodePaxRecords (records: Record<string, string>): Buffer {
+  return Buffer.concat(Object.entries(records).map(([key, value]) => {
+    // each record is prefixed with its own length in decimal, which counts the digits of that length too
+    const base = Buffer.byteLength(` ${key}=${value}\n`)
+    let length = base + String(base).length
+    if (String(length).length !== String(base).length) {
+      length = base + String(length).length
+    }
+
+    return Buffer.from(`${length} ${key}=${value}\n`)
+  }))
+}
+
+/**
+ * Decodes the data of a pax header entry into its records.
+ *
+ * @private
+ * @param  buf - The data of the pax header entry.
+ * @return {Record<string, string>}
+ *
+ * @throws {Error} - Throws when a record is malformed.
+ */
+export function decodePaxRecords (buf: Buffer): Record<string, string> {
+  const records: Record<string, string> = {}
+  let offset = 0
+  while (offset < buf.length && buf[offset] !== 0) {
+    const space = buf.indexOf(0x20, offset)
+    const length = space !== -1 ? parseInt(buf.toString('ascii', offset, space), 10) : NaN
+    if (Number.isNaN(length) || length <= space - offset || offset + length > buf.length || buf[offset + length - 1] !== 0x0A) {
+      throw new Error(`Malformed pax extended header record at offset ${offset}.`)
+    }
+
+    const record = buf.toString('utf8', space + 1, offset + length - 1)
+    const equals = record.indexOf('=')
+    if (equals === -1) {
+      throw new Error(`Malformed pax extended header record at offset ${offset}.`)
+    }
+    records[record.slice(0, equals)] = record.slice(equals + 1)
+    offset += length
+  }
+
+  return records
+}
+
+/**
+ * Writes a NUL-terminated octal number into a header field, or zeros when it doesn't fit (pax records carry it instead).
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+function writeOctal (block: Buffer, value: number, offset: number, length: number): void {
+  const digits = value.toString(8)
+  block.write((digits.length < length ? digits : '0').padStart(length - 1, '0'), offset, length - 1, 'ascii')
+}
+
+/**
+ * Reads a numeric header field - octal digits, or a big-endian base-256 number when the high bit is set (as GNU tar writes large values).
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+function readOctal (block: Buffer, offset: number, length: number): number {
+  if ((block[offset] & 0x80) !== 0) {
+    let value = block[offset] & 0x7F
+    for (let i = 1; i < length; i++) {
+      value = value * 256 + block[offset + i]
+    }
+
+    return value
+  }
+
+  const digits = readField(block, offset, length).trim()
+
+  return digits.length > 0 ? parseInt(digits, 8) : 0
+}
+
+/**
+ * Reads a NUL-terminated (or field-filling) string from a header field.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+function readField (block: Buffer, offset: number, length: number): string {
+  const end = block.indexOf(0, offset)
+
+  return block.toString('utf8', offset, end !== -1 && end < offset + length ? end : offset + length)
+}
+
+/**
+ * Sums the bytes of a header, counting the checksum field as spaces.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+function checksum (block: Buffer, signed: boolean): number {
+  let sum = 8 * 0x20
+  for (let i = 0; i < TAR_BLOCK_SIZE; i++) {
+    if (i < 148 || i >= 156) {
+      sum += signed && block[i] > 0x7F ? block[i] - 0x100 : block[i]
+    }
+  }
+
+  return sum
+}
+
+/**
+ * Encodes a ustar header block.  Anything the ustar fields can't hold should also be written into a pax extended header beforehand.
+ *
+ * @private
+ * @param  header - The header to encode.
+ * @param  typeflag - (optional) Overrides the typeflag, for pax extended headers.
+ * @return {Buffer}
+ */
+export function encodeTarHeader (header: TarHeader, typeflag?: string): Buffer {
+  const block = Buffer.alloc(TAR_BLOCK_SIZE)
+  const [prefix, name] = splitTarName(header.name) ?? ['', header.name.slice(-100)]
+
+  block.write(name, 0, 100, 'utf8')
+  writeOctal(block, header.mode, 100, 8)
+  writeOctal(block, header.uid, 108, 8)
+  writeOctal(block, header.gid, 116, 8)
+  writeOctal(block, header.size, 124, 12)
+  writeOctal(block, Math.max(0, Math.floor(header.mtime.getTime() / 1000)), 136, 12)
+  const flag = typeflag ?? Object.keys(TYPEFLAGS).find(key => TYPEFLAGS[key] === header.type) ?? '0'
+  block.write(flag, 156, 1, 'ascii')
+  block.write(header.linkname, 157, 100, 'utf8')
+  block.write('ustar\u000000', 257, 8, 'ascii')
+  block.write(header.uname, 265, 32, 'utf8')
+  block.write(header.gname, 297, 32, 'utf8')
+  block.write(prefix, 345, 155, 'utf8')
+
+  block.write(checksum(block, false).toString(8).padStart(6, '0') + '\u0000 ', 148, 8, 'ascii')
+
+  return block
+}
+
+/**
+ * Decodes a ustar (or older v7/GNU) header block, verifying its checksum.
+ *
+ * @private
+ * @param  block - The header block.
+ * @param  offset - Where the header lies within the archive, for error messages.
+ * @return {TarHeader & { typeflag: string }}
+ *
+ * @throws {Error} - Throws when the header checksum doesn't match.
+ */
+export function decodeTarHeader (block: Buffer, offset: number): TarHeader & { typeflag: string } {
+  const expected = readOctal(block, 148, 8)
+  if (expected !== checksum(block, false) && expected !== checksum(block, true)) {
+    throw new Error(`Tar header checksum mismatch at offset ${offset}.`)
+  }
+
+  const typeflag = block[156] === 0 ? '0' : String.fromCharCode(block[156])
+  // only POSIX ustar headers have a prefix field; GNU headers keep other things there
+  const prefix = block.toString('ascii', 257, 263) === 'ustar\u0000' ? readField(block, 345, 155) : ''
+  const name = readField(block, 0, 100)
+
+  return {
+    name: prefix.length > 0 ? `${prefix}/${name}` : name,
+    type: TYPEFLAGS[typeflag] ?? 'unknown',
+    typeflag,
+    mode: readOctal(block, 100, 8),
+    uid: readOctal(block, 108, 8),
+    gid: readOctal(block, 116, 8),
+    size: readOctal(block, 124, 12),
+    mtime: new Date(readOctal(block, 136, 12) * 1000),
+    linkname: readField(block, 157, 100),
+    uname: readField(block, 265, 32),
+    gname: readField(block, 297, 32)
+  }
+}
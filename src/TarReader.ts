@@ -0,0 +1,167 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { ConsumableResource } from './ConsumableResource'
+import { TAR_BLOCK_SIZE, TarHeader, decodePaxRecords, decodeTarHeader, tarPadded } from './Tar'
+
+/**
+ * An entry read from a tar archive.
+ */
+export interface TarEntry extends TarHeader {
+  /**
+   * The raw typeflag of the entry's header.
+   */
+  typeflag: string
+
+  /**
+   * Where the entry's header lies within the archive.
+   */
+  headerOffset: number
+
+  /**
+   * Where the entry's data lies within the archive.
+   */
+  offset: number
+
+  /**
+   * The pax extended header records that applied to this entry, global ones included.
+   */
+  pax: Record<string, string>
+
+  /**
+   * A bounded view onto the entry's data.
+   */
+  data: ConsumableResource
+}
+
+export class TarReader {
+  /**
+   * The resource holding the archive.
+   *
+   * @private
+   */
+  public source: ConsumableResource
+
+  /**
+   * TarReader is a class designed to list the entries of a tar archive - ustar, pax, or GNU with long names -
+   *   exposing each entry's data as a subview onto the archive rather than copying it out.
+   *   The archive must be held by a resource supporting subviews, such as a ConsumableFile or ConsumableBuffer.
+   *
+   * @param  source - The resource holding the archive, starting at offset 0.
+   * @return {TarReader}
+   *
+   * @example
+   * ```
+   * import { ConsumableFile, TarReader } from 'byteaccordion'
+   * const cfile = new ConsumableFile('/path/to/archive.tar')
+   * await cfile.open()
+   * const tar = new TarReader(cfile)
+   *
+   * for await (const entry of tar.entries()) {
+   *   if (entry.name === 'README.md') {
+   *     console.log((await entry.data.read(entry.size)).toString())
+   *   }
+   * }
+   * ```
+   */
+  constructor (source: ConsumableResource) {
+    this.source = source
+  }
+
+  /**
+   * Iterates over the entries of the archive, in order.  Pax extended headers and GNU long name entries
+   *   are applied to the entries they describe, rather than being yielded themselves.
+   *
+   * @return {AsyncGenerator<TarEntry>}
+   *
+   * @throws {Error} - Throws when a header checksum doesn't match, or a pax extended header is malformed.
+   * @throws {Error} - Throws when the archive ends partway through a header.
+   * @throws {RangeError} - Throws when the archive ends partway through an entry's data.
+   */
+  public async * entries (): AsyncGenerator<TarEntry> {
+    let offset = 0
+    let globalPax: Record<string, string> = {}
+    let pax: Record<string, string> = {}
+    let longName: string | undefined
+    let longLink: string | undefined
+
+    while (offset < this.source.length) {
+      if (this.source.length - offset < TAR_BLOCK_SIZE) {
+        throw new Error(`Truncated tar archive; expected a header at offset ${offset}.`)
+      }
+
+      await this.source.aseek(offset)
+      const block = await this.source.read(TAR_BLOCK_SIZE)
+      // the archive ends with blocks of zeros
+      if (block.every(byte => byte === 0)) {
+        return
+      }
+
+      const header = decodeTarHeader(block, offset)
+      const headerOffset = offset
+      const records = { ...globalPax, ...pax }
+      const isMeta = ['x', 'g', 'L', 'K'].includes(header.typeflag)
+      if (!isMeta && records.size !== undefined) {
+        header.size = parseInt(records.size, 10)
+      }
+      offset += TAR_BLOCK_SIZE + tarPadded(header.size)
+
+      if (isMeta) {
+        const meta = header.size > 0 ? await this.source.read(header.size) : Buffer.alloc(0)
+        if (header.typeflag === 'x') {
+          pax = { ...pax, ...decodePaxRecords(meta) }
+        } else if (header.typeflag === 'g') {
+          globalPax = { ...globalPax, ...decodePaxRecords(meta) }
+        } else {
+          const value = meta.toString('utf8').replace(/\0+$/, '')
+          if (header.typeflag === 'L') {
+            longName = value
+          } else {
+            longLink = value
+          }
+        }
+        continue
+      }
+
+      const entry: TarEntry = {
+        ...header,
+        name: records.path ?? longName ?? header.name,
+        linkname: records.linkpath ?? longLink ?? header.linkname,
+        uid: records.uid !== undefined ? parseInt(records.uid, 10) : header.uid,
+        gid: records.gid !== undefined ? parseInt(records.gid, 10) : header.gid,
+        uname: records.uname ?? header.uname,
+        gname: records.gname ?? header.gname,
+        mtime: records.mtime !== undefined ? new Date(parseFloat(records.mtime) * 1000) : header.mtime,
+        headerOffset,
+        offset: headerOffset + TAR_BLOCK_SIZE,
+        pax: records,
+        data: this.source.subview(headerOffset + TAR_BLOCK_SIZE, header.size)
+      }
+      pax = {}
+      longName = longLink = undefined
+
+      yield entry
+    }
+  }
+
+  /**
+   * Lists every entry of the archive.
+   *
+   * @return {Promise<TarEntry[]>}
+   *
+   * @throws {Error} - Throws when the archive is malformed, as with TarReader.entries().
+   */
+  public async list (): Promise<TarEntry[]> {
+    const entries: TarEntry[] = []
+    for await (const entry of this.entries()) {
+      entries.push(entry)
+    }
+
+    return entries
+  }
+}
@@ -0,0 +1,239 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import * as fs from 'fs'
+import { FileHandle } from 'fs/promises'
+import * as path from 'path'
+
+import { ExpandingFile } from './ExpandingFile'
+import { StreamPipeline } from './StreamPipeline'
+import { TAR_BLOCK_SIZE, TarHeader, encodePaxRecords, encodeTarHeader, tarPadded, tarPaxRecords } from './Tar'
+
+/**
+ * Metadata that may be given for an entry added to a tar archive.
+ */
+export interface TarEntryOptions {
+  /**
+   * Permission bits of the entry; defaults to those of the source file, or 0o644 for files and 0o755 for directories.
+   */
+  mode?: number
+
+  /**
+   * Owner user id; defaults to 0.
+   */
+  uid?: number
+
+  /**
+   * Owner group id; defaults to 0.
+   */
+  gid?: number
+
+  /**
+   * Last modification time; defaults to that of the source file, or the current time.
+   */
+  mtime?: Date
+
+  /**
+   * Owner user name; defaults to empty.
+   */
+  uname?: string
+
+  /**
+   * Owner group name; defaults to empty.
+   */
+  gname?: string
+}
+
+export class TarWriter {
+  /**
+   * The ExpandingFile the archive is written into.
+   *
+   * @private
+   */
+  public dest: ExpandingFile
+
+  /**
+   * The StreamPipeline pumping entry data into the archive.
+   *
+   * @private
+   */
+  public pipeline: StreamPipeline
+
+  /**
+   * TarWriter is a class designed to build ustar tar archives, falling back on pax extended headers for long names and large entries.
+   *   Entry data is pumped into the archive through a StreamPipeline, so large files are never held in memory.
+   *
+   * @param  dest - The already-opened ExpandingFile to write the archive into.
+   * @return {TarWriter}
+   *
+   * @example
+   * ```
+   * import { ExpandingFile, TarWriter } from 'byteaccordion'
+   * const sfile = new ExpandingFile('/path/to/archive.tar')
+   * await sfile.open()
+   * const tar = new TarWriter(sfile)
+   *
+   * await tar.addDirectory('docs')
+   * await tar.addFile('docs/README.md', '/path/to/README.md')
+   * await tar.addFile('docs/VERSION', Buffer.from('1.0.0'), { mode: 0o600 })
+   * await tar.finish()
+   * await sfile.close()
+   * ```
+   */
+  constructor (dest: ExpandingFile) {
+    this.dest = dest
+    this.pipeline = new StreamPipeline()
+  }
+
+  /**
+   * Adds a file entry, pumping its data from a Buffer, file descriptor, or filepath.
+   *   Metadata not given is taken from the source file where there is one.
+   *
+   * @param  name - The path of the entry within the archive.
+   * @param  source - The Buffer, file descriptor, or filepath to read the entry's data from.
+   * @param  options - (optional) Metadata for the entry.
+   * @return {Promise<void>}
+   *
+   * @throws {Error} - Throws when the destination ExpandingFile hasn't been opened.
+   * @throws {Error} - Throws when the source file changes size while being added.
+   */
+  public async addFile (name: string, source: Buffer | FileHandle | string, options: TarEntryOptions = {}): Promise<void> {
+    let stats: fs.Stats | undefined
+    if (typeof source === 'string') {
+      stats = await fs.promises.stat(source)
+    } else if (!Buffer.isBuffer(source)) {
+      stats = await source.stat()
+    }
+
+    const size = stats !== undefined ? stats.size : (source as Buffer).length
+    await this.writeHeader(this.createHeader(name, 'file', size, '', {
+      mode: stats !== undefined ? stats.mode & 0o7777 : 0o644,
+      mtime: stats?.mtime,
+      ...options
+    }))
+
+    if (size > 0) {
+      await this.ensureLoaded()
+      const res = Buffer.isBuffer(source) ? await this.pipeline.pump(source) : await this.pipeline.pump(source, 0, size)
+      if (res.wrote !== size) {
+        throw new Error(`Tar entry "${name}" changed size while being added; expected ${size} bytes, got ${res.wrote}.`)
+      }
+    }
+    await this.pad(size)
+  }
+
+  /**
+   * Adds a directory entry.
+   *
+   * @param  name - The path of the directory within the archive.
+   * @param  options - (optional) Metadata for the entry.
+   * @return {Promise<void>}
+   *
+   * @throws {Error} - Throws when the destination ExpandingFile hasn't been opened.
+   */
+  public async addDirectory (name: string, options: TarEntryOptions = {}): Promise<void> {
+    await this.writeHeader(this.createHeader(name.endsWith('/') ? name : `${name}/`, 'directory', 0, '', { mode: 0o755, ...options }))
+  }
+
+  /**
+   * Adds a symbolic link entry.
+   *
+   * @param  name - The path of the link within the archive.
+   * @param  target - What the link points to.
+   * @param  options - (optional) Metadata for the entry.
+   * @return {Promise<void>}
+   *
+   * @throws {Error} - Throws when the destination ExpandingFile hasn't been opened.
+   */
+  public async addSymlink (name: string, target: string, options: TarEntryOptions = {}): Promise<void> {
+    await this.writeHeader(this.createHeader(name, 'symlink', 0, target, { mode: 0o777, ...options }))
+  }
+
+  /**
+   * Ends the archive with its two blocks of zeros.  The destination ExpandingFile is left open.
+   *
+   * @return {Promise<void>}
+   *
+   * @throws {Error} - Throws when the destination ExpandingFile hasn't been opened.
+   */
+  public async finish (): Promise<void> {
+    await this.dest.write(Buffer.alloc(TAR_BLOCK_SIZE * 2))
+  }
+
+  /**
+   * Loads the destination into the StreamPipeline, the first time data needs pumping.
+   *
+   * @private
+   * @return {Promise<void>}
+   */
+  protected async ensureLoaded (): Promise<void> {
+    if (this.pipeline.sbuf !== this.dest) {
+      await this.pipeline.load(this.dest)
+    }
+  }
+
+  /**
+   * Fills in the header for an entry from the options given.
+   *
+   * @private
+   * @param  name - The path of the entry within the archive.
+   * @param  type - What kind of entry this is.
+   * @param  size - Size of the entry's data, in bytes.
+   * @param  linkname - Target of a link entry; empty otherwise.
+   * @param  options - Metadata for the entry.
+   * @return {TarHeader}
+   */
+  protected createHeader (name: string, type: TarHeader['type'], size: number, linkname: string, options: TarEntryOptions): TarHeader {
+    return {
+      name: name.split(path.sep).join('/'),
+      type,
+      mode: options.mode ?? 0o644,
+      uid: options.uid ?? 0,
+      gid: options.gid ?? 0,
+      size,
+      mtime: options.mtime ?? new Date(),
+      linkname,
+      uname: options.uname ?? '',
+      gname: options.gname ?? ''
+    }
+  }
+
+  /**
+   * Writes the header for an entry, preceded by a pax extended header holding whatever the ustar header can't.
+   *
+   * @private
+   * @param  header - The header to write.
+   * @return {Promise<void>}
+   */
+  protected async writeHeader (header: TarHeader): Promise<void> {
+    const records = tarPaxRecords(header)
+    if (Object.keys(records).length > 0) {
+      const data = encodePaxRecords(records)
+      const paxName = `PaxHeaders/${path.posix.basename(header.name)}`.slice(0, 100)
+      await this.dest.write(encodeTarHeader({ ...header, name: paxName, size: data.length, linkname: '' }, 'x'))
+      await this.dest.write(data)
+      await this.pad(data.length)
+    }
+
+    await this.dest.write(encodeTarHeader(header))
+  }
+
+  /**
+   * Pads entry data out to a whole number of blocks.
+   *
+   * @private
+   * @param  size - The size of the data just written.
+   * @return {Promise<void>}
+   */
+  protected async pad (size: number): Promise<void> {
+    const padding = tarPadded(size) - size
+    if (padding > 0) {
+      await this.dest.write(Buffer.alloc(padding))
+    }
+  }
+}
@@ -0,0 +1,245 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+/**
+ * The smallest amount of a resource the varint decoders need - something to pull bytes from.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+interface ByteSource {
+  read (bytes: number): Promise<Buffer>
+}
+
+/**
+ * LEB128 values are limited to 8 bytes (56 bits), which covers every safe integer.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+const MAX_LEB128_BYTES = 8
+
+/**
+ * MIDI variable-length quantities are limited to 4 bytes (28 bits).
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+const MAX_VLQ_BYTES = 4
+
+/**
+ * Checks that a value can be encoded as a varint.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+function assertSafeInteger (value: number, unsigned: boolean): void {
+  if (!Number.isSafeInteger(value) || (unsigned && value < 0)) {
+    throw new RangeError(`Value must be a${unsigned ? 'n unsigned' : ''} safe integer.`)
+  }
+}
+
+/**
+ * Maps a signed integer onto an unsigned one so that small magnitudes stay small (0, -1, 1, -2 become 0, 1, 2, 3).
+ *
+ * @param  value - The signed integer to encode.
+ * @return {number}
+ *
+ * @throws {RangeError} - Throws when the value isn't a safe integer, or its encoding would not be one.
+ */
+export function zigzagEncode (value: number): number {
+  assertSafeInteger(value, false)
+  const res = value >= 0 ? value * 2 : (-value * 2) - 1
+  assertSafeInteger(res, true)
+
+  return res
+}
+
+/**
+ * Reverses zigzagEncode.
+ *
+ * @param  value - The unsigned, zigzag-encoded integer.
+ * @return {number}
+ *
+ * @throws {RangeError} - Throws when the value isn't an unsigned safe integer.
+ */
+export function zigzagDecode (value: number): number {
+  assertSafeInteger(value, true)
+
+  return value % 2 === 0 ? value / 2 : -(value + 1) / 2
+}
+
+/**
+ * Encodes an unsigned integer as unsigned LEB128.
+ *
+ * @param  value - The unsigned integer to encode.
+ * @return {Buffer}
+ *
+ * @throws {RangeError} - Throws when the value isn't an unsigned safe integer.
+ */
+export function encodeULEB128 (value: number): Buffer {
+  assertSafeInteger(value, true)
+
+  const out: number[] = []
+  do {
+    let byte = value % 0x80
+    value = Math.floor(value / 0x80)
+    if (value !== 0) {
+      byte |= 0x80
+    }
+    out.push(byte)
+  } while (value !== 0)
+
+  return Buffer.from(out)
+}
+
+/**
+ * Encodes a signed integer as signed LEB128.
+ *
+ * @param  value - The signed integer to encode.
+ * @return {Buffer}
+ *
+ * @throws {RangeError} - Throws when the value isn't a safe integer.
+ */
+export function encodeSLEB128 (value: number): Buffer {
+  assertSafeInteger(value, false)
+
+  const out: number[] = []
+  while (true) {
+    // a positive modulo, so that negative values yield their two's complement low bits
+    const byte = ((value % 0x80) + 0x80) % 0x80
+    value = Math.floor(value / 0x80)
+    const signBitSet = (byte & 0x40) !== 0
+    if ((value === 0 && !signBitSet) || (value === -1 && signBitSet)) {
+      out.push(byte)
+      break
+    }
+    out.push(byte | 0x80)
+  }
+
+  return Buffer.from(out)
+}
+
+/**
+ * Encodes an unsigned integer as a MIDI-style variable-length quantity (big-endian groups of 7 bits, at most 4 bytes).
+ *
+ * @param  value - The unsigned integer to encode; must be at most 0x0FFFFFFF.
+ * @return {Buffer}
+ *
+ * @throws {RangeError} - Throws when the value isn't an unsigned integer that fits in 28 bits.
+ */
+export function encodeVLQ (value: number): Buffer {
+  if (!Number.isInteger(value) || value < 0 || value > 0x0FFFFFFF) {
+    throw new RangeError('VLQ value must be an unsigned integer no greater than 0x0FFFFFFF.')
+  }
+
+  const out: number[] = [value & 0x7F]
+  value >>>= 7
+  while (value !== 0) {
+    out.unshift((value & 0x7F) | 0x80)
+    value >>>= 7
+  }
+
+  return Buffer.from(out)
+}
+
+/**
+ * Reads an unsigned LEB128 integer from a resource, one byte at a time.
+ *
+ * @param  source - The resource to read from.
+ * @return {Promise<number>}
+ *
+ * @throws {Error} - Throws when the encoding is overlong (has redundant trailing zero groups) or runs past 8 bytes.
+ * @throws {RangeError} - Throws when the decoded value isn't a safe integer.
+ * @throws {RangeError} - Throws when the resource runs out before the encoding ends.
+ */
+export async function readULEB128 (source: ByteSource): Promise<number> {
+  let value = 0
+  for (let i = 0; i < MAX_LEB128_BYTES; i++) {
+    const byte = (await source.read(1))[0]
+    value += (byte & 0x7F) * (2 ** (7 * i))
+    if ((byte & 0x80) === 0) {
+      if (byte === 0 && i > 0) {
+        throw new Error('Malformed ULEB128; encoding is overlong.')
+      }
+      if (!Number.isSafeInteger(value)) {
+        throw new RangeError('ULEB128 value exceeds Number.MAX_SAFE_INTEGER.')
+      }
+
+      return value
+    }
+  }
+
+  throw new Error(`Malformed ULEB128; encoding exceeds ${MAX_LEB128_BYTES} bytes.`)
+}
+
+/**
+ * Reads a signed LEB128 integer from a resource, one byte at a time.
+ *
+ * @param  source - The resource to read from.
+ * @return {Promise<number>}
+ *
+ * @throws {Error} - Throws when the encoding is overlong (has redundant trailing sign groups) or runs past 8 bytes.
+ * @throws {RangeError} - Throws when the decoded value isn't a safe integer.
+ * @throws {RangeError} - Throws when the resource runs out before the encoding ends.
+ */
+export async function readSLEB128 (source: ByteSource): Promise<number> {
+  // accumulated as a bigint, as negative values would otherwise lose precision before the sign is applied
+  let value = BigInt(0)
+  let previous = 0
+  for (let i = 0; i < MAX_LEB128_BYTES; i++) {
+    const byte = (await source.read(1))[0]
+    value |= BigInt(byte & 0x7F) << BigInt(7 * i)
+    if ((byte & 0x80) === 0) {
+      const previousSignBitSet = (previous & 0x40) !== 0
+      if (i > 0 && ((byte === 0x00 && !previousSignBitSet) || (byte === 0x7F && previousSignBitSet))) {
+        throw new Error('Malformed SLEB128; encoding is overlong.')
+      }
+      if ((byte & 0x40) !== 0) {
+        value -= BigInt(1) << BigInt(7 * (i + 1))
+      }
+      if (value > BigInt(Number.MAX_SAFE_INTEGER) || value < BigInt(Number.MIN_SAFE_INTEGER)) {
+        throw new RangeError('SLEB128 value exceeds the safe integer range.')
+      }
+
+      return Number(value)
+    }
+    previous = byte
+  }
+
+  throw new Error(`Malformed SLEB128; encoding exceeds ${MAX_LEB128_BYTES} bytes.`)
+}
+
+/**
+ * Reads a MIDI-style variable-length quantity from a resource, one byte at a time.
+ *
+ * @param  source - The resource to read from.
+ * @return {Promise<number>}
+ *
+ * @throws {Error} - Throws when the encoding is overlong (starts with a zero group) or runs past 4 bytes.
+ * @throws {RangeError} - Throws when the resource runs out before the encoding ends.
+ */
+export async function readVLQ (source: ByteSource): Promise<number> {
+  let value = 0
+  for (let i = 0; i < MAX_VLQ_BYTES; i++) {
+    const byte = (await source.read(1))[0]
+    if (i === 0 && byte === 0x80) {
+      throw new Error('Malformed VLQ; encoding is overlong.')
+    }
+    value = (value << 7) | (byte & 0x7F)
+    if ((byte & 0x80) === 0) {
+      return value
+    }
+  }
+
+  throw new Error(`Malformed VLQ; encoding exceeds ${MAX_VLQ_BYTES} bytes.`)
+}
@@ -0,0 +1,230 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { Struct } from './Schema'
+
+/**
+ * Compression methods supported when writing ZIP entries.
+ */
+export type ZipCompressionMethod = 'stored' | 'deflate'
+
+/**
+ * The method numbers of the supported compression methods, as found in ZIP headers.
+ */
+export const ZIP_METHODS: { [method in ZipCompressionMethod]: number } = {
+  stored: 0,
+  deflate: 8
+}
+
+/**
+ * An entry listed in a ZIP archive's central directory.
+ */
+export interface ZipEntry {
+  /**
+   * The path of the entry within the archive.
+   */
+  name: string
+
+  /**
+   * The compression method number - 0 for stored, 8 for deflate.
+   */
+  method: number
+
+  /**
+   * The general purpose bit flags of the entry.
+   */
+  flags: number
+
+  /**
+   * CRC-32 of the entry's uncompressed data.
+   */
+  crc32: number
+
+  /**
+   * Size of the entry's data as stored in the archive, in bytes.
+   */
+  compressedSize: number
+
+  /**
+   * Size of the entry's uncompressed data, in bytes.
+   */
+  size: number
+
+  /**
+   * Last modification time, at the two second resolution ZIP stores.
+   */
+  mtime: Date
+
+  /**
+   * The entry's comment.
+   */
+  comment: string
+
+  /**
+   * Host-dependent file attributes; for archives made on unix, the upper 16 bits hold the file mode.
+   */
+  externalAttributes: number
+
+  /**
+   * Where the entry's local file header lies within the archive.
+   */
+  headerOffset: number
+
+  /**
+   * The raw extra field of the entry's central directory header.
+   */
+  extra: Buffer
+
+  /**
+   * Whether the entry is a directory.
+   */
+  isDirectory: boolean
+}
+
+/**
+ * @private
+ * @hidden
+ * @ignore
+ */
+export const ZIP_SIGNATURES = {
+  localFileHeader: 0x04034B50,
+  dataDescriptor: 0x08074B50,
+  centralDirectoryHeader: 0x02014B50,
+  zip64EndOfCentralDirectory: 0x06064B50,
+  zip64Locator: 0x07064B50,
+  endOfCentralDirectory: 0x06054B50
+}
+
+/**
+ * The value 32-bit fields hold when the real value lives in a ZIP64 extra field or record.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+export const ZIP64_MARKER = 0xFFFFFFFF
+
+/**
+ * @private
+ * @hidden
+ * @ignore
+ */
+export const LocalFileHeader = new Struct({
+  signature: 'uint32le',
+  versionNeeded: 'uint16le',
+  flags: 'uint16le',
+  method: 'uint16le',
+  modTime: 'uint16le',
+  modDate: 'uint16le',
+  crc32: 'uint32le',
+  compressedSize: 'uint32le',
+  size: 'uint32le',
+  nameLength: 'uint16le',
+  extraLength: 'uint16le'
+})
+
+/**
+ * @private
+ * @hidden
+ * @ignore
+ */
+export const CentralDirectoryHeader = new Struct({
+  signature: 'uint32le',
+  versionMadeBy: 'uint16le',
+  versionNeeded: 'uint16le',
+  flags: 'uint16le',
+  method: 'uint16le',
+  modTime: 'uint16le',
+  modDate: 'uint16le',
+  crc32: 'uint32le',
+  compressedSize: 'uint32le',
+  size: 'uint32le',
+  nameLength: 'uint16le',
+  extraLength: 'uint16le',
+  commentLength: 'uint16le',
+  diskStart: 'uint16le',
+  internalAttributes: 'uint16le',
+  externalAttributes: 'uint32le',
+  headerOffset: 'uint32le'
+})
+
+/**
+ * @private
+ * @hidden
+ * @ignore
+ */
+export const EndOfCentralDirectory = new Struct({
+  signature: 'uint32le',
+  disk: 'uint16le',
+  centralDirectoryDisk: 'uint16le',
+  diskEntries: 'uint16le',
+  totalEntries: 'uint16le',
+  centralDirectorySize: 'uint32le',
+  centralDirectoryOffset: 'uint32le',
+  commentLength: 'uint16le'
+})
+
+/**
+ * @private
+ * @hidden
+ * @ignore
+ */
+export const Zip64EndOfCentralDirectory = new Struct({
+  signature: 'uint32le',
+  recordSize: 'uint64le',
+  versionMadeBy: 'uint16le',
+  versionNeeded: 'uint16le',
+  disk: 'uint32le',
+  centralDirectoryDisk: 'uint32le',
+  diskEntries: 'uint64le',
+  totalEntries: 'uint64le',
+  centralDirectorySize: 'uint64le',
+  centralDirectoryOffset: 'uint64le'
+})
+
+/**
+ * @private
+ * @hidden
+ * @ignore
+ */
+export const Zip64Locator = new Struct({
+  signature: 'uint32le',
+  centralDirectoryDisk: 'uint32le',
+  endOfCentralDirectoryOffset: 'uint64le',
+  totalDisks: 'uint32le'
+})
+
+/**
+ * Converts a Date into the MS-DOS time and date fields ZIP headers use, in local time.  Dates before 1980 are clamped to it.
+ *
+ * @private
+ * @param  date - The date to convert.
+ * @return {[number, number]} - Returns the time and date fields.
+ */
+export function toDosDateTime (date: Date): [number, number] {
+  if (date.getFullYear() < 1980) {
+    return [0, (1 << 5) | 1]
+  }
+
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2)
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+
+  return [time, day]
+}
+
+/**
+ * Converts the MS-DOS time and date fields of a ZIP header into a Date, in local time.
+ *
+ * @private
+ * @param  time - The time field.
+ * @param  day - The date field.
+ * @return {Date}
+ */
+export function fromDosDateTime (time: number, day: number): Date {
+  return new Date((day >> 9) + 1980, ((day >> 5) & 0x0F) - 1, day & 0x1F, time >> 11, (time >> 5) & 0x3F, (time & 0x1F) * 2)
+}
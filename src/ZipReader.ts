@@ -0,0 +1,293 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { CompressedConsumableResource } from './CompressedConsumableResource'
+import { ConsumableResource } from './ConsumableResource'
+import { CRC32 } from './Hashes'
+import {
+  CentralDirectoryHeader,
+  EndOfCentralDirectory,
+  LocalFileHeader,
+  ZIP64_MARKER,
+  ZIP_METHODS,
+  ZIP_SIGNATURES,
+  Zip64EndOfCentralDirectory,
+  Zip64Locator,
+  ZipEntry,
+  fromDosDateTime
+} from './Zip'
+
+/**
+ * Where the central directory of a ZIP archive lies, as described by its end of central directory record.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+interface CentralDirectory {
+  offset: number
+  size: number
+  entries: number
+  comment: string
+}
+
+/**
+ * Reads the given number of bytes, allowing for there being none to read.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+async function readBytes (source: ConsumableResource, bytes: number): Promise<Buffer> {
+  if (bytes === 0) {
+    return Buffer.alloc(0)
+  }
+
+  const buf = await source.read(bytes)
+
+  return buf
+}
+
+export class ZipReader {
+  /**
+   * The resource holding the archive.
+   *
+   * @private
+   */
+  public source: ConsumableResource
+
+  /**
+   * The archive comment, once the central directory has been located.
+   */
+  public comment?: string
+
+  /**
+   * ZipReader is a class designed to list the entries of a ZIP archive from its central directory - ZIP64 included -
+   *   and to read the data of stored and deflated entries lazily, through views onto the archive.
+   *   The archive must be held by a resource supporting subviews, such as a ConsumableFile or ConsumableBuffer.
+   *
+   * @param  source - The resource holding the archive, starting at offset 0.
+   * @return {ZipReader}
+   *
+   * @example
+   * ```
+   * import { ConsumableFile, ZipReader } from 'byteaccordion'
+   * const cfile = new ConsumableFile('/path/to/archive.zip')
+   * await cfile.open()
+   * const zip = new ZipReader(cfile)
+   *
+   * for (const entry of await zip.list()) {
+   *   if (entry.name === 'README.md') {
+   *     console.log((await zip.read(entry)).toString())
+   *   }
+   * }
+   * ```
+   */
+  constructor (source: ConsumableResource) {
+    this.source = source
+  }
+
+  /**
+   * Locates the central directory, searching backwards from the end of the archive for the end of central directory record.
+   *   Candidates whose comment doesn't reach exactly to the end of the archive are passed over, unless there are no others.
+   *
+   * @private
+   * @return {Promise<CentralDirectory>}
+   *
+   * @throws {Error} - Throws when no end of central directory record can be found, or a ZIP64 record it points to is missing.
+   */
+  protected async locate (): Promise<CentralDirectory> {
+    const signature = Buffer.alloc(4)
+    signature.writeUInt32LE(ZIP_SIGNATURES.endOfCentralDirectory)
+    // the record is 22 bytes, followed by a comment of at most 65535 bytes
+    const from = Math.max(0, this.source.length - 22 - 0xFFFF)
+
+    let found = -1
+    let to = this.source.length
+    while (true) {
+      const offset = await this.source.indexOf(signature, { from, to, backwards: true })
+      if (offset === -1) {
+        break
+      }
+
+      if (this.source.length - offset >= 22) {
+        await this.source.aseek(offset + 20)
+        if (offset + 22 + await this.source.readUInt16LE() === this.source.length) {
+          found = offset
+          break
+        }
+        found = found === -1 ? offset : found
+      }
+      to = offset + 3
+    }
+
+    if (found === -1) {
+      throw new Error('End of central directory record not found; is this a ZIP archive?')
+    }
+
+    await this.source.aseek(found)
+    const record = await EndOfCentralDirectory.read(this.source)
+    const comment = await readBytes(this.source, Math.min(record.commentLength, this.source.remaining()))
+    const directory: CentralDirectory = {
+      offset: record.centralDirectoryOffset,
+      size: record.centralDirectorySize,
+      entries: record.totalEntries,
+      comment: comment.toString('utf8')
+    }
+
+    if (record.totalEntries === 0xFFFF || record.centralDirectorySize === ZIP64_MARKER || record.centralDirectoryOffset === ZIP64_MARKER) {
+      if (found < 20) {
+        throw new Error('ZIP64 end of central directory locator not found.')
+      }
+
+      await this.source.aseek(found - 20)
+      const locator = await Zip64Locator.read(this.source)
+      if (locator.signature !== ZIP_SIGNATURES.zip64Locator) {
+        throw new Error('ZIP64 end of central directory locator not found.')
+      }
+
+      await this.source.aseek(Number(locator.endOfCentralDirectoryOffset))
+      const zip64 = await Zip64EndOfCentralDirectory.read(this.source)
+      if (zip64.signature !== ZIP_SIGNATURES.zip64EndOfCentralDirectory) {
+        throw new Error('ZIP64 end of central directory record not found.')
+      }
+
+      directory.offset = Number(zip64.centralDirectoryOffset)
+      directory.size = Number(zip64.centralDirectorySize)
+      directory.entries = Number(zip64.totalEntries)
+    }
+
+    this.comment = directory.comment
+
+    return directory
+  }
+
+  /**
+   * Iterates over the entries listed in the archive's central directory, in order.
+   *
+   * @return {AsyncGenerator<ZipEntry>}
+   *
+   * @throws {Error} - Throws when the central directory can't be located or is malformed.
+   * @throws {RangeError} - Throws when the central directory extends beyond the archive.
+   */
+  public async * entries (): AsyncGenerator<ZipEntry> {
+    const directory = await this.locate()
+    const headers = this.source.subview(directory.offset, directory.size)
+
+    for (let i = 0; i < directory.entries; i++) {
+      const offset = directory.offset + headers.position
+      const header = await CentralDirectoryHeader.read(headers)
+      if (header.signature !== ZIP_SIGNATURES.centralDirectoryHeader) {
+        throw new Error(`Invalid central directory header at offset ${offset}.`)
+      }
+
+      // bit 11 marks names and comments as utf8; otherwise they're in the IBM PC character set, which latin1 approximates
+      const encoding = (header.flags & 0x0800) !== 0 ? 'utf8' : 'latin1'
+      const name = (await readBytes(headers, header.nameLength)).toString(encoding)
+      const extra = await readBytes(headers, header.extraLength)
+      const comment = (await readBytes(headers, header.commentLength)).toString(encoding)
+
+      const entry: ZipEntry = {
+        name,
+        method: header.method,
+        flags: header.flags,
+        crc32: header.crc32,
+        compressedSize: header.compressedSize,
+        size: header.size,
+        mtime: fromDosDateTime(header.modTime, header.modDate),
+        comment,
+        externalAttributes: header.externalAttributes,
+        headerOffset: header.headerOffset,
+        extra,
+        isDirectory: name.endsWith('/')
+      }
+
+      // the ZIP64 extra field holds, in order, whichever of these the header marked as not fitting
+      for (let pos = 0; pos + 4 <= extra.length; pos += 4 + extra.readUInt16LE(pos + 2)) {
+        if (extra.readUInt16LE(pos) !== 0x0001) {
+          continue
+        }
+
+        let field = pos + 4
+        for (const key of ['size', 'compressedSize', 'headerOffset'] as Array<'size' | 'compressedSize' | 'headerOffset'>) {
+          if (entry[key] === ZIP64_MARKER && field + 8 <= pos + 4 + extra.readUInt16LE(pos + 2)) {
+            entry[key] = Number(extra.readBigUInt64LE(field))
+            field += 8
+          }
+        }
+      }
+
+      yield entry
+    }
+  }
+
+  /**
+   * Lists every entry of the archive.
+   *
+   * @return {Promise<ZipEntry[]>}
+   *
+   * @throws {Error} - Throws when the archive is malformed, as with ZipReader.entries().
+   */
+  public async list (): Promise<ZipEntry[]> {
+    const entries: ZipEntry[] = []
+    for await (const entry of this.entries()) {
+      entries.push(entry)
+    }
+
+    return entries
+  }
+
+  /**
+   * Opens an entry's data for reading, as a view onto the archive - decompressing it on the way out when deflated.
+   *   Nothing is read until the view is.
+   *
+   * @param  entry - The entry to open.
+   * @return {Promise<ConsumableResource>}
+   *
+   * @throws {Error} - Throws when the entry is encrypted or uses an unsupported compression method.
+   * @throws {Error} - Throws when the entry's local file header is invalid.
+   */
+  public async open (entry: ZipEntry): Promise<ConsumableResource> {
+    if ((entry.flags & 0x0001) !== 0) {
+      throw new Error(`ZIP entry "${entry.name}" is encrypted, which is not supported.`)
+    }
+    if (entry.method !== ZIP_METHODS.stored && entry.method !== ZIP_METHODS.deflate) {
+      throw new Error(`ZIP entry "${entry.name}" uses unsupported compression method ${entry.method}.`)
+    }
+
+    await this.source.aseek(entry.headerOffset)
+    const header = await LocalFileHeader.read(this.source)
+    if (header.signature !== ZIP_SIGNATURES.localFileHeader) {
+      throw new Error(`Invalid local file header for ZIP entry "${entry.name}".`)
+    }
+
+    const data = this.source.subview(this.source.position + header.nameLength + header.extraLength, entry.compressedSize)
+
+    return entry.method === ZIP_METHODS.stored ? data : new CompressedConsumableResource(data, { format: 'deflateRaw' })
+  }
+
+  /**
+   * Reads an entry's data in full, verifying it against the entry's CRC-32.
+   *
+   * @param  entry - The entry to read.
+   * @return {Promise<Buffer>}
+   *
+   * @throws {Error} - Throws when the data doesn't match the entry's CRC-32, or the entry can't be opened.
+   * @throws {RangeError} - Throws when the data is shorter than the entry's size.
+   */
+  public async read (entry: ZipEntry): Promise<Buffer> {
+    const data = await this.open(entry)
+    const crc = data.attach(new CRC32())
+    const buf = await readBytes(data, entry.size)
+    if (crc.value !== entry.crc32) {
+      throw new Error(`CRC-32 mismatch for ZIP entry "${entry.name}".`)
+    }
+
+    return buf
+  }
+}
@@ -0,0 +1,399 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import * as fs from 'fs'
+import { FileHandle } from 'fs/promises'
+
+import { CompressedExpandingResource } from './CompressedExpandingResource'
+import { ExpandingBuffer } from './ExpandingBuffer'
+import { ExpandingResource } from './ExpandingResource'
+import { CRC32 } from './Hashes'
+import {
+  CentralDirectoryHeader,
+  EndOfCentralDirectory,
+  LocalFileHeader,
+  ZIP64_MARKER,
+  ZIP_METHODS,
+  ZIP_SIGNATURES,
+  Zip64EndOfCentralDirectory,
+  Zip64Locator,
+  ZipCompressionMethod,
+  toDosDateTime
+} from './Zip'
+
+/**
+ * Options accepted when constructing a ZipWriter.
+ */
+export interface ZipWriterOptions {
+  /**
+   * Write every entry and the end of central directory in ZIP64 form, whatever their size; defaults to false.
+   *   ZIP64 is otherwise only used where it's needed - for entries or archives of 4GiB or more, or of 65535 entries or more.
+   */
+  forceZip64?: boolean
+}
+
+/**
+ * Metadata and compression settings for an entry added to a ZIP archive.
+ */
+export interface ZipEntryOptions {
+  /**
+   * How to store the entry's data; defaults to "deflate".
+   */
+  method?: ZipCompressionMethod
+
+  /**
+   * The deflate compression level, 0 to 9; defaults to zlib's default.
+   */
+  level?: number
+
+  /**
+   * Last modification time; defaults to that of the source file, or the current time.
+   */
+  mtime?: Date
+
+  /**
+   * Unix permission bits of the entry; defaults to those of the source file, or 0o644 for files and 0o755 for directories.
+   */
+  mode?: number
+
+  /**
+   * The entry's comment; defaults to empty.
+   */
+  comment?: string
+}
+
+/**
+ * What's remembered about each entry written, for its central directory header.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+interface WrittenEntry {
+  name: Buffer
+  comment: Buffer
+  method: number
+  modTime: number
+  modDate: number
+  crc32: number
+  compressedSize: number
+  size: number
+  headerOffset: number
+  externalAttributes: number
+  zip64: boolean
+}
+
+/**
+ * Entries whose data may come within this much of 4GiB are written as ZIP64 up front, as deflate can grow incompressible data slightly.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+const ZIP64_THRESHOLD = ZIP64_MARKER - 0x200000
+
+/**
+ * General purpose flags we write - sizes and CRC-32 follow the data in a data descriptor (bit 3), and names are utf8 (bit 11).
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+const ENTRY_FLAGS = 0x0808
+
+/**
+ * "Version made by" - unix attributes, spec version 4.5.
+ *
+ * @private
+ * @hidden
+ * @ignore
+ */
+const VERSION_MADE_BY = (3 << 8) | 45
+
+export class ZipWriter {
+  /**
+   * The resource the archive is written into.
+   *
+   * @private
+   */
+  public dest: ExpandingResource
+
+  /**
+   * Whether every entry is written in ZIP64 form.
+   */
+  public forceZip64: boolean
+
+  /**
+   * Every entry written so far, for the central directory.
+   *
+   * @private
+   */
+  public written: WrittenEntry[]
+
+  /**
+   * ZipWriter is a class designed to build ZIP archives entry by entry - stored or deflated - with their data streamed in from Buffers or files.
+   *   Each entry's CRC-32 and sizes follow its data in a data descriptor, so nothing needs to be known about the data up front,
+   *   and ZIP64 records are written wherever sizes or offsets reach 4GiB.
+   *
+   * @param  dest - The ExpandingResource to write the archive into, such as an already-opened ExpandingFile.
+   * @param  options - (optional) Options for the archive, such as forcing ZIP64.
+   * @return {ZipWriter}
+   *
+   * @example
+   * ```
+   * import { ExpandingFile, ZipWriter } from 'byteaccordion'
+   * const sfile = new ExpandingFile('/path/to/archive.zip')
+   * await sfile.open()
+   * const zip = new ZipWriter(sfile)
+   *
+   * await zip.addDirectory('docs')
+   * await zip.addFile('docs/README.md', '/path/to/README.md')
+   * await zip.addFile('docs/logo.png', '/path/to/logo.png', { method: 'stored' })
+   * await zip.finish()
+   * await sfile.close()
+   * ```
+   */
+  constructor (dest: ExpandingResource, options: ZipWriterOptions = {}) {
+    this.dest = dest
+    this.forceZip64 = options.forceZip64 ?? false
+    this.written = []
+  }
+
+  /**
+   * Adds a file entry, streaming its data in from a Buffer, file descriptor, or filepath.
+   *   Metadata not given is taken from the source file where there is one.
+   *
+   * @param  name - The path of the entry within the archive.
+   * @param  source - The Buffer, file descriptor, or filepath to read the entry's data from.
+   * @param  options - (optional) Compression settings and metadata for the entry.
+   * @return {Promise<void>}
+   *
+   * @throws {TypeError} - Throws when the compression method isn't supported.
+   * @throws {Error} - Throws when the source grows past 4GiB while being added, having started out small enough to not need ZIP64.
+   */
+  public async addFile (name: string, source: Buffer | FileHandle | string, options: ZipEntryOptions = {}): Promise<void> {
+    let stats: fs.Stats | undefined
+    let data: Iterable<Buffer> | AsyncIterable<Buffer>
+    if (Buffer.isBuffer(source)) {
+      data = [source]
+    } else if (typeof source === 'string') {
+      stats = await fs.promises.stat(source)
+      data = fs.createReadStream(source)
+    } else {
+      stats = await source.stat()
+      data = fs.createReadStream('', { fd: source.fd, start: 0, autoClose: false })
+    }
+
+    const size = stats !== undefined ? stats.size : (source as Buffer).length
+    const mode = options.mode ?? (stats !== undefined ? stats.mode & 0o7777 : 0o644)
+    await this.addEntry(name, data, size, (0o100000 | mode) * 0x10000, { mtime: stats?.mtime, ...options })
+  }
+
+  /**
+   * Adds a directory entry.
+   *
+   * @param  name - The path of the directory within the archive.
+   * @param  options - (optional) Metadata for the entry; the compression method is ignored.
+   * @return {Promise<void>}
+   */
+  public async addDirectory (name: string, options: ZipEntryOptions = {}): Promise<void> {
+    // the low byte carries the MS-DOS directory attribute, for readers that don't look at unix modes
+    const attributes = (0o040000 | (options.mode ?? 0o755)) * 0x10000 + 0x10
+    await this.addEntry(name.endsWith('/') ? name : `${name}/`, [], 0, attributes, { ...options, method: 'stored' })
+  }
+
+  /**
+   * Writes the local file header, data and data descriptor of an entry.
+   *
+   * @private
+   * @param  name - The path of the entry within the archive.
+   * @param  data - The entry's uncompressed data.
+   * @param  size - How large the data is expected to be, to decide whether the entry needs ZIP64.
+   * @param  externalAttributes - The entry's external file attributes.
+   * @param  options - Compression settings and metadata for the entry.
+   * @return {Promise<void>}
+   */
+  protected async addEntry (name: string, data: Iterable<Buffer> | AsyncIterable<Buffer>, size: number, externalAttributes: number, options: ZipEntryOptions): Promise<void> {
+    const methodName = options.method ?? 'deflate'
+    if (!Object.keys(ZIP_METHODS).includes(methodName)) {
+      throw new TypeError(`Unsupported ZIP compression method "${String(methodName)}".`)
+    }
+
+    const method = ZIP_METHODS[methodName]
+    const zip64 = this.forceZip64 || size >= ZIP64_THRESHOLD
+    const [modTime, modDate] = toDosDateTime(options.mtime ?? new Date())
+    const entry: WrittenEntry = {
+      name: Buffer.from(name),
+      comment: Buffer.from(options.comment ?? ''),
+      method,
+      modTime,
+      modDate,
+      crc32: 0,
+      compressedSize: 0,
+      size: 0,
+      headerOffset: this.dest.position,
+      externalAttributes,
+      zip64
+    }
+
+    // sizes and CRC-32 aren't known yet - they follow in the data descriptor, and for ZIP64 the local sizes are left to the extra field
+    const header = new ExpandingBuffer()
+    await LocalFileHeader.write(header, {
+      signature: ZIP_SIGNATURES.localFileHeader,
+      versionNeeded: zip64 ? 45 : 20,
+      flags: ENTRY_FLAGS,
+      method,
+      modTime,
+      modDate,
+      crc32: 0,
+      compressedSize: zip64 ? ZIP64_MARKER : 0,
+      size: zip64 ? ZIP64_MARKER : 0,
+      nameLength: entry.name.length,
+      extraLength: zip64 ? 20 : 0
+    })
+    await header.write(entry.name)
+    if (zip64) {
+      await header.writeUInt16(0x0001, 'LE')
+      await header.writeUInt16(16, 'LE')
+      await header.write(Buffer.alloc(16))
+    }
+    await this.dest.write(header.buf)
+
+    const start = this.dest.position
+    const target = method === ZIP_METHODS.deflate ? new CompressedExpandingResource(this.dest, { format: 'deflateRaw', level: options.level }) : this.dest
+    const crc = target.attach(new CRC32())
+    const before = target.position
+    try {
+      for await (const chunk of data) {
+        await target.write(chunk)
+      }
+      if (target instanceof CompressedExpandingResource) {
+        await target.close()
+      }
+    } finally {
+      target.detach(crc)
+    }
+
+    entry.crc32 = crc.value
+    entry.size = target.position - before
+    entry.compressedSize = this.dest.position - start
+    if (!zip64 && (entry.size >= ZIP64_MARKER || entry.compressedSize >= ZIP64_MARKER)) {
+      throw new Error(`ZIP entry "${name}" grew past 4GiB while being added; add it with the forceZip64 option instead.`)
+    }
+
+    const descriptor = new ExpandingBuffer()
+    await descriptor.writeUInt32(ZIP_SIGNATURES.dataDescriptor, 'LE')
+    await descriptor.writeUInt32(entry.crc32, 'LE')
+    if (zip64) {
+      await descriptor.writeBigUInt64(BigInt(entry.compressedSize), 'LE')
+      await descriptor.writeBigUInt64(BigInt(entry.size), 'LE')
+    } else {
+      await descriptor.writeUInt32(entry.compressedSize, 'LE')
+      await descriptor.writeUInt32(entry.size, 'LE')
+    }
+    await this.dest.write(descriptor.buf)
+
+    this.written.push(entry)
+  }
+
+  /**
+   * Ends the archive, writing the central directory and the end of central directory record - preceded by their ZIP64 forms where needed.
+   *   The destination is left open.
+   *
+   * @param  comment - (optional) A comment for the archive as a whole.
+   * @return {Promise<void>}
+   *
+   * @throws {RangeError} - Throws when the comment is longer than 65535 bytes.
+   */
+  public async finish (comment: string = ''): Promise<void> {
+    const commentBuf = Buffer.from(comment)
+    if (commentBuf.length > 0xFFFF) {
+      throw new RangeError('ZIP archive comments may be at most 65535 bytes long.')
+    }
+
+    const directoryOffset = this.dest.position
+    for (const entry of this.written) {
+      // the ZIP64 extra field holds, in order, whichever of these don't fit their 32-bit fields
+      const overflowing = [entry.size, entry.compressedSize, entry.headerOffset].map((value, i) => {
+        return (i < 2 && entry.zip64) || (i === 2 && this.forceZip64) || value >= ZIP64_MARKER
+      })
+
+      const header = new ExpandingBuffer()
+      await CentralDirectoryHeader.write(header, {
+        signature: ZIP_SIGNATURES.centralDirectoryHeader,
+        versionMadeBy: VERSION_MADE_BY,
+        versionNeeded: entry.zip64 || overflowing[2] ? 45 : 20,
+        flags: ENTRY_FLAGS,
+        method: entry.method,
+        modTime: entry.modTime,
+        modDate: entry.modDate,
+        crc32: entry.crc32,
+        compressedSize: overflowing[1] ? ZIP64_MARKER : entry.compressedSize,
+        size: overflowing[0] ? ZIP64_MARKER : entry.size,
+        nameLength: entry.name.length,
+        extraLength: overflowing.includes(true) ? 4 + 8 * overflowing.filter(Boolean).length : 0,
+        commentLength: entry.comment.length,
+        diskStart: 0,
+        internalAttributes: 0,
+        externalAttributes: entry.externalAttributes,
+        headerOffset: overflowing[2] ? ZIP64_MARKER : entry.headerOffset
+      })
+      await header.write(entry.name)
+      if (overflowing.includes(true)) {
+        await header.writeUInt16(0x0001, 'LE')
+        await header.writeUInt16(8 * overflowing.filter(Boolean).length, 'LE')
+        for (const [i, value] of [entry.size, entry.compressedSize, entry.headerOffset].entries()) {
+          if (overflowing[i]) {
+            await header.writeBigUInt64(BigInt(value), 'LE')
+          }
+        }
+      }
+      await header.write(entry.comment)
+      await this.dest.write(header.buf)
+    }
+
+    const directorySize = this.dest.position - directoryOffset
+    const zip64 = this.forceZip64 || this.written.length >= 0xFFFF || directoryOffset >= ZIP64_MARKER || directorySize >= ZIP64_MARKER
+    const end = new ExpandingBuffer()
+    if (zip64) {
+      const recordOffset = this.dest.position
+      await Zip64EndOfCentralDirectory.write(end, {
+        signature: ZIP_SIGNATURES.zip64EndOfCentralDirectory,
+        // the size of the record, not counting the signature and this field
+        recordSize: BigInt(44),
+        versionMadeBy: VERSION_MADE_BY,
+        versionNeeded: 45,
+        disk: 0,
+        centralDirectoryDisk: 0,
+        diskEntries: BigInt(this.written.length),
+        totalEntries: BigInt(this.written.length),
+        centralDirectorySize: BigInt(directorySize),
+        centralDirectoryOffset: BigInt(directoryOffset)
+      })
+      await Zip64Locator.write(end, {
+        signature: ZIP_SIGNATURES.zip64Locator,
+        centralDirectoryDisk: 0,
+        endOfCentralDirectoryOffset: BigInt(recordOffset),
+        totalDisks: 1
+      })
+    }
+
+    await EndOfCentralDirectory.write(end, {
+      signature: ZIP_SIGNATURES.endOfCentralDirectory,
+      disk: 0,
+      centralDirectoryDisk: 0,
+      diskEntries: zip64 ? 0xFFFF : this.written.length,
+      totalEntries: zip64 ? 0xFFFF : this.written.length,
+      centralDirectorySize: zip64 ? ZIP64_MARKER : directorySize,
+      centralDirectoryOffset: zip64 ? ZIP64_MARKER : directoryOffset,
+      commentLength: commentBuf.length
+    })
+    await end.write(commentBuf)
+    await this.dest.write(end.buf)
+  }
+}
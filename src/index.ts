@@ -9,9 +9,35 @@
 // istanbul ignore file
 
 export { ConsumableBuffer } from './ConsumableBuffer'
-export { ConsumableFile } from './ConsumableFile'
-export { ExpandingBuffer } from './ExpandingBuffer'
-export { ExpandingFile } from './ExpandingFile'
-export { StreamPipeline } from './StreamPipeline'
-export { ConsumableResource } from './ConsumableResource'
-export { ExpandingResource } from './ExpandingResource'
+export { ConsumableFile, ConsumableFileOptions } from './ConsumableFile'
+export { ConsumableStream, ConsumableStreamOptions } from './ConsumableStream'
+export { ExpandingBuffer, ExpandingBufferOptions } from './ExpandingBuffer'
+export { ExpandingFile, ExpandingFileOptions } from './ExpandingFile'
+export { ExpandingStream, ExpandingStreamOptions } from './ExpandingStream'
+export { StreamPipeline, PumpResult, PumpOptions } from './StreamPipeline'
+export { CompressedConsumableResource, CompressedConsumableOptions } from './CompressedConsumableResource'
+export { CompressedExpandingResource } from './CompressedExpandingResource'
+export { ConsumableResource, SearchOptions, AlignOptions } from './ConsumableResource'
+export { ExpandingResource, FillOptions } from './ExpandingResource'
+export { AbstractConsumableResource } from './AbstractConsumableResource'
+export { AbstractExpandingResource } from './AbstractExpandingResource'
+export { Placeholder } from './Placeholder'
+export { Endianness, NumericType, NumericValue, BigNumericType, MultiByteNumericBase, isNumericType, numericSize, decodeNumeric, encodeNumeric, withEndianness } from './NumericTypes'
+export { Struct, FixedArray, FixedBytes, PrefixedString, CString, FixedString, SchemaType, SchemaValue, FieldDefinition, FieldValue, StructDefinition, StructValue } from './Schema'
+export { BitReader, BitOrder } from './BitReader'
+export { BitWriter } from './BitWriter'
+export { encodeULEB128, encodeSLEB128, encodeVLQ, readULEB128, readSLEB128, readVLQ, zigzagEncode, zigzagDecode } from './Varint'
+export { StringEncoding, StringPadding, StringOptions, FixedStringOptions, LengthPrefixType, readCString, readPrefixedString, readFixedString, writeCString, writePrefixedString, writeFixedString } from './Strings'
+export { DelimiterOptions, LineOptions, readUntil, readLine } from './Delimiters'
+export { DelimiterNotFoundError } from './Errors'
+export { HashObserver, HashAlgorithm, crc32, CRC32, Adler32, CryptoHash } from './Hashes'
+export { CompressionFormat, CompressionOptions, Codec, createCompressor, createDecompressor } from './Compression'
+export { TAR_BLOCK_SIZE, TarEntryType, TarHeader } from './Tar'
+export { TarReader, TarEntry } from './TarReader'
+export { TarWriter, TarEntryOptions } from './TarWriter'
+export { ZipCompressionMethod, ZipEntry } from './Zip'
+export { ZipReader } from './ZipReader'
+export { ZipWriter, ZipWriterOptions, ZipEntryOptions } from './ZipWriter'
+export { ChunkFormat, RIFF_FORMAT, IFF_FORMAT, PNG_FORMAT } from './Chunk'
+export { ChunkReader, Chunk } from './ChunkReader'
+export { ChunkWriter } from './ChunkWriter'
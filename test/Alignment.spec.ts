@@ -0,0 +1,141 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { expect } from 'chai'
+import { ConsumableBuffer } from './../src/ConsumableBuffer'
+import { ExpandingBuffer } from './../src/ExpandingBuffer'
+import { CRC32, crc32 } from './../src/Hashes'
+
+describe('Alignment tests', () => {
+  describe('ConsumableResource.align()', () => {
+    it('should skip to the next boundary', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.from([0x61, 0x62, 0x63, 0x00, 0x01, 0x00, 0x00, 0x00, 0x02]))
+      await cbuf.read(3)
+
+      expect(await cbuf.align(4)).to.equal(1)
+      expect(cbuf.position).to.equal(4)
+      expect(await cbuf.align(4)).to.equal(0)
+      expect(cbuf.position).to.equal(4)
+      await cbuf.read(1)
+      expect(await cbuf.align(8, { verifyZero: true })).to.equal(3)
+      expect(await cbuf.readUInt8()).to.equal(2)
+    })
+
+    it('should measure boundaries from the base offset', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.alloc(16))
+      await cbuf.read(5)
+
+      expect(await cbuf.align(4, { base: 3 })).to.equal(2)
+      expect(cbuf.position).to.equal(7)
+      expect(await cbuf.align(4, { base: 9 })).to.equal(2)
+      expect(cbuf.position).to.equal(9)
+    })
+
+    it('should align relative to the start of a subview', async () => {
+      const view = new ConsumableBuffer(Buffer.alloc(16)).subview(3, 10)
+      await view.read(1)
+
+      expect(await view.align(4)).to.equal(3)
+      expect(view.position).to.equal(4)
+    })
+
+    it('should digest the skipped padding in attached observers', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.from([0x61, 0x00, 0x00, 0x00]))
+      const crc = cbuf.attach(new CRC32())
+      await cbuf.read(1)
+      await cbuf.align(4)
+
+      expect(crc.value).to.equal(crc32(Buffer.from([0x61, 0x00, 0x00, 0x00])))
+    })
+
+    it('should throw without consuming anything when verifying non-zero padding', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.from([0x61, 0x00, 0x07, 0x00]))
+      await cbuf.read(1)
+      let res = null
+      try {
+        await cbuf.align(4, { verifyZero: true })
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(Error)
+      expect(res.message).to.equal('Non-zero padding byte at offset 2.')
+      expect(cbuf.position).to.equal(1)
+    })
+
+    it('should throw a RangeError when the resource ends before the boundary', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.from([0x61, 0x00]))
+      await cbuf.read(1)
+      let res = null
+      try {
+        await cbuf.align(4)
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(RangeError)
+    })
+
+    it('should throw an Error when the boundary is not a positive integer', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.alloc(4))
+      let res = null
+      try {
+        await cbuf.align(0)
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(Error)
+      expect(res.message).to.equal('Boundary parameter must be a positive integer.')
+    })
+  })
+
+  describe('ExpandingResource.align()', () => {
+    it('should write fill bytes up to the next boundary', async () => {
+      const sbuf = new ExpandingBuffer()
+      await sbuf.write('abc')
+
+      expect(await sbuf.align(8, { fill: 0x20 })).to.equal(8)
+      expect(await sbuf.align(8)).to.equal(8)
+      await sbuf.write('d')
+      await sbuf.align(4)
+      expect(sbuf.buf.toString('hex')).to.equal('6162632020202020' + '64000000')
+    })
+
+    it('should measure boundaries from the base offset', async () => {
+      const sbuf = new ExpandingBuffer()
+      await sbuf.write('abcde')
+
+      expect(await sbuf.align(4, { fill: 0xFF, base: 2 })).to.equal(6)
+      expect(sbuf.buf[5]).to.equal(0xFF)
+    })
+
+    it('should throw a RangeError when the fill is not a single byte', async () => {
+      const sbuf = new ExpandingBuffer()
+      await sbuf.write('a')
+      let res = null
+      try {
+        await sbuf.align(4, { fill: 0x100 })
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(RangeError)
+      expect(res.message).to.equal('Fill must be a single byte value, from 0 to 255.')
+      expect(sbuf.position).to.equal(1)
+    })
+
+    it('should throw an Error when the base is not a non-negative integer', async () => {
+      const sbuf = new ExpandingBuffer()
+      let res = null
+      try {
+        await sbuf.align(4, { base: -1 })
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(Error)
+      expect(res.message).to.equal('Base option must be a non-negative integer.')
+    })
+  })
+})
@@ -0,0 +1,102 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { expect } from 'chai'
+import { BitReader } from './../src/BitReader'
+import { ConsumableBuffer } from './../src/ConsumableBuffer'
+
+describe('BitReader tests', () => {
+  const buf = Buffer.from([0b10110011, 0b01011100, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF])
+
+  describe('BitReader.readBits', () => {
+    it('should read bits most significant first by default', async () => {
+      const reader = new BitReader(new ConsumableBuffer(buf))
+
+      expect(await reader.readBits(1)).to.equal(1)
+      expect(await reader.readBits(3)).to.equal(0b011)
+      expect(await reader.readBits(8)).to.equal(0b00110101)
+      expect(await reader.readBit()).to.equal(1)
+    })
+
+    it('should read bits least significant first when asked to', async () => {
+      const reader = new BitReader(new ConsumableBuffer(buf), 'LSB')
+
+      expect(await reader.readBits(1)).to.equal(1)
+      expect(await reader.readBits(3)).to.equal(0b001)
+      expect(await reader.readBits(8)).to.equal(0b11001011)
+    })
+
+    it('should read values wider than 32 bits', async () => {
+      const reader = new BitReader(new ConsumableBuffer(buf))
+      await reader.readBits(16)
+
+      expect(await reader.readBits(53)).to.equal(Number.MAX_SAFE_INTEGER)
+    })
+
+    it('should only consume bytes from the resource as they are needed', async () => {
+      const cbuf = new ConsumableBuffer(buf)
+      const reader = new BitReader(cbuf)
+
+      await reader.readBits(4)
+      expect(cbuf.buf.length).to.equal(9)
+      await reader.readBits(5)
+      expect(cbuf.buf.length).to.equal(8)
+    })
+
+    it('should throw a RangeError when asked for more than 53 bits', async () => {
+      let res = null
+      try {
+        await new BitReader(new ConsumableBuffer(buf)).readBits(54)
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(RangeError)
+      expect(res.message).to.equal('Bits parameter must be an integer between 0 and 53.')
+    })
+
+    it('should throw a RangeError when the resource is exhausted', async () => {
+      let res = null
+      const reader = new BitReader(new ConsumableBuffer(Buffer.from([0x01])))
+      try {
+        await reader.readBits(9)
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(RangeError)
+    })
+  })
+
+  describe('BitReader.readBigBits', () => {
+    it('should read 64 bits as a bigint', async () => {
+      const reader = new BitReader(new ConsumableBuffer(buf))
+      await reader.readBits(16)
+
+      expect(await reader.readBigBits(64)).to.equal(BigInt('18446744073709551615'))
+    })
+
+    it('should assemble bigints in the configured bit order', async () => {
+      const msb = new BitReader(new ConsumableBuffer(Buffer.from([0x01, 0x00, 0x00, 0x00, 0x02])))
+      expect(await msb.readBigBits(40)).to.equal(BigInt('0x0100000002'))
+
+      const lsb = new BitReader(new ConsumableBuffer(Buffer.from([0x01, 0x00, 0x00, 0x00, 0x02])), 'LSB')
+      expect(await lsb.readBigBits(40)).to.equal(BigInt('0x0200000001'))
+    })
+  })
+
+  describe('BitReader.align', () => {
+    it('should discard the rest of the current byte', async () => {
+      const reader = new BitReader(new ConsumableBuffer(buf))
+
+      await reader.readBits(3)
+      expect(reader.aligned).to.equal(false)
+      reader.align()
+      expect(reader.aligned).to.equal(true)
+      expect(await reader.readBits(8)).to.equal(0b01011100)
+    })
+  })
+})
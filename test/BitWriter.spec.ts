@@ -0,0 +1,84 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { expect } from 'chai'
+import { BitReader } from './../src/BitReader'
+import { BitWriter } from './../src/BitWriter'
+import { ConsumableBuffer } from './../src/ConsumableBuffer'
+import { ExpandingBuffer } from './../src/ExpandingBuffer'
+
+describe('BitWriter tests', () => {
+  let sbuf: ExpandingBuffer
+  beforeEach(() => {
+    sbuf = new ExpandingBuffer()
+  })
+
+  describe('BitWriter.writeBits', () => {
+    it('should write bits most significant first by default', async () => {
+      const writer = new BitWriter(sbuf)
+
+      await writer.writeBits(1, 1)
+      await writer.writeBits(0b011, 3)
+      await writer.writeBits(0b00110101, 8)
+      await writer.writeBit(true)
+      await writer.align()
+
+      expect(Buffer.compare(sbuf.buf, Buffer.from([0b10110011, 0b01011000]))).to.equal(0)
+    })
+
+    it('should write bits least significant first when asked to', async () => {
+      const writer = new BitWriter(sbuf, 'LSB')
+
+      await writer.writeBits(1, 1)
+      await writer.writeBits(0b001, 3)
+      await writer.writeBits(0b11001011, 8)
+      await writer.align()
+
+      expect(Buffer.compare(sbuf.buf, Buffer.from([0b10110011, 0b00001100]))).to.equal(0)
+    })
+
+    it('should only write whole bytes until aligned', async () => {
+      const writer = new BitWriter(sbuf)
+
+      await writer.writeBits(0x1FF, 9)
+      expect(sbuf.position).to.equal(1)
+      expect(writer.aligned).to.equal(false)
+      await writer.align()
+      expect(sbuf.position).to.equal(2)
+      expect(writer.aligned).to.equal(true)
+    })
+
+    it('should throw a RangeError when the value does not fit the number of bits', async () => {
+      let res = null
+      try {
+        await new BitWriter(sbuf).writeBits(8, 3)
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(RangeError)
+      expect(res.message).to.equal('Value must be an unsigned integer that fits within 3 bits.')
+    })
+  })
+
+  describe('BitWriter.writeBigBits', () => {
+    it('should round-trip wide values through BitReader in both bit orders', async () => {
+      const value = BigInt('0x1234567890ABCDEF1')
+      for (const order of ['MSB', 'LSB'] as const) {
+        sbuf = new ExpandingBuffer()
+        const writer = new BitWriter(sbuf, order)
+        await writer.writeBits(0b101, 3)
+        await writer.writeBigBits(value, 69)
+        await writer.align()
+
+        const reader = new BitReader(new ConsumableBuffer(sbuf.buf), order)
+        expect(await reader.readBits(3)).to.equal(0b101)
+        expect(await reader.readBigBits(69)).to.equal(value)
+      }
+    })
+  })
+})
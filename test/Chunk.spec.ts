@@ -0,0 +1,178 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { expect } from 'chai'
+import { IFF_FORMAT, PNG_FORMAT, RIFF_FORMAT } from './../src/Chunk'
+import { ChunkReader } from './../src/ChunkReader'
+import { ChunkWriter } from './../src/ChunkWriter'
+import { ConsumableBuffer } from './../src/ConsumableBuffer'
+import { ExpandingBuffer } from './../src/ExpandingBuffer'
+
+describe('Chunk tests', () => {
+  describe('RIFF chunk streams', () => {
+    let riff: Buffer
+    before(async () => {
+      const sbuf = new ExpandingBuffer()
+      const writer = new ChunkWriter(sbuf, RIFF_FORMAT)
+      await writer.begin('RIFF', 'WAVE')
+      await writer.writeChunk('fmt ', Buffer.from([0x01, 0x00, 0x02, 0x00]))
+      await writer.begin('LIST', 'INFO')
+      await writer.writeChunk('INAM', 'odd')
+      await writer.end()
+      await writer.begin('data')
+      await sbuf.write(Buffer.from([0x10, 0x20, 0x30]))
+      await writer.finish()
+      riff = sbuf.buf
+    })
+
+    it('should back-patch lengths and pad chunks to even offsets', () => {
+      expect(riff.toString('latin1', 0, 4)).to.equal('RIFF')
+      expect(riff.readUInt32LE(4)).to.equal(riff.length - 8)
+      expect(riff.toString('latin1', 8, 12)).to.equal('WAVE')
+      expect(riff.toString('latin1', 24, 28)).to.equal('LIST')
+      expect(riff.readUInt32LE(28)).to.equal(16)
+      expect(riff.toString('latin1', 44, 48)).to.equal('odd\0')
+      expect(riff.readUInt32LE(52)).to.equal(3)
+      expect(riff.length).to.equal(60)
+    })
+
+    it('should iterate chunks and descend into containers', async () => {
+      const reader = new ChunkReader(new ConsumableBuffer(riff), RIFF_FORMAT)
+      const [top] = await reader.list()
+      expect(top.tag).to.equal('RIFF')
+      expect(top.formType).to.equal('WAVE')
+      expect(top.length).to.equal(52)
+
+      const chunks = await reader.children(top).list()
+      expect(chunks.map(chunk => chunk.tag)).to.deep.equal(['fmt ', 'LIST', 'data'])
+      expect(chunks.map(chunk => chunk.offset)).to.deep.equal([0, 12, 36])
+      expect(await chunks[0].data.peekNumeric('uint16le')).to.equal(1)
+
+      const info = await reader.children(chunks[1]).list()
+      expect(info.map(chunk => chunk.tag)).to.deep.equal(['INAM'])
+      expect((await reader.read(info[0])).toString()).to.equal('odd')
+      expect(Buffer.compare(await reader.read(chunks[2]), Buffer.from([0x10, 0x20, 0x30]))).to.equal(0)
+    })
+
+    it('should tolerate missing padding after the last chunk', async () => {
+      const chunks = await new ChunkReader(new ConsumableBuffer(Buffer.from('abcd\x03\0\0\0xyz', 'latin1')), RIFF_FORMAT).list()
+      expect(chunks.map(chunk => [chunk.tag, chunk.length])).to.deep.equal([['abcd', 3]])
+    })
+
+    it('should refuse to descend into chunks that are not containers', async () => {
+      const reader = new ChunkReader(new ConsumableBuffer(riff), RIFF_FORMAT)
+      const [top] = await reader.list()
+      const [fmt] = await reader.children(top).list()
+      expect(() => reader.children(fmt)).to.throw('Chunk "fmt " is not a container.')
+    })
+  })
+
+  describe('PNG chunk streams', () => {
+    it('should write and verify CRC-32s covering the tag', async () => {
+      const sbuf = new ExpandingBuffer()
+      const writer = new ChunkWriter(sbuf, PNG_FORMAT)
+      await writer.begin('tEXt')
+      await sbuf.write('Comment\0hello')
+      expect(await writer.end()).to.equal(13)
+      await writer.writeChunk('IEND', Buffer.alloc(0))
+
+      // the IEND chunk of every PNG
+      expect(sbuf.buf.subarray(sbuf.buf.length - 12).toString('hex')).to.equal('0000000049454e44ae426082')
+
+      const reader = new ChunkReader(new ConsumableBuffer(sbuf.buf), PNG_FORMAT)
+      const chunks = await reader.list()
+      expect(chunks.map(chunk => chunk.tag)).to.deep.equal(['tEXt', 'IEND'])
+      expect(chunks[1].crc).to.equal(0xAE426082)
+      expect((await reader.read(chunks[0])).toString()).to.equal('Comment\0hello')
+    })
+
+    it('should throw when a payload does not match its CRC-32', async () => {
+      const sbuf = new ExpandingBuffer()
+      await new ChunkWriter(sbuf, PNG_FORMAT).writeChunk('tEXt', 'abc')
+      const png = Buffer.from(sbuf.buf)
+      png[8] = 0x78
+
+      const reader = new ChunkReader(new ConsumableBuffer(png), PNG_FORMAT)
+      let res = null
+      try {
+        await reader.read((await reader.list())[0])
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(Error)
+      expect(res.message).to.equal('CRC-32 mismatch for chunk "tEXt" at offset 0.')
+    })
+
+    it('should refuse to begin chunks within a chunk that has a CRC-32', async () => {
+      const writer = new ChunkWriter(new ExpandingBuffer(), { ...PNG_FORMAT, containers: ['cont'] })
+      await writer.begin('cont', 'form')
+      let res = null
+      try {
+        await writer.begin('abcd')
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(Error)
+      expect(res.message).to.equal('Chunk "abcd" cannot be begun within a chunk with a CRC-32; write it whole with ChunkWriter.writeChunk() instead.')
+    })
+  })
+
+  describe('other layouts', () => {
+    it('should handle 64-bit lengths that include the header', async () => {
+      const format = { tagSize: 2, lengthType: 'uint64be' as const, lengthIncludesHeader: true, align: 8 }
+      const sbuf = new ExpandingBuffer()
+      const writer = new ChunkWriter(sbuf, format)
+      await writer.writeChunk('ab', 'xyz')
+      await writer.begin('cd')
+      await sbuf.write('12345')
+      await writer.end()
+
+      expect(sbuf.buf.readBigUInt64BE(2)).to.equal(BigInt(13))
+      expect(sbuf.buf.length).to.equal(32)
+
+      const chunks = await new ChunkReader(new ConsumableBuffer(sbuf.buf), format).list()
+      expect(chunks.map(chunk => [chunk.tag, chunk.offset, chunk.length])).to.deep.equal([['ab', 0, 3], ['cd', 16, 5]])
+    })
+
+    it('should throw for tags of the wrong size', async () => {
+      const writer = new ChunkWriter(new ExpandingBuffer(), IFF_FORMAT)
+      let res = null
+      try {
+        await writer.writeChunk('CAT', 'x')
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(TypeError)
+      expect(res.message).to.equal('Chunk tag "CAT" must be exactly 4 bytes.')
+    })
+
+    it('should throw for invalid formats', () => {
+      expect(() => new ChunkReader(new ConsumableBuffer(Buffer.alloc(0)), { lengthType: 'float32le' })).to.throw(TypeError, 'Chunk length type must be an unsigned integer type, received "float32le".')
+      expect(() => new ChunkWriter(new ExpandingBuffer(), { align: 0 })).to.throw(TypeError, 'Chunk alignment must be a positive integer.')
+    })
+
+    it('should throw for truncated chunk streams', async () => {
+      let res = null
+      try {
+        await new ChunkReader(new ConsumableBuffer(Buffer.from('FORM\0\0\0\x10ILBM', 'latin1')), IFF_FORMAT).list()
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(RangeError)
+      expect(res.message).to.equal('Chunk "FORM" at offset 0 extends beyond the end of the resource.')
+
+      res = null
+      try {
+        await new ChunkReader(new ConsumableBuffer(Buffer.from('abcd\0\0\0\0abc', 'latin1'))).list()
+      } catch (err) {
+        res = err
+      }
+      expect(res.message).to.equal('Truncated chunk stream; expected a chunk header at offset 8.')
+    })
+  })
+})
@@ -0,0 +1,193 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { expect } from 'chai'
+import * as fs from 'fs'
+import * as path from 'path'
+import * as zlib from 'zlib'
+import { CompressedConsumableResource } from './../src/CompressedConsumableResource'
+import { CompressedExpandingResource } from './../src/CompressedExpandingResource'
+import { CompressionFormat, createCompressor } from './../src/Compression'
+import { ConsumableBuffer } from './../src/ConsumableBuffer'
+import { ConsumableFile } from './../src/ConsumableFile'
+import { ExpandingBuffer } from './../src/ExpandingBuffer'
+import { ExpandingFile } from './../src/ExpandingFile'
+import { CRC32, crc32 } from './../src/Hashes'
+import { StreamPipeline } from './../src/StreamPipeline'
+
+describe('Compression tests', () => {
+  const text = Buffer.from('This is a test, this is only a test. '.repeat(200))
+  const formats: CompressionFormat[] = ['deflate', 'deflateRaw', 'gzip', 'brotli']
+
+  describe('CompressedExpandingResource', () => {
+    it('should compress into the target in each format', async () => {
+      const decompress = {
+        deflate: zlib.inflateSync,
+        deflateRaw: zlib.inflateRawSync,
+        gzip: zlib.gunzipSync,
+        brotli: zlib.brotliDecompressSync
+      }
+
+      for (const format of formats) {
+        const sbuf = new ExpandingBuffer()
+        const compressed = new CompressedExpandingResource(sbuf, { format })
+        await compressed.write(text.slice(0, 100))
+        await compressed.writeUInt32(0xDEADBEEF)
+        await compressed.write(text.slice(100))
+        await compressed.close()
+
+        const expected = Buffer.concat([text.slice(0, 100), Buffer.from([0xEF, 0xBE, 0xAD, 0xDE]), text.slice(100)])
+        expect(Buffer.compare(decompress[format](sbuf.buf), expected)).to.equal(0)
+        expect(compressed.position).to.equal(expected.length)
+        expect(compressed.compressedPosition).to.equal(sbuf.position)
+        expect(compressed.compressedPosition).to.be.below(compressed.position)
+      }
+    })
+
+    it('should write after whatever the target already holds, and leave the target open', async () => {
+      const filePath = path.join(__dirname, '/samples/CompressionTest.bin')
+      const sfile = new ExpandingFile(filePath)
+      await sfile.open()
+      await sfile.write('HEAD')
+      const compressed = new CompressedExpandingResource(sfile, { format: 'deflateRaw', level: 9 })
+      await compressed.write(text)
+      await compressed.close()
+      await sfile.write('TAIL')
+      await sfile.close()
+
+      const written = await fs.promises.readFile(filePath)
+      await fs.promises.unlink(filePath)
+      expect(written.slice(0, 4).toString()).to.equal('HEAD')
+      expect(written.slice(-4).toString()).to.equal('TAIL')
+      expect(Buffer.compare(zlib.inflateRawSync(written.slice(4, -4)), text)).to.equal(0)
+    })
+
+    it('should let hash observers digest the uncompressed bytes', async () => {
+      const compressed = new CompressedExpandingResource(new ExpandingBuffer())
+      const crc = compressed.attach(new CRC32())
+      await compressed.write(text)
+      await compressed.close()
+
+      expect(crc.value).to.equal(crc32(text))
+    })
+
+    it('should refuse positioned writes, placeholders and writes after closing', async () => {
+      const compressed = new CompressedExpandingResource(new ExpandingBuffer())
+      const attempt = async (action: () => Promise<any>): Promise<any> => {
+        try {
+          await action()
+        } catch (err) {
+          return err
+        }
+      }
+
+      expect((await attempt(async () => await compressed.writeAt())).message).to.equal('CompressedExpandingResource does not support positioned writes.')
+      expect((await attempt(async () => await compressed.reserve())).message).to.equal('CompressedExpandingResource does not support reserving placeholders.')
+      await compressed.close()
+      expect((await attempt(async () => await compressed.write('x'))).message).to.equal('Compressed resource has already been closed.')
+    })
+
+    it('should throw for unsupported formats', () => {
+      expect(() => new CompressedExpandingResource(new ExpandingBuffer(), { format: 'lzma' as CompressionFormat })).to.throw(TypeError, 'Unsupported compression format "lzma".')
+    })
+  })
+
+  describe('CompressedConsumableResource', () => {
+    it('should decompress the source in each format', async () => {
+      for (const format of formats) {
+        const compressor = createCompressor(format)
+        const compressed: Buffer[] = []
+        compressor.on('data', (chunk: Buffer) => compressed.push(chunk))
+        compressor.end(text)
+        await new Promise(resolve => compressor.on('end', resolve))
+
+        const cbuf = new ConsumableBuffer(Buffer.concat(compressed))
+        const decompressed = new CompressedConsumableResource(cbuf, { format })
+        expect((await decompressed.read(4)).toString()).to.equal('This')
+        await decompressed.seek(1)
+        expect((await decompressed.read(text.length - 5)).toString()).to.equal(text.slice(5).toString())
+        expect(decompressed.position).to.equal(text.length)
+        expect(decompressed.compressedPosition).to.equal(cbuf.length)
+      }
+    })
+
+    it('should decompress a region of a file via a subview', async () => {
+      const filePath = path.join(__dirname, '/samples/CompressionTest.gz')
+      const gzipped = zlib.gzipSync(text)
+      await fs.promises.writeFile(filePath, Buffer.concat([Buffer.from('HEAD'), gzipped, Buffer.from('TAIL')]))
+      const cfile = new ConsumableFile(filePath)
+      await cfile.open()
+      try {
+        const decompressed = new CompressedConsumableResource(cfile.subview(4, gzipped.length), { format: 'gzip', history: 16 })
+        const crc = decompressed.attach(new CRC32())
+        const chunks: Buffer[] = []
+        for await (const chunk of decompressed) {
+          chunks.push(chunk)
+        }
+
+        expect(Buffer.compare(Buffer.concat(chunks), text)).to.equal(0)
+        expect(crc.value).to.equal(crc32(text))
+        expect(decompressed.length).to.equal(text.length)
+        await decompressed.seek(-16)
+        expect((await decompressed.read(16)).toString()).to.equal(text.slice(-16).toString())
+      } finally {
+        await cfile.close()
+        await fs.promises.unlink(filePath)
+      }
+    })
+
+    it('should surface corrupt data through reads', async () => {
+      const decompressed = new CompressedConsumableResource(new ConsumableBuffer(Buffer.from('definitely not deflate')))
+      let res = null
+      try {
+        await decompressed.read(4)
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(Error)
+    })
+  })
+
+  describe('StreamPipeline.pump compression', () => {
+    const filePath = path.join(__dirname, '/samples/CompressionPipelineTest.bin')
+    const sourcePath = path.join(__dirname, '/samples/CompressionPipelineSource.txt')
+    let sbuf: ExpandingFile
+    let sfile: StreamPipeline
+    beforeEach(async () => {
+      await fs.promises.writeFile(sourcePath, text)
+      sbuf = new ExpandingFile(filePath)
+      sfile = new StreamPipeline()
+      await sbuf.open()
+      await sfile.load(sbuf)
+    })
+
+    afterEach(async () => {
+      await sbuf.close()
+      await fs.promises.unlink(filePath)
+      await fs.promises.unlink(sourcePath)
+    })
+
+    it('should compress pumped files and buffers on the fly', async () => {
+      const first = await sfile.pump(sourcePath, 5, 100, { compress: 'deflateRaw' })
+      expect(first.offset).to.equal(0)
+      expect(first.read).to.equal(100)
+      const second = await sfile.pump(text, undefined, undefined, { compress: 'gzip', level: 1 })
+      expect(second.offset).to.equal(first.wrote)
+      expect(second.read).to.equal(text.length)
+      const third = await sfile.pump(sourcePath)
+      expect(third.read).to.equal(third.wrote)
+      await sbuf.close()
+
+      const written = await fs.promises.readFile(filePath)
+      expect(written.length).to.equal(first.wrote + second.wrote + third.wrote)
+      expect(Buffer.compare(zlib.inflateRawSync(written.slice(0, first.wrote)), text.slice(5, 105))).to.equal(0)
+      expect(Buffer.compare(zlib.gunzipSync(written.slice(first.wrote, third.offset)), text)).to.equal(0)
+      expect(Buffer.compare(written.slice(third.offset), text)).to.equal(0)
+    })
+  })
+})
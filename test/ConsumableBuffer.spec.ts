@@ -53,6 +53,81 @@ describe('ConsumableBuffer tests', () => {
     })
   })
 
+  describe('ConsumableBuffer.peek', () => {
+    it('should return upcoming bytes without consuming them', async () => {
+      let res = null
+
+      res = await sbuf.peek(2)
+      expect(res.toString()).to.equal('IN')
+
+      res = await sbuf.read(3)
+      expect(res.toString()).to.equal('IND')
+
+      res = await sbuf.peekNumeric('uint16be')
+      expect(res).to.equal(0x4558)
+      expect(sbuf.buf.length).to.equal(2)
+    })
+
+    it('should throw a RangeError when peeking beyond the buffer', async () => {
+      let res = null
+      try {
+        await sbuf.peek(6)
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(RangeError)
+      expect(res.message).to.equal('Buffer exhausted; attempted to peek beyond buffer.')
+    })
+  })
+
+  describe('ConsumableBuffer position introspection', () => {
+    it('should track position, length and remaining bytes against the original buffer', async () => {
+      expect(sbuf.position).to.equal(0)
+      expect(sbuf.length).to.equal(5)
+      expect(sbuf.remaining()).to.equal(5)
+      expect(sbuf.eof()).to.equal(false)
+
+      await sbuf.read(2)
+      await sbuf.seek(1)
+      expect(sbuf.position).to.equal(3)
+      expect(sbuf.remaining()).to.equal(2)
+
+      await sbuf.read(2)
+      expect(sbuf.eof()).to.equal(true)
+
+      await sbuf.aseek(1)
+      expect(sbuf.position).to.equal(1)
+    })
+  })
+
+  describe('ConsumableBuffer.subview', () => {
+    it('should create a bounded view sharing the original buffer', async () => {
+      await sbuf.read(4)
+      const view = sbuf.subview(1, 3)
+
+      expect(view.position).to.equal(0)
+      expect(view.length).to.equal(3)
+      expect((await view.read(3)).toString()).to.equal('NDE')
+      expect(view.buf.buffer).to.equal(buf.buffer)
+      expect(sbuf.position).to.equal(4)
+    })
+
+    it('should not allow reading beyond the end of the view', async () => {
+      let res = null
+      const view = sbuf.subview(0, 2)
+      try {
+        await view.read(3)
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(RangeError)
+    })
+
+    it('should throw a RangeError when the view extends beyond the buffer', async () => {
+      expect(() => sbuf.subview(3, 3)).to.throw(RangeError, 'Subview extends beyond the resource.')
+    })
+  })
+
   describe('ConsumableBuffer.reset', () => {
     it('should return undefined on reset', async () => {
       let res = null
@@ -163,4 +238,137 @@ describe('ConsumableBuffer tests', () => {
       expect(res.message).to.equal('Buffer exhausted; attempted to seek beyond buffer.')
     })
   })
+
+  describe('ConsumableBuffer typed readers', () => {
+    const numBuf = Buffer.from([
+      0x01, 0xFE, 0x34, 0x12, 0x12, 0x34, 0x56, 0x34, 0x12,
+      0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF,
+      0x00, 0x00, 0x80, 0x3F, 0x3F, 0xF0, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00
+    ])
+    let nbuf: ConsumableBuffer
+    beforeEach(() => {
+      nbuf = new ConsumableBuffer(numBuf)
+    })
+
+    it('should read integers of each width and endianness', async () => {
+      expect(await nbuf.readUInt8()).to.equal(0x01)
+      expect(await nbuf.readInt8()).to.equal(-2)
+      expect(await nbuf.readUInt16LE()).to.equal(0x1234)
+      expect(await nbuf.readUInt16BE()).to.equal(0x1234)
+      expect(await nbuf.readUInt24LE()).to.equal(0x123456)
+    })
+
+    it('should read 64-bit integers as bigints', async () => {
+      await nbuf.seek(9)
+      expect(await nbuf.readBigUInt64LE()).to.equal(BigInt('18446744073709551615'))
+
+      await nbuf.aseek(9)
+      expect(await nbuf.readBigInt64BE()).to.equal(BigInt(-1))
+    })
+
+    it('should read floats and doubles', async () => {
+      await nbuf.seek(17)
+      expect(await nbuf.readFloatLE()).to.equal(1)
+      expect(await nbuf.readDoubleBE()).to.equal(1)
+    })
+
+    it('should read any numeric type through readNumeric', async () => {
+      await nbuf.seek(2)
+      expect(await nbuf.readNumeric('int16le')).to.equal(0x1234)
+    })
+
+    it('should throw a TypeError for an unknown numeric type', async () => {
+      let res = null
+      try {
+        await nbuf.readNumeric('uint12' as any)
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(TypeError)
+      expect(res.message).to.equal('Unknown numeric type "uint12".')
+    })
+
+    it('should throw a RangeError when the value extends beyond the buffer', async () => {
+      let res = null
+      await nbuf.seek(26)
+      try {
+        await nbuf.readUInt32LE()
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(RangeError)
+      expect(res.message).to.equal('Buffer exhausted; attempted to read beyond buffer.')
+    })
+  })
+
+  describe('ConsumableBuffer chunk iteration', () => {
+    it('should yield fixed-size chunks from the current position, advancing it', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.from('This is a test'))
+      await cbuf.seek(5)
+
+      const chunks: string[] = []
+      for await (const chunk of cbuf.chunks(4)) {
+        chunks.push(chunk.toString())
+      }
+
+      expect(chunks).to.deep.equal(['is a', ' tes', 't'])
+      expect(cbuf.eof()).to.equal(true)
+    })
+
+    it('should stop at the given end bound', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.from('This is a test'))
+
+      const chunks: string[] = []
+      for await (const chunk of cbuf.chunks(3, 7)) {
+        chunks.push(chunk.toString())
+      }
+
+      expect(chunks).to.deep.equal(['Thi', 's i', 's'])
+      expect(cbuf.position).to.equal(7)
+    })
+
+    it('should be async iterable', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.from('TEST'))
+
+      const chunks: Buffer[] = []
+      for await (const chunk of cbuf) {
+        chunks.push(chunk)
+      }
+
+      expect(chunks).to.have.lengthOf(1)
+      expect(chunks[0].toString()).to.equal('TEST')
+    })
+
+    it('should throw for invalid sizes and end bounds', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.from('TEST'))
+      await cbuf.seek(2)
+
+      const attempt = async (size?: number, end?: number): Promise<any> => {
+        try {
+          await cbuf.chunks(size, end).next()
+        } catch (err) {
+          return err
+        }
+      }
+
+      expect((await attempt(0)).message).to.equal('Size parameter must be a positive integer.')
+      expect(await attempt(1, 1)).to.be.an.instanceof(RangeError)
+      expect(await attempt(1, 5)).to.be.an.instanceof(RangeError)
+    })
+  })
+
+  describe('ConsumableBuffer.toReadable', () => {
+    it('should adapt the rest of the buffer into a Readable stream', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.from('This is a test'))
+      await cbuf.seek(5)
+
+      const received: Buffer[] = []
+      for await (const chunk of cbuf.toReadable(4)) {
+        received.push(chunk)
+      }
+
+      expect(Buffer.concat(received).toString()).to.equal('is a test')
+      expect(cbuf.eof()).to.equal(true)
+    })
+  })
 })
@@ -115,6 +115,111 @@ describe('ConsumableFile tests', () => {
       })
     })
 
+    describe('ConsumableFile position introspection', () => {
+      it('should track position, length and remaining bytes within the file', async () => {
+        expect(sbuf.length).to.equal(39)
+        expect(sbuf.remaining()).to.equal(39)
+        expect(sbuf.eof()).to.equal(false)
+
+        await sbuf.read(30)
+        expect(sbuf.remaining()).to.equal(9)
+
+        await sbuf.seek(9)
+        expect(sbuf.position).to.equal(39)
+        expect(sbuf.eof()).to.equal(true)
+
+        await sbuf.aseek(0)
+        expect(sbuf.position).to.equal(0)
+      })
+
+      it('should report a length of zero once closed', async () => {
+        await sbuf.close()
+        expect(sbuf.length).to.equal(0)
+        expect(sbuf.eof()).to.equal(true)
+      })
+
+      it('should leave the position untouched when a seek fails', async () => {
+        await sbuf.aseek(10)
+        try {
+          await sbuf.seek(44)
+        } catch (err) {}
+        expect(sbuf.position).to.equal(10)
+      })
+    })
+
+    describe('ConsumableFile.subview', () => {
+      it('should create a bounded view sharing the file handle', async () => {
+        const view = sbuf.subview(10, 9)
+
+        expect(view.fh).to.equal(sbuf.fh)
+        expect(view.length).to.equal(9)
+        expect((await view.read(4)).toString()).to.equal('test')
+        expect(view.position).to.equal(4)
+        expect((await view.peek(5)).toString()).to.equal(' file')
+        expect(sbuf.position).to.equal(0)
+      })
+
+      it('should map nested views onto the underlying file', async () => {
+        const view = sbuf.subview(10, 9).subview(5, 4)
+        await view.aseek(1)
+
+        expect((await view.read(3)).toString()).to.equal('ile')
+      })
+
+      it('should catch reads beyond the end of the view', async () => {
+        let res = null
+        const view = sbuf.subview(10, 4)
+        try {
+          await view.read(5)
+        } catch (err) {
+          res = err
+        }
+        expect(res).to.be.an.instanceof(RangeError)
+        expect(res.message).to.equal('File exhausted; attempted to read beyond file.')
+      })
+
+      it('should leave the shared file handle open when the view is closed', async () => {
+        const view = sbuf.subview(0, 4)
+        await view.close()
+
+        expect((await sbuf.read(4)).toString()).to.equal('This')
+      })
+
+      it('should throw a RangeError when the view extends beyond the file', async () => {
+        expect(() => sbuf.subview(30, 10)).to.throw(RangeError, 'Subview extends beyond the resource.')
+      })
+    })
+
+    describe('ConsumableFile.peek', () => {
+      it('should return upcoming bytes without advancing the file position', async () => {
+        let res = null
+
+        await sbuf.aseek(1)
+        res = await sbuf.peek(2)
+        expect(res.toString()).to.equal('hi')
+        expect(sbuf.position).to.equal(1)
+
+        res = await sbuf.peekNumeric('uint8')
+        expect(res).to.equal(0x68)
+
+        res = await sbuf.read(2)
+        expect(res.toString()).to.equal('hi')
+      })
+
+      it('should throw a RangeError when peeking beyond the file\'s contents', async () => {
+        let res = null
+        await sbuf.seek(38)
+        try {
+          await sbuf.peek(2)
+        } catch (err) {
+          res = err
+        }
+        expect(res).to.be.an.instanceof(RangeError)
+        expect(res.message).to.equal('File exhausted; attempted to peek beyond file.')
+        expect(sbuf.position).to.equal(38)
+      })
+    })
+
     describe('ConsumableFile.seek', () => {
       it('should seek forward the given number of bytes within the file when calling seek', async () => {
         let res = null
@@ -224,5 +329,148 @@ describe('ConsumableFile tests', () => {
         expect(res.message).to.equal('File exhausted; attempted to seek beyond file.')
       })
     })
+
+    describe('ConsumableFile typed readers', () => {
+      let nfile: ConsumableFile
+      beforeEach(async () => {
+        nfile = new ConsumableFile(path.join(__dirname, '/samples/NumericTest.bin'))
+        await nfile.open()
+      })
+      afterEach(async () => {
+        await nfile.close()
+      })
+
+      it('should read integers of each width and endianness', async () => {
+        expect(await nfile.readUInt8()).to.equal(0x01)
+        expect(await nfile.readInt8()).to.equal(-2)
+        expect(await nfile.readUInt16LE()).to.equal(0x1234)
+        expect(await nfile.readInt16BE()).to.equal(0x1234)
+        expect(await nfile.readInt24LE()).to.equal(0x123456)
+        expect(await nfile.readUInt32BE()).to.equal(0x78563412)
+        expect(nfile.position).to.equal(13)
+      })
+
+      it('should read 64-bit integers as bigints', async () => {
+        await nfile.aseek(13)
+        expect(await nfile.readBigInt64LE()).to.equal(BigInt(-1))
+      })
+
+      it('should read floats and doubles', async () => {
+        await nfile.aseek(21)
+        expect(await nfile.readFloatLE()).to.equal(1)
+        expect(await nfile.readDoubleBE()).to.equal(1)
+      })
+
+      it('should throw a RangeError when the value extends beyond the file', async () => {
+        let res = null
+        await nfile.aseek(30)
+        try {
+          await nfile.readDoubleLE()
+        } catch (err) {
+          res = err
+        }
+        expect(res).to.be.an.instanceof(RangeError)
+        expect(res.message).to.equal('File exhausted; attempted to read beyond file.')
+      })
+    })
+  })
+
+  describe('ConsumableFile read-ahead', () => {
+    let rfile: ConsumableFile
+    beforeEach(async () => {
+      rfile = new ConsumableFile(filePath, { readAhead: 8 })
+      await rfile.open()
+    })
+
+    afterEach(async () => {
+      await rfile.close()
+    })
+
+    it('should serve small reads from the window, refilling it transparently', async () => {
+      expect((await rfile.read(2)).toString()).to.equal('Th')
+      const window = rfile.window
+      expect(window?.length).to.equal(8)
+
+      expect((await rfile.read(4)).toString()).to.equal('is i')
+      expect(rfile.window).to.equal(window)
+
+      expect((await rfile.read(4)).toString()).to.equal('s a ')
+      expect(rfile.window).to.not.equal(window)
+      expect(rfile.windowStart).to.equal(6)
+      expect(rfile.position).to.equal(10)
+    })
+
+    it('should shrink the window to fit the end of the file', async () => {
+      await rfile.aseek(36)
+      expect((await rfile.read(3)).toString()).to.equal('le.')
+      expect(rfile.window?.length).to.equal(3)
+      expect(rfile.eof()).to.equal(true)
+    })
+
+    it('should serve peeks from the window without consuming', async () => {
+      await rfile.read(1)
+      expect((await rfile.peek(3)).toString()).to.equal('his')
+      expect(rfile.windowStart).to.equal(0)
+      expect(rfile.position).to.equal(1)
+      expect((await rfile.read(3)).toString()).to.equal('his')
+    })
+
+    it('should read straight from the file when reading more than the window holds', async () => {
+      expect((await rfile.read(10)).toString()).to.equal('This is a ')
+      expect(rfile.window).to.equal(undefined)
+    })
+
+    it('should keep the window for seeks within it, and discard it otherwise', async () => {
+      await rfile.read(2)
+      await rfile.seek(3)
+      expect(rfile.window).to.not.equal(undefined)
+      await rfile.seek(-5)
+      expect(rfile.window).to.not.equal(undefined)
+      expect((await rfile.read(1)).toString()).to.equal('T')
+
+      await rfile.aseek(20)
+      expect(rfile.window).to.equal(undefined)
+      expect((await rfile.read(4)).toString()).to.equal('for ')
+
+      await rfile.reset()
+      expect(rfile.window).to.equal(undefined)
+      expect((await rfile.read(4)).toString()).to.equal('This')
+    })
+
+    it('should hand out copies that cannot corrupt the window', async () => {
+      const buf = await rfile.peek(2)
+      buf.fill(0)
+      expect((await rfile.read(2)).toString()).to.equal('Th')
+    })
+
+    it('should give subviews a read-ahead window of their own', async () => {
+      const view = rfile.subview(10, 4)
+      expect(view.readAhead).to.equal(8)
+      expect((await view.read(4)).toString()).to.equal('test')
+      expect(view.window?.length).to.equal(4)
+    })
+
+    it('should throw when given an invalid read-ahead size', () => {
+      expect(() => new ConsumableFile(filePath, { readAhead: -1 })).to.throw('readAhead option must be a positive integer.')
+    })
+  })
+
+  describe('ConsumableFile chunk iteration', () => {
+    it('should iterate over the file in chunks, and adapt into a Readable', async () => {
+      await sbuf.open()
+      await sbuf.aseek(10)
+
+      const chunks: string[] = []
+      for await (const chunk of sbuf.chunks(8, 29)) {
+        chunks.push(chunk.toString())
+      }
+      expect(chunks).to.deep.equal(['test fil', 'e for Co', 'nsu'])
+
+      const received: Buffer[] = []
+      for await (const chunk of sbuf.toReadable()) {
+        received.push(chunk)
+      }
+      expect(Buffer.concat(received).toString()).to.equal('mableFile.')
+    })
   })
 })
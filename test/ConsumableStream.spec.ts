@@ -0,0 +1,236 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { expect } from 'chai'
+import * as fs from 'fs'
+import * as path from 'path'
+import { PassThrough, Readable } from 'stream'
+import { ConsumableStream } from './../src/ConsumableStream'
+
+describe('ConsumableStream tests', () => {
+  const chunked = (...chunks: string[]): Readable => Readable.from(chunks.map(chunk => Buffer.from(chunk)))
+
+  describe('ConsumableStream.read', () => {
+    it('should read across chunk boundaries', async () => {
+      const cstream = new ConsumableStream(chunked('Th', 'is is', ' a test'))
+
+      expect((await cstream.read(3)).toString()).to.equal('Thi')
+      expect((await cstream.read(6)).toString()).to.equal('s is a')
+      expect(cstream.position).to.equal(9)
+    })
+
+    it('should wait for data to arrive', async () => {
+      const source = new PassThrough()
+      const cstream = new ConsumableStream(source)
+      const pending = cstream.read(4)
+
+      source.write('te')
+      setImmediate(() => source.write('st'))
+
+      expect((await pending).toString()).to.equal('test')
+    })
+
+    it('should hold chunks as they arrive, assembling them only once a read needs them', async () => {
+      const cstream = new ConsumableStream(chunked(...Array.from({ length: 100 }, (_, i) => String(i % 10).repeat(10))), { history: 1000 })
+      await cstream.aseek(1000)
+
+      expect(cstream.pending).to.have.lengthOf(100)
+      expect(cstream.data.length).to.equal(0)
+
+      await cstream.aseek(0)
+      const buf = await cstream.read(1000)
+      expect(buf.toString('utf8', 990)).to.equal('9999999999')
+      expect(cstream.pending).to.have.lengthOf(0)
+    })
+
+    it('should throw a RangeError when the stream ends before enough data arrives', async () => {
+      const cstream = new ConsumableStream(chunked('test'))
+      let res = null
+      try {
+        await cstream.read(5)
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(RangeError)
+      expect(res.message).to.equal('Stream exhausted; attempted to read beyond stream.')
+    })
+
+    it('should hold onto errors emitted before the first read, rejecting reads and peeks with them', async () => {
+      const cstream = new ConsumableStream(fs.createReadStream(path.join(__dirname, '/samples/nonexistent/ConsumableStreamTest.txt')))
+      await new Promise(resolve => setTimeout(resolve, 50))
+
+      let res = null
+      try {
+        await cstream.read(1)
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(Error)
+      expect(res.code).to.equal('ENOENT')
+
+      res = null
+      try {
+        await cstream.peek(1)
+      } catch (err) {
+        res = err
+      }
+      expect(res.code).to.equal('ENOENT')
+    })
+
+    it('should read typed values from a file stream', async () => {
+      const cstream = new ConsumableStream(fs.createReadStream(path.join(__dirname, '/samples/NumericTest.bin'), { highWaterMark: 3 }))
+
+      expect(await cstream.readUInt8()).to.equal(0x01)
+      expect(await cstream.readInt8()).to.equal(-2)
+      expect(await cstream.readUInt16LE()).to.equal(0x1234)
+      expect(await cstream.readUInt16BE()).to.equal(0x1234)
+    })
+  })
+
+  describe('ConsumableStream.peek', () => {
+    it('should return upcoming bytes without consuming them', async () => {
+      const cstream = new ConsumableStream(chunked('te', 'st'))
+
+      expect((await cstream.peek(3)).toString()).to.equal('tes')
+      expect(cstream.position).to.equal(0)
+      expect((await cstream.read(4)).toString()).to.equal('test')
+    })
+  })
+
+  describe('ConsumableStream seeking', () => {
+    it('should skip data when seeking forward', async () => {
+      const cstream = new ConsumableStream(chunked('This ', 'is a ', 'test'))
+      await cstream.seek(8)
+
+      expect((await cstream.read(6)).toString()).to.equal('a test')
+      expect(cstream.dataStart).to.equal(14)
+    })
+
+    it('should drop pending chunks skipped over without assembling them', async () => {
+      const cstream = new ConsumableStream(chunked('This ', 'is a ', 'test'), { history: 2 })
+      await cstream.aseek(12)
+
+      expect(cstream.dataStart).to.equal(10)
+      expect(cstream.data.length + cstream.pendingLength).to.equal(4)
+      await cstream.seek(-2)
+      expect((await cstream.read(4)).toString()).to.equal('test')
+    })
+
+    it('should seek backward within the retained history', async () => {
+      const cstream = new ConsumableStream(chunked('This ', 'is a ', 'test'), { history: 4 })
+      await cstream.read(10)
+      await cstream.seek(-4)
+      expect((await cstream.read(4)).toString()).to.equal('s a ')
+
+      await cstream.aseek(6)
+      expect((await cstream.read(1)).toString()).to.equal('s')
+    })
+
+    it('should throw a clear error when seeking back beyond the retained history', async () => {
+      const cstream = new ConsumableStream(chunked('This ', 'is a ', 'test'), { history: 4 })
+      await cstream.read(10)
+
+      let res = null
+      try {
+        await cstream.aseek(5)
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(RangeError)
+      expect(res.message).to.equal('Cannot seek back to offset 5; only the last 4 bytes read are retained.')
+      expect(cstream.position).to.equal(10)
+    })
+
+    it('should support reset only while the start is retained', async () => {
+      const cstream = new ConsumableStream(chunked('test'), { history: 2 })
+      await cstream.read(2)
+      await cstream.reset()
+      expect((await cstream.read(3)).toString()).to.equal('tes')
+
+      let res = null
+      try {
+        await cstream.reset()
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(RangeError)
+    })
+
+    it('should throw a RangeError when seeking beyond the end of the stream', async () => {
+      const cstream = new ConsumableStream(chunked('test'))
+      let res = null
+      try {
+        await cstream.aseek(5)
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(RangeError)
+      expect(res.message).to.equal('Stream exhausted; attempted to seek beyond stream.')
+      expect(cstream.eof()).to.equal(true)
+    })
+  })
+
+  describe('ConsumableStream position introspection', () => {
+    it('should report an unknown length until the stream ends', async () => {
+      const cstream = new ConsumableStream(chunked('te', 'st'))
+      expect(cstream.length).to.equal(Infinity)
+      expect(cstream.eof()).to.equal(false)
+
+      await cstream.seek(4)
+      await cstream.peek(0)
+      try {
+        await cstream.peek(1)
+      } catch (err) {}
+
+      expect(cstream.length).to.equal(4)
+      expect(cstream.remaining()).to.equal(0)
+      expect(cstream.eof()).to.equal(true)
+    })
+  })
+
+  describe('ConsumableStream.subview', () => {
+    it('should refuse to create subviews', () => {
+      const cstream = new ConsumableStream(chunked('test'))
+      expect(() => cstream.subview()).to.throw('ConsumableStream does not support subviews.')
+    })
+  })
+
+  describe('ConsumableStream chunk iteration', () => {
+    it('should iterate until the stream ends', async () => {
+      const cstream = new ConsumableStream(chunked('This ', 'is a ', 'test'))
+
+      const chunks: string[] = []
+      for await (const chunk of cstream.chunks(4)) {
+        chunks.push(chunk.toString())
+      }
+
+      expect(chunks).to.deep.equal(['This', ' is ', 'a te', 'st'])
+      expect(cstream.eof()).to.equal(true)
+    })
+
+    it('should stop at the given end bound, and throw when the stream ends before it', async () => {
+      let cstream = new ConsumableStream(chunked('This ', 'is a ', 'test'))
+      const chunks: string[] = []
+      for await (const chunk of cstream.chunks(4, 6)) {
+        chunks.push(chunk.toString())
+      }
+      expect(chunks).to.deep.equal(['This', ' i'])
+
+      cstream = new ConsumableStream(chunked('test'))
+      let res = null
+      try {
+        for await (const chunk of cstream.chunks(4, 6)) {
+          expect(chunk.length).to.equal(4)
+        }
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(RangeError)
+    })
+  })
+})
@@ -0,0 +1,153 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { expect } from 'chai'
+import * as fs from 'fs'
+import * as path from 'path'
+import { Readable } from 'stream'
+import { ConsumableBuffer } from './../src/ConsumableBuffer'
+import { ConsumableFile } from './../src/ConsumableFile'
+import { ConsumableStream } from './../src/ConsumableStream'
+import { DelimiterNotFoundError } from './../src/Errors'
+
+describe('Delimiter tests', () => {
+  describe('readUntil', () => {
+    it('should read up to and consume the delimiter', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.from('Host: example\r\n\r\nBODY'))
+
+      expect((await cbuf.readUntil('\r\n\r\n')).toString()).to.equal('Host: example')
+      expect((await cbuf.read(4)).toString()).to.equal('BODY')
+    })
+
+    it('should include the delimiter when asked to', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.from([0x01, 0x02, 0xFF, 0x03]))
+
+      expect(Buffer.compare(await cbuf.readUntil(0xFF, { includeDelimiter: true }), Buffer.from([0x01, 0x02, 0xFF]))).to.equal(0)
+      expect(cbuf.position).to.equal(3)
+    })
+
+    it('should find delimiters spanning the internal search windows', async () => {
+      const input = Buffer.concat([Buffer.alloc(254, 0x61), Buffer.from('--boundary'), Buffer.alloc(1000, 0x62), Buffer.from('--end')])
+      const cbuf = new ConsumableBuffer(input)
+
+      expect((await cbuf.readUntil('--boundary')).length).to.equal(254)
+      expect((await cbuf.readUntil('--end')).length).to.equal(1000)
+      expect(cbuf.eof()).to.equal(true)
+    })
+
+    it('should throw a DelimiterNotFoundError without consuming anything when the delimiter is beyond maxBytes', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.from('0123456789;'))
+      let res = null
+      try {
+        await cbuf.readUntil(';', { maxBytes: 9 })
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(DelimiterNotFoundError)
+      expect(res.message).to.equal('Delimiter not found within 9 bytes.')
+      expect(cbuf.position).to.equal(0)
+
+      expect((await cbuf.readUntil(';', { maxBytes: 10 })).toString()).to.equal('0123456789')
+    })
+
+    it('should throw a DelimiterNotFoundError when the resource ends first', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.alloc(600))
+      let res = null
+      try {
+        await cbuf.readUntil('x')
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(DelimiterNotFoundError)
+      expect(res.message).to.equal('Delimiter not found before the end of the resource.')
+      expect(res.searched).to.equal(600)
+    })
+
+    it('should throw for empty delimiters', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.from('test'))
+      let res = null
+      try {
+        await cbuf.readUntil('')
+      } catch (err) {
+        res = err
+      }
+      expect(res.message).to.equal('Delimiter must not be empty.')
+    })
+
+    it('should work on files', async () => {
+      const filePath = path.join(__dirname, '/samples/DelimitersTest.txt')
+      await fs.promises.writeFile(filePath, Buffer.concat([Buffer.alloc(300, 0x61), Buffer.from('\r\n'), Buffer.from('rest')]))
+      const cfile = new ConsumableFile(filePath, { readAhead: 64 })
+      await cfile.open()
+      try {
+        expect((await cfile.readUntil('\r\n')).length).to.equal(300)
+        expect((await cfile.read(4)).toString()).to.equal('rest')
+      } finally {
+        await cfile.close()
+        await fs.promises.unlink(filePath)
+      }
+    })
+
+    it('should work on streams, whose length is unknown', async () => {
+      const cstream = new ConsumableStream(Readable.from([Buffer.from('ab'), Buffer.from('c|d')]))
+
+      expect((await cstream.readUntil('|')).toString()).to.equal('abc')
+
+      let res = null
+      try {
+        await cstream.readUntil('|')
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(DelimiterNotFoundError)
+      expect((await cstream.read(1)).toString()).to.equal('d')
+    })
+  })
+
+  describe('readLine', () => {
+    it('should read lines ending in either LF or CRLF, and a final unterminated line', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.from('P5\n640 480\r\n\n255'))
+
+      expect(await cbuf.readLine()).to.equal('P5')
+      expect(await cbuf.readLine()).to.equal('640 480')
+      expect(await cbuf.readLine()).to.equal('')
+      expect(await cbuf.readLine()).to.equal('255')
+      expect(cbuf.eof()).to.equal(true)
+    })
+
+    it('should throw once the resource has been read entirely', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.from('line\n'))
+      await cbuf.readLine()
+
+      let res = null
+      try {
+        await cbuf.readLine()
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(DelimiterNotFoundError)
+    })
+
+    it('should throw when a line exceeds maxBytes', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.from('a long line\nshort'))
+      let res = null
+      try {
+        await cbuf.readLine({ maxBytes: 4 })
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(DelimiterNotFoundError)
+      expect(cbuf.position).to.equal(0)
+    })
+
+    it('should decode lines with the given encoding', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.from([0xE9, 0x0A]))
+      expect(await cbuf.readLine({ encoding: 'latin1' })).to.equal('é')
+    })
+  })
+})
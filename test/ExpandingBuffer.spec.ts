@@ -7,6 +7,7 @@
 //
 
 import { expect } from 'chai'
+import { Writable } from 'stream'
 import { ExpandingBuffer } from './../src/ExpandingBuffer'
 
 describe('ExpandingBuffer tests', () => {
@@ -113,4 +114,305 @@ describe('ExpandingBuffer tests', () => {
       expect(Buffer.compare(sbuf.buf, expectedBuffer)).to.equal(0)
     })
   })
+
+  describe('ExpandingBuffer capacity management', () => {
+    it('should only expose the written bytes through buf', async () => {
+      expect(sbuf.buf.length).to.equal(0)
+      expect(sbuf.capacity).to.be.above(0)
+
+      await sbuf.write('test')
+
+      expect(sbuf.buf.length).to.equal(4)
+      expect(sbuf.buf.toString()).to.equal('test')
+    })
+
+    it('should grow geometrically rather than per write', async () => {
+      sbuf = new ExpandingBuffer({ initialCapacity: 4 })
+      expect(sbuf.capacity).to.equal(4)
+
+      await sbuf.write('tes')
+      await sbuf.write('t')
+      expect(sbuf.capacity).to.equal(4)
+
+      await sbuf.write('!')
+      const grown = sbuf.capacity
+      expect(grown).to.be.at.least(8)
+
+      await sbuf.write('!!!')
+      expect(sbuf.capacity).to.equal(grown)
+      expect(sbuf.buf.toString()).to.equal('test!!!!')
+    })
+
+    it('should grow to fit a single large write', async () => {
+      sbuf = new ExpandingBuffer({ initialCapacity: 0 })
+      const input = Buffer.alloc(10000, 0x61)
+      await sbuf.write(input)
+
+      expect(sbuf.capacity).to.be.at.least(10000)
+      expect(Buffer.compare(sbuf.buf, input)).to.equal(0)
+    })
+
+    it('should return to the initial capacity on reset', async () => {
+      sbuf = new ExpandingBuffer({ initialCapacity: 16 })
+      await sbuf.write(Buffer.alloc(100))
+      await sbuf.reset()
+
+      expect(sbuf.capacity).to.equal(16)
+      expect(sbuf.buf.length).to.equal(0)
+    })
+
+    it('should replace the written data when buf is assigned', async () => {
+      await sbuf.write('test')
+      await sbuf.reserve('uint16le')
+      sbuf.buf = Buffer.from('abc')
+
+      expect(sbuf.position).to.equal(3)
+      await sbuf.write('d')
+      expect(sbuf.buf.toString()).to.equal('abcd')
+      await sbuf.close()
+    })
+
+    it('should throw when given an invalid initial capacity', () => {
+      expect(() => new ExpandingBuffer({ initialCapacity: -1 })).to.throw('initialCapacity option must be a positive integer.')
+    })
+  })
+
+  describe('ExpandingBuffer chunked mode', () => {
+    beforeEach(() => {
+      sbuf = new ExpandingBuffer({ chunked: true, chunkSize: 4 })
+    })
+
+    it('should spread writes across fixed-size chunks without reallocating them', async () => {
+      await sbuf.write('tes')
+      const first = sbuf.chunks[0]
+      await sbuf.write('ting!')
+
+      expect(sbuf.position).to.equal(8)
+      expect(sbuf.chunks).to.have.lengthOf(2)
+      expect(sbuf.chunks[0]).to.equal(first)
+      expect(sbuf.capacity).to.equal(8)
+      expect(sbuf.buf.toString()).to.equal('testing!')
+    })
+
+    it('should yield each chunk through segments', async () => {
+      await sbuf.write('testing')
+
+      expect([...sbuf.segments()].map(segment => segment.toString())).to.deep.equal(['test', 'ing'])
+    })
+
+    it('should support positioned writes and placeholders spanning chunks', async () => {
+      await sbuf.write('ab')
+      const size = await sbuf.reserve('uint32be')
+      await sbuf.write('cd')
+      await size.fillNumeric('uint32be', 0x01020304)
+      await sbuf.writeAt(7, 'D')
+
+      expect(Buffer.compare(sbuf.buf, Buffer.from([0x61, 0x62, 1, 2, 3, 4, 0x63, 0x44]))).to.equal(0)
+      await sbuf.close()
+    })
+
+    it('should drop its chunks on reset', async () => {
+      await sbuf.write('testing')
+      await sbuf.reset()
+
+      expect(sbuf.chunks).to.have.lengthOf(0)
+      expect(sbuf.buf.length).to.equal(0)
+    })
+
+    it('should split an assigned buf across new chunks', async () => {
+      await sbuf.write('testing')
+      sbuf.buf = Buffer.from('abcdef')
+      await sbuf.write('g')
+
+      expect(sbuf.chunks).to.have.lengthOf(2)
+      expect([...sbuf.segments()].map(segment => segment.toString())).to.deep.equal(['abcd', 'efg'])
+    })
+
+    it('should throw when given an invalid chunk size', () => {
+      expect(() => new ExpandingBuffer({ chunked: true, chunkSize: 0 })).to.throw('chunkSize option must be a positive integer.')
+    })
+  })
+
+  describe('ExpandingBuffer.pipeTo', () => {
+    it('should copy its contents into another ExpandingResource', async () => {
+      sbuf = new ExpandingBuffer({ chunked: true, chunkSize: 3 })
+      await sbuf.write('testing')
+      const dest = new ExpandingBuffer()
+      await dest.write('>')
+
+      const piped = await sbuf.pipeTo(dest)
+
+      expect(piped).to.equal(7)
+      expect(dest.buf.toString()).to.equal('>testing')
+    })
+
+    it('should stream its contents into a Writable, honoring backpressure', async () => {
+      sbuf = new ExpandingBuffer({ chunked: true, chunkSize: 2 })
+      await sbuf.write('testing')
+      const received: Buffer[] = []
+      const dest = new Writable({
+        highWaterMark: 1,
+        write (chunk: Buffer, _encoding, callback) {
+          received.push(chunk)
+          setImmediate(callback)
+        }
+      })
+
+      const piped = await sbuf.pipeTo(dest)
+
+      expect(piped).to.equal(7)
+      expect(Buffer.concat(received).toString()).to.equal('testing')
+      expect(received).to.have.lengthOf(4)
+    })
+
+    it('should work in contiguous mode too', async () => {
+      await sbuf.write('test')
+      const dest = new ExpandingBuffer({ chunked: true, chunkSize: 3 })
+
+      expect(await sbuf.pipeTo(dest)).to.equal(4)
+      expect(dest.buf.toString()).to.equal('test')
+    })
+  })
+
+  describe('ExpandingBuffer typed writers', () => {
+    it('should write integers of each width using the default little-endian byte order', async () => {
+      const expectedBuffer = Buffer.from([
+        0x01, 0xFE, 0x34, 0x12, 0x56, 0x34, 0x12, 0x78, 0x56, 0x34, 0x12
+      ])
+
+      await sbuf.writeUInt8(0x01)
+      await sbuf.writeInt8(-2)
+      await sbuf.writeUInt16(0x1234)
+      await sbuf.writeUInt24(0x123456)
+      const res = await sbuf.writeInt32(0x12345678)
+
+      expect(res).to.equal(11)
+      expect(Buffer.compare(sbuf.buf, expectedBuffer)).to.equal(0)
+    })
+
+    it('should honor the endianness given to the constructor', async () => {
+      sbuf = new ExpandingBuffer({ endianness: 'BE' })
+      await sbuf.writeUInt16(0x1234)
+      await sbuf.writeDouble(1)
+
+      expect(Buffer.compare(sbuf.buf, Buffer.from([0x12, 0x34, 0x3F, 0xF0, 0, 0, 0, 0, 0, 0]))).to.equal(0)
+    })
+
+    it('should allow overriding the endianness per call', async () => {
+      sbuf.endianness = 'BE'
+      await sbuf.writeUInt16(0x1234, 'LE')
+      await sbuf.writeFloat(1)
+
+      expect(Buffer.compare(sbuf.buf, Buffer.from([0x34, 0x12, 0x3F, 0x80, 0x00, 0x00]))).to.equal(0)
+    })
+
+    it('should write 64-bit integers from bigints', async () => {
+      await sbuf.writeBigUInt64(BigInt(1), 'BE')
+      await sbuf.writeBigInt64(BigInt(-1))
+
+      expect(Buffer.compare(sbuf.buf, Buffer.from([0, 0, 0, 0, 0, 0, 0, 1, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]))).to.equal(0)
+    })
+
+    it('should throw a RangeError when the value does not fit the type', async () => {
+      let res = null
+      try {
+        await sbuf.writeUInt8(256)
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(RangeError)
+      expect(sbuf.position).to.equal(0)
+    })
+
+    it('should throw a TypeError for an unknown endianness', async () => {
+      let res = null
+      try {
+        await sbuf.writeUInt16(1, 'XE' as any)
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(TypeError)
+      expect(res.message).to.equal('Endianness must be either "LE" or "BE".')
+    })
+  })
+
+  describe('ExpandingBuffer.writeAt', () => {
+    it('should overwrite previously written bytes without moving the position', async () => {
+      await sbuf.write('test')
+      await sbuf.writeAt(1, 'E')
+      await sbuf.writeAt(2, [0x53])
+
+      expect(sbuf.buf.toString()).to.equal('tESt')
+      expect(sbuf.position).to.equal(4)
+    })
+
+    it('should throw a RangeError when writing beyond the written data', async () => {
+      await sbuf.write('test')
+      let res = null
+      try {
+        await sbuf.writeAt(3, 'st')
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(RangeError)
+      expect(res.message).to.equal('Positioned write extends beyond the written data.')
+      expect(sbuf.buf.toString()).to.equal('test')
+    })
+  })
+
+  describe('ExpandingBuffer.reserve', () => {
+    it('should reserve zeroed space and allow filling it in later', async () => {
+      await sbuf.write('HEAD')
+      const size = await sbuf.reserve('uint32le')
+      const flag = await sbuf.reserve(1)
+
+      expect(size.offset).to.equal(4)
+      expect(size.length).to.equal(4)
+      expect(sbuf.position).to.equal(9)
+      expect(Buffer.compare(sbuf.buf.slice(4), Buffer.alloc(5))).to.equal(0)
+
+      await sbuf.write('body')
+      await size.fillNumeric('uint32le', sbuf.position - 9)
+      await flag.fill([0xFF])
+
+      expect(Buffer.compare(sbuf.buf, Buffer.from([0x48, 0x45, 0x41, 0x44, 4, 0, 0, 0, 0xFF, 0x62, 0x6f, 0x64, 0x79]))).to.equal(0)
+      expect(size.filled).to.equal(true)
+      await sbuf.close()
+    })
+
+    it('should throw a RangeError when the fill does not match the reserved size', async () => {
+      const size = await sbuf.reserve('uint16le')
+      let res = null
+      try {
+        await size.fillNumeric('uint32le', 1)
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(RangeError)
+      expect(res.message).to.equal('Placeholder expects exactly 2 bytes, received 4.')
+      expect(size.filled).to.equal(false)
+    })
+
+    it('should throw on close when a placeholder was left unfilled', async () => {
+      const filled = await sbuf.reserve(2)
+      await sbuf.reserve('uint8')
+      await filled.fill([0x01, 0x02])
+
+      let res = null
+      try {
+        await sbuf.close()
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(Error)
+      expect(res.message).to.equal('1 reserved placeholder(s) left unfilled, at offset(s) 2.')
+    })
+
+    it('should forget about placeholders when reset', async () => {
+      await sbuf.reserve(2)
+      await sbuf.reset()
+      await sbuf.close()
+      expect(sbuf.placeholders).to.have.lengthOf(0)
+    })
+  })
 })
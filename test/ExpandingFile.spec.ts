@@ -165,5 +165,162 @@ describe('ExpandingFile tests', () => {
         expect(Buffer.compare(res, expectedBuffer)).to.equal(0)
       })
     })
+
+    describe('ExpandingFile typed writers', () => {
+      it('should write typed values using the default and overridden endianness', async () => {
+        const expectedBuffer = Buffer.from([0x12, 0x34, 0x78, 0x56, 0x34, 0x12, 0xFF])
+
+        sbuf.endianness = 'BE'
+        await sbuf.writeUInt16(0x1234)
+        const wrote = await sbuf.writeUInt32(0x12345678, 'LE')
+        await sbuf.writeInt8(-1)
+        expect(wrote).to.equal(6)
+
+        await sbuf.close()
+        const res: Buffer = await fs.promises.readFile(filePath)
+
+        expect(Buffer.compare(res, expectedBuffer)).to.equal(0)
+      })
+    })
+
+    describe('ExpandingFile.writeAt', () => {
+      it('should overwrite previously written bytes without moving the position', async () => {
+        await sbuf.write('test')
+        await sbuf.writeAt(1, 'E')
+        expect(sbuf.position).to.equal(4)
+        await sbuf.write('!')
+
+        await sbuf.close()
+        const res: Buffer = await fs.promises.readFile(filePath)
+
+        expect(res.toString()).to.equal('tEst!')
+      })
+
+      it('should throw a RangeError when writing beyond the written data', async () => {
+        await sbuf.write('test')
+        let res = null
+        try {
+          await sbuf.writeAt(4, 0x00)
+        } catch (err) {
+          res = err
+        }
+        expect(res).to.be.an.instanceof(RangeError)
+      })
+    })
+
+    describe('ExpandingFile.reserve', () => {
+      it('should back-patch reserved placeholders', async () => {
+        const size = await sbuf.reserve('uint16be')
+        await sbuf.write('body')
+        await size.fillNumeric('uint16be', 4)
+
+        await sbuf.close()
+        const res: Buffer = await fs.promises.readFile(filePath)
+
+        expect(Buffer.compare(res, Buffer.from([0x00, 0x04, 0x62, 0x6f, 0x64, 0x79]))).to.equal(0)
+      })
+
+      it('should still close the file but throw when a placeholder was left unfilled', async () => {
+        await sbuf.write('test')
+        await sbuf.reserve('uint32le')
+
+        let res = null
+        try {
+          await sbuf.close()
+        } catch (err) {
+          res = err
+        }
+        expect(res).to.be.an.instanceof(Error)
+        expect(res.message).to.equal('1 reserved placeholder(s) left unfilled, at offset(s) 4.')
+        expect(sbuf.fh).to.equal(undefined)
+      })
+    })
+
+    describe('ExpandingFile write-behind buffering', () => {
+      beforeEach(async () => {
+        await sbuf.close()
+        sbuf = new ExpandingFile(filePath, { writeBuffer: 8 })
+        await sbuf.open()
+      })
+
+      it('should hold small writes in memory until the threshold is reached', async () => {
+        expect(await sbuf.write('test')).to.equal(4)
+        expect((await fs.promises.readFile(filePath)).length).to.equal(0)
+
+        await sbuf.write([0x01, 0x02, 0x03])
+        expect(sbuf.pendingLength).to.equal(7)
+        expect((await fs.promises.readFile(filePath)).length).to.equal(0)
+
+        await sbuf.write(0x04)
+        expect(sbuf.pendingLength).to.equal(0)
+        expect(Buffer.compare(await fs.promises.readFile(filePath), Buffer.from([0x74, 0x65, 0x73, 0x74, 1, 2, 3, 4]))).to.equal(0)
+      })
+
+      it('should write everything held on flush and on close', async () => {
+        await sbuf.write('ab')
+        await sbuf.flush()
+        expect((await fs.promises.readFile(filePath)).toString()).to.equal('ab')
+
+        await sbuf.write('cd')
+        await sbuf.close()
+        expect((await fs.promises.readFile(filePath)).toString()).to.equal('abcd')
+      })
+
+      it('should pass large writes straight through, after whatever was held', async () => {
+        await sbuf.write('ab')
+        await sbuf.write('0123456789')
+        expect(sbuf.pendingLength).to.equal(0)
+        expect(sbuf.position).to.equal(12)
+        expect((await fs.promises.readFile(filePath)).toString()).to.equal('ab0123456789')
+      })
+
+      it('should not be affected by the caller reusing their Buffer', async () => {
+        const buf = Buffer.from('ab')
+        await sbuf.write(buf)
+        buf.fill(0x7a)
+        await sbuf.close()
+        expect((await fs.promises.readFile(filePath)).toString()).to.equal('ab')
+      })
+
+      it('should apply positioned writes and placeholders to held writes', async () => {
+        const size = await sbuf.reserve('uint16le')
+        await sbuf.write('xyz')
+        await size.fillNumeric('uint16le', 3)
+        await sbuf.writeAt(2, 'X')
+        await sbuf.write('!')
+        await sbuf.close()
+
+        expect(Buffer.compare(await fs.promises.readFile(filePath), Buffer.from([3, 0, 0x58, 0x79, 0x7a, 0x21]))).to.equal(0)
+      })
+
+      it('should still close the file when flushing on close fails', async () => {
+        await sbuf.write('ab')
+        const fh = sbuf.fh as fs.promises.FileHandle
+        fh.write = async () => {
+          throw new Error('Disk full.')
+        }
+
+        let res = null
+        try {
+          await sbuf.close()
+        } catch (err) {
+          res = err
+        }
+        expect(res.message).to.equal('Disk full.')
+        expect(sbuf.fh).to.equal(undefined)
+
+        res = null
+        try {
+          await sbuf.write('cd')
+        } catch (err) {
+          res = err
+        }
+        expect(res.message).to.equal('File does not yet appear to be opened.')
+      })
+
+      it('should throw when given an invalid write buffer size', () => {
+        expect(() => new ExpandingFile(filePath, { writeBuffer: 1.5 })).to.throw('writeBuffer option must be a positive integer.')
+      })
+    })
   })
 })
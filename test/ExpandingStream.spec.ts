@@ -0,0 +1,199 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { expect } from 'chai'
+import { Writable } from 'stream'
+import { ExpandingStream } from './../src/ExpandingStream'
+import { CRC32, crc32 } from './../src/Hashes'
+
+describe('ExpandingStream tests', () => {
+  let received: Buffer[]
+  let pending: Array<() => void>
+  let dest: Writable
+  let sstream: ExpandingStream
+  beforeEach(() => {
+    received = []
+    pending = []
+    dest = new Writable({
+      highWaterMark: 4,
+      write (chunk: Buffer, _encoding, callback) {
+        received.push(chunk)
+        pending.push(callback)
+      }
+    })
+    sstream = new ExpandingStream(dest)
+  })
+
+  const drain = (): void => {
+    for (const callback of pending.splice(0)) {
+      callback()
+    }
+  }
+
+  describe('ExpandingStream.write', () => {
+    it('should track the total number of bytes written', async () => {
+      expect(await sstream.write('te')).to.equal(2)
+      drain()
+      expect(await sstream.write([0x73, 0x74])).to.equal(4)
+      expect(sstream.position).to.equal(4)
+      expect(Buffer.concat(received).toString()).to.equal('test')
+    })
+
+    it('should wait for the stream to drain before resolving', async () => {
+      let resolved = false
+      const write = sstream.write('testing').then(() => { resolved = true })
+
+      await new Promise(resolve => setImmediate(resolve))
+      expect(resolved).to.equal(false)
+
+      drain()
+      await write
+      expect(resolved).to.equal(true)
+    })
+
+    it('should reject rather than hang when the stream is destroyed before it drains', async () => {
+      const write = sstream.write('testing')
+      await new Promise(resolve => setImmediate(resolve))
+      dest.destroy()
+
+      let res = null
+      try {
+        await write
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(Error)
+      expect(res.message).to.equal('Stream closed before it drained.')
+    })
+
+    it('should not count bytes the stream never accepted', async () => {
+      const crc = sstream.attach(new CRC32())
+      await sstream.write('te')
+      const write = sstream.write('sting')
+      await new Promise(resolve => setImmediate(resolve))
+      dest.destroy()
+
+      let res = null
+      try {
+        await write
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(Error)
+      expect(sstream.position).to.equal(2)
+      expect(crc.value).to.equal(crc32(Buffer.from('te')))
+    })
+
+    it('should hold onto errors emitted between writes, rejecting the next write with them', async () => {
+      await sstream.write('te')
+      dest.destroy(new Error('Broken pipe.'))
+      await new Promise(resolve => setImmediate(resolve))
+
+      let res = null
+      try {
+        await sstream.write('st')
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(Error)
+      expect(res.message).to.equal('Broken pipe.')
+
+      res = null
+      try {
+        await sstream.close()
+      } catch (err) {
+        res = err
+      }
+      expect(res.message).to.equal('Broken pipe.')
+    })
+
+    it('should support the typed writers', async () => {
+      sstream = new ExpandingStream(dest, { endianness: 'BE' })
+      await sstream.writeUInt16(0x1234)
+      drain()
+      await sstream.writeUInt16(0x1234, 'LE')
+      expect(Buffer.compare(Buffer.concat(received), Buffer.from([0x12, 0x34, 0x34, 0x12]))).to.equal(0)
+    })
+
+    it('should refuse writes once the stream has ended', async () => {
+      drain()
+      dest.end()
+      let res = null
+      try {
+        await sstream.write('test')
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(Error)
+      expect(res.message).to.equal('Stream is no longer writable.')
+    })
+  })
+
+  describe('ExpandingStream unsupported operations', () => {
+    it('should refuse positioned writes and placeholders', async () => {
+      let res = null
+      try {
+        await sstream.writeAt()
+      } catch (err) {
+        res = err
+      }
+      expect(res.message).to.equal('ExpandingStream does not support positioned writes.')
+
+      res = null
+      try {
+        await sstream.reserve()
+      } catch (err) {
+        res = err
+      }
+      expect(res.message).to.equal('ExpandingStream does not support reserving placeholders.')
+    })
+  })
+
+  describe('ExpandingStream.close', () => {
+    it('should end the stream and wait for it to finish', async () => {
+      let finished = false
+      dest.on('finish', () => { finished = true })
+      await sstream.write('te')
+
+      const close = sstream.close()
+      await new Promise(resolve => setImmediate(resolve))
+      expect(finished).to.equal(false)
+
+      drain()
+      await close
+      expect(finished).to.equal(true)
+
+      // closing again should be harmless
+      await sstream.close()
+    })
+
+    it('should reject rather than hang when the stream is destroyed before it finishes', async () => {
+      await sstream.write('te')
+      const close = sstream.close()
+      await new Promise(resolve => setImmediate(resolve))
+      dest.destroy()
+
+      let res = null
+      try {
+        await close
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(Error)
+      expect(res.message).to.equal('Stream closed before it finished.')
+
+      res = null
+      try {
+        await sstream.close()
+      } catch (err) {
+        res = err
+      }
+      expect(res.message).to.equal('Stream closed before it finished.')
+    })
+  })
+})
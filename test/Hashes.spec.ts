@@ -0,0 +1,216 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { expect } from 'chai'
+import * as crypto from 'crypto'
+import * as fs from 'fs'
+import * as path from 'path'
+import { PassThrough, Readable } from 'stream'
+import { ConsumableBuffer } from './../src/ConsumableBuffer'
+import { ConsumableFile } from './../src/ConsumableFile'
+import { ConsumableStream } from './../src/ConsumableStream'
+import { ExpandingBuffer } from './../src/ExpandingBuffer'
+import { ExpandingFile } from './../src/ExpandingFile'
+import { ExpandingStream } from './../src/ExpandingStream'
+import { StreamPipeline } from './../src/StreamPipeline'
+import { Adler32, CRC32, CryptoHash, HashAlgorithm, crc32 } from './../src/Hashes'
+
+describe('Hash tests', () => {
+  const sample = Buffer.from('123456789')
+
+  describe('crc32', () => {
+    it('should compute the standard CRC-32 check value', () => {
+      expect(crc32(sample)).to.equal(0xCBF43926)
+      expect(crc32(Buffer.alloc(0))).to.equal(0)
+    })
+
+    it('should continue on from a previous CRC-32', () => {
+      expect(crc32(sample.slice(5), crc32(sample.slice(0, 5)))).to.equal(0xCBF43926)
+    })
+  })
+
+  describe('HashObserver implementations', () => {
+    it('should compute CRC-32 incrementally', () => {
+      const crc = new CRC32()
+      crc.update(sample.slice(0, 4))
+      crc.update(sample.slice(4))
+
+      expect(crc.value).to.equal(0xCBF43926)
+      expect(crc.digest().toString('hex')).to.equal('cbf43926')
+    })
+
+    it('should compute Adler-32 incrementally, including over long runs', () => {
+      const adler = new Adler32()
+      adler.update(Buffer.from('Wiki'))
+      adler.update(Buffer.from('pedia'))
+      expect(adler.value).to.equal(0x11E60398)
+      expect(adler.digest().toString('hex')).to.equal('11e60398')
+
+      // long enough to need the sums reduced along the way
+      const long = new Adler32()
+      long.update(Buffer.alloc(100000, 0xFF))
+      let a = 1
+      let b = 0
+      for (let i = 0; i < 100000; i++) {
+        a = (a + 0xFF) % 65521
+        b = (b + a) % 65521
+      }
+      expect(long.value).to.equal(((b << 16) | a) >>> 0)
+    })
+
+    it('should compute cryptographic digests, and keep accepting updates after digesting', () => {
+      for (const algorithm of ['md5', 'sha1', 'sha256'] as HashAlgorithm[]) {
+        const hash = new CryptoHash(algorithm)
+        hash.update(sample.slice(0, 3))
+        expect(Buffer.compare(hash.digest(), crypto.createHash(algorithm).update(sample.slice(0, 3)).digest())).to.equal(0)
+
+        hash.update(sample.slice(3))
+        expect(Buffer.compare(hash.digest(), crypto.createHash(algorithm).update(sample).digest())).to.equal(0)
+      }
+    })
+
+    it('should throw for unsupported algorithms', () => {
+      expect(() => new CryptoHash('sha0' as HashAlgorithm)).to.throw(TypeError, 'Unsupported hash algorithm "sha0".')
+    })
+  })
+
+  describe('observing consumable resources', () => {
+    it('should digest bytes read, but not bytes peeked at or skipped over', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.from('xx123456789'))
+      const crc = cbuf.attach(new CRC32())
+      await cbuf.seek(2)
+
+      await cbuf.peek(4)
+      await cbuf.read(4)
+      expect(await cbuf.readUInt8()).to.equal(0x35)
+      await cbuf.read(4)
+
+      expect(crc.value).to.equal(0xCBF43926)
+    })
+
+    it('should not digest bytes skipped over by seeks on any resource', async () => {
+      const filePath = path.join(__dirname, '/samples/HashesSeekTest.txt')
+      await fs.promises.writeFile(filePath, sample)
+      const cfile = new ConsumableFile(filePath, { readAhead: 4 })
+      await cfile.open()
+      try {
+        const resources = [new ConsumableBuffer(sample), cfile, new ConsumableStream(Readable.from([sample]), { history: 9 })]
+        for (const resource of resources) {
+          const crc = resource.attach(new CRC32())
+          await resource.seek(2)
+          expect((await resource.read(2)).toString()).to.equal('34')
+          await resource.aseek(6)
+          expect((await resource.read(1)).toString()).to.equal('7')
+          await resource.aseek(0)
+
+          expect(crc.value).to.equal(crc32(Buffer.from('347')))
+        }
+      } finally {
+        await cfile.close()
+        await fs.promises.unlink(filePath)
+      }
+    })
+
+    it('should stop digesting once detached', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.from('1234567890'))
+      const crc = cbuf.attach(new CRC32())
+      await cbuf.read(9)
+      cbuf.detach(crc)
+      await cbuf.read(1)
+
+      expect(crc.value).to.equal(0xCBF43926)
+    })
+
+    it('should digest bytes read from files and streams', async () => {
+      const filePath = path.join(__dirname, '/samples/HashesTest.txt')
+      await fs.promises.writeFile(filePath, sample)
+      const cfile = new ConsumableFile(filePath, { readAhead: 4 })
+      await cfile.open()
+      try {
+        const crc = cfile.attach(new CRC32())
+        for await (const chunk of cfile.chunks(2)) {
+          expect(chunk.length).to.be.at.most(2)
+        }
+        expect(crc.value).to.equal(0xCBF43926)
+      } finally {
+        await cfile.close()
+        await fs.promises.unlink(filePath)
+      }
+
+      const cstream = new ConsumableStream(Readable.from([sample.slice(0, 2), sample.slice(2)]))
+      const adler = cstream.attach(new Adler32())
+      await cstream.read(9)
+      const expected = new Adler32()
+      expected.update(sample)
+      expect(adler.value).to.equal(expected.value)
+    })
+  })
+
+  describe('observing expanding resources', () => {
+    it('should digest bytes written, but not positioned writes', async () => {
+      const sbuf = new ExpandingBuffer()
+      const crc = sbuf.attach(new CRC32())
+      await sbuf.write('1234')
+      await sbuf.writeUInt8(0x35)
+      await sbuf.write([0x36, 0x37, 0x38, 0x39])
+      await sbuf.writeAt(0, 'x')
+      sbuf.detach(crc)
+      await sbuf.write('0')
+
+      expect(crc.value).to.equal(0xCBF43926)
+    })
+
+    it('should digest bytes written to files, whether buffered or not', async () => {
+      const filePath = path.join(__dirname, '/samples/HashesTest.bin')
+      for (const writeBuffer of [0, 4]) {
+        const sfile = new ExpandingFile(filePath, { writeBuffer })
+        await sfile.open()
+        const sha = sfile.attach(new CryptoHash('sha256'))
+        await sfile.write('12')
+        await sfile.write('34567')
+        await sfile.write('89')
+        await sfile.close()
+
+        expect(Buffer.compare(sha.digest(), crypto.createHash('sha256').update(sample).digest())).to.equal(0)
+      }
+      await fs.promises.unlink(filePath)
+    })
+
+    it('should digest bytes written to streams', async () => {
+      const dest = new PassThrough()
+      dest.resume()
+      const sstream = new ExpandingStream(dest)
+      const md5 = sstream.attach(new CryptoHash('md5'))
+      await sstream.write(sample)
+      await sstream.close()
+
+      expect(md5.digest().toString('hex')).to.equal(crypto.createHash('md5').update(sample).digest('hex'))
+    })
+
+    it('should digest bytes pumped through a StreamPipeline', async () => {
+      const sourcePath = path.join(__dirname, '/samples/HashesSource.txt')
+      const filePath = path.join(__dirname, '/samples/HashesTest.bin')
+      await fs.promises.writeFile(sourcePath, sample.slice(4))
+
+      const sbuf = new ExpandingFile(filePath)
+      await sbuf.open()
+      const crc = sbuf.attach(new CRC32())
+      const pipeline = new StreamPipeline()
+      await pipeline.load(sbuf)
+      try {
+        await pipeline.pump(sample.slice(0, 4))
+        await pipeline.pump(sourcePath)
+        expect(crc.value).to.equal(0xCBF43926)
+      } finally {
+        await sbuf.close()
+        await fs.promises.unlink(sourcePath)
+        await fs.promises.unlink(filePath)
+      }
+    })
+  })
+})
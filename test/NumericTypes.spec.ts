@@ -0,0 +1,49 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { expect } from 'chai'
+import { decodeNumeric, encodeNumeric, isNumericType, numericSize, withEndianness } from './../src/NumericTypes'
+
+describe('NumericTypes tests', () => {
+  describe('numericSize', () => {
+    it('should return the size of each numeric type in bytes', () => {
+      expect(numericSize('uint8')).to.equal(1)
+      expect(numericSize('int24be')).to.equal(3)
+      expect(numericSize('float32le')).to.equal(4)
+      expect(numericSize('uint64be')).to.equal(8)
+    })
+  })
+
+  describe('isNumericType', () => {
+    it('should only accept known numeric types', () => {
+      expect(isNumericType('uint16le')).to.equal(true)
+      expect(isNumericType('uint16')).to.equal(false)
+      expect(isNumericType('toString')).to.equal(false)
+      expect(isNumericType(2)).to.equal(false)
+    })
+  })
+
+  describe('encodeNumeric/decodeNumeric', () => {
+    it('should round-trip values through a Buffer', () => {
+      expect(Buffer.compare(encodeNumeric('uint24be', 0x123456), Buffer.from([0x12, 0x34, 0x56]))).to.equal(0)
+      expect(decodeNumeric('int16le', Buffer.from([0xFE, 0xFF]))).to.equal(-2)
+      expect(decodeNumeric('uint64le', encodeNumeric('uint64le', BigInt(42)))).to.equal(BigInt(42))
+    })
+
+    it('should throw a RangeError when the value does not fit the type', () => {
+      expect(() => encodeNumeric('uint8', 256)).to.throw(RangeError)
+    })
+  })
+
+  describe('withEndianness', () => {
+    it('should build the endian-specific numeric type', () => {
+      expect(withEndianness('uint32', 'LE')).to.equal('uint32le')
+      expect(withEndianness('float64', 'BE')).to.equal('float64be')
+    })
+  })
+})
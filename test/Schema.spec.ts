@@ -0,0 +1,124 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { expect } from 'chai'
+import { ConsumableBuffer } from './../src/ConsumableBuffer'
+import { ExpandingBuffer } from './../src/ExpandingBuffer'
+import { Struct, FixedArray, FixedBytes, PrefixedString, CString, FixedString, SchemaValue } from './../src/Schema'
+
+describe('Schema tests', () => {
+  const Point = new Struct({ x: 'int16le', y: 'int16be' })
+  const Shape = new Struct({
+    magic: new FixedBytes(2),
+    name: new PrefixedString('uint8'),
+    points: new FixedArray(Point, 2),
+    id: 'uint64le'
+  })
+  type Shape = SchemaValue<typeof Shape>
+
+  const shape: Shape = {
+    magic: Buffer.from('SH'),
+    name: 'tri',
+    points: [{ x: 1, y: -1 }, { x: -2, y: 2 }],
+    id: BigInt(7)
+  }
+  const shapeBuffer = Buffer.from([
+    0x53, 0x48,
+    0x03, 0x74, 0x72, 0x69,
+    0x01, 0x00, 0xFF, 0xFF,
+    0xFE, 0xFF, 0x00, 0x02,
+    0x07, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00
+  ])
+
+  describe('Struct.read', () => {
+    it('should decode nested structs, arrays and strings in declaration order', async () => {
+      const cbuf = new ConsumableBuffer(shapeBuffer)
+      const res = await Shape.read(cbuf)
+
+      expect(Buffer.compare(res.magic, shape.magic)).to.equal(0)
+      expect(res.name).to.equal('tri')
+      expect(res.points).to.deep.equal(shape.points)
+      expect(res.id).to.equal(BigInt(7))
+    })
+
+    it('should throw a RangeError when the resource runs out mid-struct', async () => {
+      let res = null
+      try {
+        await Shape.read(new ConsumableBuffer(shapeBuffer.slice(0, 10)))
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(RangeError)
+    })
+  })
+
+  describe('Struct.write', () => {
+    it('should encode an object to the exact byte layout', async () => {
+      const sbuf = new ExpandingBuffer()
+      await Shape.write(sbuf, shape)
+
+      expect(Buffer.compare(sbuf.buf, shapeBuffer)).to.equal(0)
+    })
+
+    it('should throw a TypeError when a field is missing', async () => {
+      let res = null
+      try {
+        await Point.write(new ExpandingBuffer(), { x: 1 } as any)
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(TypeError)
+      expect(res.message).to.equal('Struct value is missing field "y".')
+    })
+  })
+
+  describe('FixedArray', () => {
+    it('should throw a RangeError when writing the wrong number of elements', async () => {
+      let res = null
+      try {
+        await new FixedArray('uint8', 3).write(new ExpandingBuffer(), [1, 2])
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(RangeError)
+      expect(res.message).to.equal('FixedArray expects exactly 3 elements, received 2.')
+    })
+  })
+
+  describe('PrefixedString', () => {
+    it('should prefix the encoded length in bytes rather than characters', async () => {
+      const str = new PrefixedString('uint16be', 'utf16le')
+      const sbuf = new ExpandingBuffer()
+      await str.write(sbuf, 'ab')
+
+      expect(Buffer.compare(sbuf.buf, Buffer.from([0x00, 0x04, 0x61, 0x00, 0x62, 0x00]))).to.equal(0)
+      expect(await str.read(new ConsumableBuffer(sbuf.buf))).to.equal('ab')
+    })
+
+    it('should throw a RangeError when the string is too long for its prefix', async () => {
+      let res = null
+      try {
+        await new PrefixedString('uint8').write(new ExpandingBuffer(), 'x'.repeat(256))
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(RangeError)
+    })
+  })
+
+  describe('CString and FixedString', () => {
+    it('should round-trip struct string fields', async () => {
+      const Entry = new Struct({ name: new CString(), tag: new FixedString(4, 'ascii', 'space'), size: new PrefixedString('uleb128') })
+      const sbuf = new ExpandingBuffer()
+      await Entry.write(sbuf, { name: 'abc', tag: 'ok', size: 'big' })
+
+      expect(sbuf.buf.toString('hex')).to.equal('616263006f6b202003626967')
+      expect(await Entry.read(new ConsumableBuffer(sbuf.buf))).to.deep.equal({ name: 'abc', tag: 'ok', size: 'big' })
+    })
+  })
+})
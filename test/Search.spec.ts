@@ -0,0 +1,139 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { expect } from 'chai'
+import * as fs from 'fs'
+import * as path from 'path'
+import { Readable } from 'stream'
+import { ConsumableBuffer } from './../src/ConsumableBuffer'
+import { ConsumableFile } from './../src/ConsumableFile'
+import { ConsumableStream } from './../src/ConsumableStream'
+
+describe('Search tests', () => {
+  describe('indexOf', () => {
+    const cbuf = new ConsumableBuffer(Buffer.from('sync..sync..sync'))
+
+    it('should find the first match from the current position without moving it', async () => {
+      expect(await cbuf.indexOf('sync')).to.equal(0)
+      await cbuf.seek(1)
+      expect(await cbuf.indexOf('sync')).to.equal(6)
+      expect(cbuf.position).to.equal(1)
+      await cbuf.reset()
+    })
+
+    it('should find the last match when searching backwards', async () => {
+      expect(await cbuf.indexOf('sync', { backwards: true })).to.equal(12)
+      expect(await cbuf.indexOf('sync', { to: 15, backwards: true })).to.equal(6)
+    })
+
+    it('should only find matches lying entirely within the range', async () => {
+      expect(await cbuf.indexOf('sync', { from: 7, to: 15 })).to.equal(-1)
+      expect(await cbuf.indexOf('sync', { from: 7, to: 16 })).to.equal(12)
+      expect(await cbuf.indexOf(0x2E, { from: 4, to: 6 })).to.equal(4)
+    })
+
+    it('should return -1 when there is no match', async () => {
+      expect(await cbuf.indexOf('async')).to.equal(-1)
+      expect(await cbuf.indexOf('async', { backwards: true })).to.equal(-1)
+    })
+
+    it('should throw for empty patterns and invalid ranges', async () => {
+      const attempt = async (pattern: string, options = {}): Promise<any> => {
+        try {
+          await cbuf.indexOf(pattern, options)
+        } catch (err) {
+          return err
+        }
+      }
+
+      expect((await attempt('')).message).to.equal('Pattern must not be empty.')
+      expect(await attempt('s', { from: 5, to: 4 })).to.be.an.instanceof(RangeError)
+      expect(await attempt('s', { to: 17 })).to.be.an.instanceof(RangeError)
+      expect((await attempt('s', { from: -1 })).message).to.equal('From and to options must be positive integers.')
+    })
+  })
+
+  describe('scanTo', () => {
+    it('should move to the start of the next match', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.from([0x00, 0xFF, 0x01, 0xFF, 0xDA, 0x02]))
+
+      expect(await cbuf.scanTo(Buffer.from([0xFF, 0xDA]))).to.equal(3)
+      expect(cbuf.position).to.equal(3)
+      expect(await cbuf.scanTo(Buffer.from([0xFF, 0xDA]))).to.equal(3)
+    })
+
+    it('should leave the position untouched when there is no match', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.from('test'))
+      await cbuf.seek(1)
+
+      expect(await cbuf.scanTo('t', 3)).to.equal(-1)
+      expect(cbuf.position).to.equal(1)
+    })
+  })
+
+  describe('searching files', () => {
+    const filePath = path.join(__dirname, '/samples/SearchTest.bin')
+    let cfile: ConsumableFile
+    before(async () => {
+      // signatures straddling the 64KiB chunk boundaries, in both directions
+      const data = Buffer.alloc(200000, 0x61)
+      data.write('PK\x05\x06', 65534, 'latin1')
+      data.write('PK\x05\x06', 200000 - 65536 - 2, 'latin1')
+      await fs.promises.writeFile(filePath, data)
+    })
+
+    beforeEach(async () => {
+      cfile = new ConsumableFile(filePath)
+      await cfile.open()
+    })
+
+    afterEach(async () => {
+      await cfile.close()
+    })
+
+    after(async () => {
+      await fs.promises.unlink(filePath)
+    })
+
+    it('should find matches straddling chunk boundaries', async () => {
+      expect(await cfile.indexOf('PK\x05\x06')).to.equal(65534)
+      expect(await cfile.indexOf('PK\x05\x06', { from: 65535 })).to.equal(200000 - 65536 - 2)
+      expect(await cfile.indexOf('PK\x05\x06', { backwards: true })).to.equal(200000 - 65536 - 2)
+      expect(await cfile.indexOf('PK\x05\x06', { to: 134000, backwards: true })).to.equal(65534)
+      expect(await cfile.indexOf('PK\x05\x07', { backwards: true })).to.equal(-1)
+    })
+
+    it('should search within subviews relative to their start', async () => {
+      const view = cfile.subview(65000, 1000)
+      expect(await view.indexOf('PK')).to.equal(534)
+    })
+  })
+
+  describe('searching streams', () => {
+    it('should search forward through a stream of unknown length', async () => {
+      const cstream = new ConsumableStream(Readable.from([Buffer.from('..sy'), Buffer.from('nc..')]))
+
+      expect(await cstream.indexOf('sync')).to.equal(2)
+      expect(await cstream.scanTo('sync')).to.equal(2)
+      expect((await cstream.read(4)).toString()).to.equal('sync')
+      expect(await cstream.indexOf('sync')).to.equal(-1)
+    })
+
+    it('should refuse to search backwards without a known end', async () => {
+      const cstream = new ConsumableStream(Readable.from([Buffer.from('sync')]))
+      let res = null
+      try {
+        await cstream.indexOf('sync', { backwards: true })
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(Error)
+      expect(await cstream.indexOf('sync', { to: 4, backwards: true })).to.equal(0)
+    })
+  })
+})
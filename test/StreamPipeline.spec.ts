@@ -186,5 +186,40 @@ describe('StreamPipeline tests', () => {
       res = (await fs.promises.readFile(filePath)).toString('utf8')
       expect(res).to.equal('Start testTest file\nAnother test file -n\n\ntestEnd test')
     })
+
+    it('should end the previous destination stream on each pump, leaving the file open', async () => {
+      await sfile.load(sbuf)
+      const loaded = sfile.destination as fs.WriteStream
+      await sfile.pump(Buffer.from('first '))
+      const first = sfile.destination as fs.WriteStream
+      await sfile.pump(Buffer.from('second'))
+
+      expect(loaded.writableEnded).to.equal(true)
+      expect(first.writableEnded).to.equal(true)
+      expect(sfile.destination?.writableEnded).to.equal(false)
+      await sbuf.close()
+      expect((await fs.promises.readFile(filePath)).toString('utf8')).to.equal('first second')
+    })
+
+    it('should interleave correctly with writes made directly to a buffered ExpandingFile', async () => {
+      await sbuf.close()
+      sbuf = new ExpandingFile(filePath, { writeBuffer: 1024 })
+      await sbuf.open()
+      await sfile.load(sbuf)
+
+      await sbuf.write('Start ')
+      let res: any = await sfile.pump(path.join(__dirname, '/samples/TestFile1.txt'))
+      expect(res.offset).to.equal(6)
+
+      await sbuf.write('middle ')
+      res = await sfile.pump(Buffer.from('pumped '))
+      expect(res.offset).to.equal(23)
+
+      await sbuf.write('end')
+      await sbuf.close()
+
+      res = (await fs.promises.readFile(filePath)).toString('utf8')
+      expect(res).to.equal('Start Test file\nmiddle pumped end')
+    })
   })
 })
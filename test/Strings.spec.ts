@@ -0,0 +1,147 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { expect } from 'chai'
+import { ConsumableBuffer } from './../src/ConsumableBuffer'
+import { ExpandingBuffer } from './../src/ExpandingBuffer'
+
+describe('Strings tests', () => {
+  let sbuf: ExpandingBuffer
+  beforeEach(() => {
+    sbuf = new ExpandingBuffer()
+  })
+
+  describe('NUL-terminated strings', () => {
+    it('should read up to and consume the terminator', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.from('TEST\0MORE\0'))
+
+      expect(await cbuf.readCString()).to.equal('TEST')
+      expect(await cbuf.readCString()).to.equal('MORE')
+      expect(cbuf.buf.length).to.equal(0)
+    })
+
+    it('should use a two byte terminator for utf16le', async () => {
+      await sbuf.writeCString('Āb', { encoding: 'utf16le' })
+      expect(sbuf.buf.toString('hex')).to.equal('000162000000')
+
+      const cbuf = new ConsumableBuffer(sbuf.buf)
+      expect(await cbuf.readCString({ encoding: 'utf16le' })).to.equal('Āb')
+    })
+
+    it('should throw without consuming anything once maxLength is exceeded', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.from('RUNAWAY STRING\0'))
+      await cbuf.read(1)
+      let res = null
+      try {
+        await cbuf.readCString({ maxLength: 4 })
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(RangeError)
+      expect(res.message).to.equal('String exceeds the maximum length of 4 bytes.')
+      expect(cbuf.position).to.equal(1)
+      expect(await cbuf.readCString({ maxLength: 13 })).to.equal('UNAWAY STRING')
+    })
+
+    it('should throw a RangeError without consuming anything when the terminator is missing', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.from('TEST'))
+      let res = null
+      try {
+        await cbuf.readCString()
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(RangeError)
+      expect(res.message).to.equal('String terminator not found before the end of the resource.')
+      expect(cbuf.position).to.equal(0)
+    })
+
+    it('should find terminators beyond the initial search window', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.from('x'.repeat(1000) + '\0y\0'))
+      expect(await cbuf.readCString()).to.equal('x'.repeat(1000))
+      expect(await cbuf.readCString()).to.equal('y')
+    })
+
+    it('should refuse to write strings containing NUL', async () => {
+      let res = null
+      try {
+        await sbuf.writeCString('a\0b')
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(Error)
+      expect(res.message).to.equal('NUL-terminated strings cannot contain a NUL character.')
+    })
+  })
+
+  describe('length-prefixed strings', () => {
+    it('should round-trip strings with each kind of prefix', async () => {
+      await sbuf.writePrefixedString('one', 'uint8')
+      await sbuf.writePrefixedString('two', 'uint16be')
+      await sbuf.writePrefixedString('three', 'uint32le', { encoding: 'latin1' })
+      await sbuf.writePrefixedString('x'.repeat(200), 'uleb128')
+      expect(sbuf.buf.slice(0, 6).toString('hex')).to.equal('036f6e650003')
+
+      const cbuf = new ConsumableBuffer(sbuf.buf)
+      expect(await cbuf.readPrefixedString('uint8')).to.equal('one')
+      expect(await cbuf.readPrefixedString('uint16be')).to.equal('two')
+      expect(await cbuf.readPrefixedString('uint32le', { encoding: 'latin1' })).to.equal('three')
+      expect(await cbuf.readPrefixedString('uleb128')).to.equal('x'.repeat(200))
+    })
+
+    it('should refuse lengths beyond maxLength before reading the string', async () => {
+      const cbuf = new ConsumableBuffer(Buffer.from([0xFF, 0xFF, 0xFF, 0xFF]))
+      let res = null
+      try {
+        await cbuf.readPrefixedString('uint32le', { maxLength: 1024 })
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(RangeError)
+      expect(res.message).to.equal('String exceeds the maximum length of 1024 bytes.')
+    })
+  })
+
+  describe('fixed-width strings', () => {
+    it('should pad with NUL bytes by default and strip them on read', async () => {
+      await sbuf.writeFixedString('abc', 6)
+      expect(sbuf.buf.toString('hex')).to.equal('616263000000')
+
+      expect(await new ConsumableBuffer(sbuf.buf).readFixedString(6)).to.equal('abc')
+    })
+
+    it('should pad with spaces when asked to and strip them on read', async () => {
+      await sbuf.writeFixedString('ab', 8, { encoding: 'utf16le', padding: 'space' })
+      expect(sbuf.buf.toString('hex')).to.equal('6100620020002000')
+
+      expect(await new ConsumableBuffer(sbuf.buf).readFixedString(8, { encoding: 'utf16le', padding: 'space' })).to.equal('ab')
+    })
+
+    it('should throw a RangeError when the string does not fit the field', async () => {
+      let res = null
+      try {
+        await sbuf.writeFixedString('éé', 3)
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(RangeError)
+      expect(res.message).to.equal('String of 4 bytes does not fit within a 3 byte field.')
+    })
+
+    it('should throw a TypeError for unsupported encodings', async () => {
+      let res = null
+      try {
+        await sbuf.writeFixedString('a', 3, { encoding: 'base64' as any })
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(TypeError)
+      expect(res.message).to.equal('Unsupported string encoding "base64".')
+    })
+  })
+})
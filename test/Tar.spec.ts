@@ -0,0 +1,162 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { expect } from 'chai'
+import * as fs from 'fs'
+import * as path from 'path'
+import { ConsumableBuffer } from './../src/ConsumableBuffer'
+import { ConsumableFile } from './../src/ConsumableFile'
+import { ExpandingFile } from './../src/ExpandingFile'
+import { TarHeader, decodePaxRecords, encodePaxRecords, encodeTarHeader } from './../src/Tar'
+import { TarReader } from './../src/TarReader'
+import { TarWriter } from './../src/TarWriter'
+
+describe('Tar tests', () => {
+  const header = (name: string, size: number, type: TarHeader['type'] = 'file'): TarHeader => {
+    return { name, type, mode: 0o644, uid: 1000, gid: 1000, size, mtime: new Date(1600000000000), linkname: '', uname: 'user', gname: 'group' }
+  }
+
+  describe('header encoding', () => {
+    it('should write ustar headers with a valid checksum', () => {
+      const block = encodeTarHeader(header('test.txt', 4))
+
+      expect(block.length).to.equal(512)
+      expect(block.toString('ascii', 100, 108)).to.equal('0000644\0')
+      expect(block.toString('ascii', 124, 136)).to.equal('00000000004\0')
+      expect(block.toString('ascii', 257, 265)).to.equal('ustar\u000000')
+
+      let sum = 0
+      for (let i = 0; i < 512; i++) {
+        sum += i >= 148 && i < 156 ? 0x20 : block[i]
+      }
+      expect(parseInt(block.toString('ascii', 148, 154), 8)).to.equal(sum)
+    })
+
+    it('should round-trip pax records, whose lengths count their own digits', () => {
+      const records = { path: 'a'.repeat(91), mtime: '1600000000.5' }
+      const encoded = encodePaxRecords(records)
+
+      expect(encoded.toString().startsWith('101 path=')).to.equal(true)
+      expect(decodePaxRecords(encoded)).to.deep.equal(records)
+      expect(() => decodePaxRecords(Buffer.from('99 path=x\n'))).to.throw('Malformed pax extended header record at offset 0.')
+    })
+  })
+
+  describe('writing and reading archives', () => {
+    const archivePath = path.join(__dirname, '/samples/TarTest.tar')
+    const longName = 'deeply/nested/'.repeat(10) + 'file.txt'
+    const veryLongName = 'x'.repeat(120) + '/' + 'y'.repeat(120) + '.txt'
+
+    before(async () => {
+      const sfile = new ExpandingFile(archivePath, { writeBuffer: 4096 })
+      await sfile.open()
+      const tar = new TarWriter(sfile)
+      await tar.addDirectory('samples', { mtime: new Date(1600000000000) })
+      await tar.addFile('samples/TestFile1.txt', path.join(__dirname, '/samples/TestFile1.txt'))
+      await tar.addFile('samples/empty.bin', Buffer.alloc(0))
+      await tar.addFile(longName, Buffer.from('long'), { uname: 'someone', uid: 1000 })
+      await tar.addFile(veryLongName, Buffer.alloc(600, 0x61), { mode: 0o600 })
+      await tar.addSymlink('link', 'z'.repeat(150))
+      await tar.finish()
+      await sfile.close()
+    })
+
+    after(async () => {
+      await fs.promises.unlink(archivePath)
+    })
+
+    it('should pad every entry out to whole blocks', async () => {
+      const stats = await fs.promises.stat(archivePath)
+      expect(stats.size % 512).to.equal(0)
+    })
+
+    it('should list the entries with their metadata', async () => {
+      const cfile = new ConsumableFile(archivePath)
+      await cfile.open()
+      try {
+        const entries = await new TarReader(cfile).list()
+
+        expect(entries.map(entry => entry.name)).to.deep.equal(['samples/', 'samples/TestFile1.txt', 'samples/empty.bin', longName, veryLongName, 'link'])
+        expect(entries.map(entry => entry.type)).to.deep.equal(['directory', 'file', 'file', 'file', 'file', 'symlink'])
+        expect(entries[0].mode).to.equal(0o755)
+        expect(entries[0].mtime.getTime()).to.equal(1600000000000)
+        expect(entries[1].size).to.equal(10)
+        expect(entries[3].uname).to.equal('someone')
+        expect(entries[3].uid).to.equal(1000)
+        expect(entries[3].pax).to.deep.equal({})
+        expect(entries[4].mode).to.equal(0o600)
+        expect(entries[4].pax.path).to.equal(veryLongName)
+        expect(entries[5].linkname).to.equal('z'.repeat(150))
+      } finally {
+        await cfile.close()
+      }
+    })
+
+    it('should expose entry data as bounded views', async () => {
+      const cfile = new ConsumableFile(archivePath)
+      await cfile.open()
+      try {
+        const entries = await new TarReader(cfile).list()
+
+        expect((await entries[1].data.read(10)).toString()).to.equal('Test file\n')
+        expect(entries[1].data.eof()).to.equal(true)
+        expect(entries[2].data.length).to.equal(0)
+        expect((await entries[3].data.read(4)).toString()).to.equal('long')
+        expect(Buffer.compare(await entries[4].data.read(600), Buffer.alloc(600, 0x61))).to.equal(0)
+      } finally {
+        await cfile.close()
+      }
+    })
+  })
+
+  describe('reading other archives', () => {
+    const archive = (...blocks: Buffer[]): ConsumableBuffer => new ConsumableBuffer(Buffer.concat([...blocks, Buffer.alloc(1024)]))
+    const padded = (data: string): Buffer => Buffer.concat([Buffer.from(data), Buffer.alloc(512 - data.length)])
+
+    it('should apply GNU long names and global pax headers', async () => {
+      const name = 'n'.repeat(200)
+      const globalRecords = encodePaxRecords({ uname: 'everyone' })
+      const entries = await new TarReader(archive(
+        encodeTarHeader(header('pax_global_header', globalRecords.length), 'g'),
+        Buffer.concat([globalRecords, Buffer.alloc(512 - globalRecords.length)]),
+        encodeTarHeader(header('././@LongLink', name.length + 1), 'L'),
+        padded(name + '\0'),
+        encodeTarHeader(header('truncated', 3)),
+        padded('abc'),
+        encodeTarHeader(header('short', 0))
+      )).list()
+
+      expect(entries.map(entry => entry.name)).to.deep.equal([name, 'short'])
+      expect(entries.map(entry => entry.uname)).to.deep.equal(['everyone', 'everyone'])
+      expect((await entries[0].data.read(3)).toString()).to.equal('abc')
+    })
+
+    it('should throw when a header checksum does not match', async () => {
+      const block = encodeTarHeader(header('test.txt', 0))
+      block[0] = 0x75
+      let res = null
+      try {
+        await new TarReader(archive(block)).list()
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(Error)
+      expect(res.message).to.equal('Tar header checksum mismatch at offset 0.')
+    })
+
+    it('should throw when the archive ends partway through a header', async () => {
+      let res = null
+      try {
+        await new TarReader(new ConsumableBuffer(Buffer.concat([encodeTarHeader(header('a', 0)), Buffer.alloc(100)]))).list()
+      } catch (err) {
+        res = err
+      }
+      expect(res.message).to.equal('Truncated tar archive; expected a header at offset 512.')
+    })
+  })
+})
@@ -0,0 +1,110 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { expect } from 'chai'
+import { ConsumableBuffer } from './../src/ConsumableBuffer'
+import { ExpandingBuffer } from './../src/ExpandingBuffer'
+import { encodeSLEB128, encodeULEB128, encodeVLQ, zigzagDecode, zigzagEncode } from './../src/Varint'
+
+describe('Varint tests', () => {
+  const expectThrows = async (fn: () => Promise<any>, type: any, message: string): Promise<void> => {
+    let res = null
+    try {
+      await fn()
+    } catch (err) {
+      res = err
+    }
+    expect(res).to.be.an.instanceof(type)
+    expect(res.message).to.equal(message)
+  }
+
+  describe('LEB128', () => {
+    it('should encode unsigned and signed values to known byte sequences', () => {
+      expect(encodeULEB128(0).toString('hex')).to.equal('00')
+      expect(encodeULEB128(624485).toString('hex')).to.equal('e58e26')
+      expect(encodeSLEB128(-123456).toString('hex')).to.equal('c0bb78')
+      expect(encodeSLEB128(64).toString('hex')).to.equal('c000')
+      expect(encodeSLEB128(-1).toString('hex')).to.equal('7f')
+    })
+
+    it('should round-trip values through ExpandingBuffer and ConsumableBuffer', async () => {
+      const values = [0, 1, 127, 128, 300, 2 ** 32, Number.MAX_SAFE_INTEGER]
+      const signed = [0, -1, 63, -64, 64, -65, -(2 ** 40), Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER]
+      const sbuf = new ExpandingBuffer()
+      for (const value of values) {
+        await sbuf.writeULEB128(value)
+      }
+      for (const value of signed) {
+        await sbuf.writeSLEB128(value)
+        await sbuf.writeZigZag(Math.trunc(value / 2))
+      }
+
+      const cbuf = new ConsumableBuffer(sbuf.buf)
+      for (const value of values) {
+        expect(await cbuf.readULEB128()).to.equal(value)
+      }
+      for (const value of signed) {
+        expect(await cbuf.readSLEB128()).to.equal(value)
+        expect(await cbuf.readZigZag()).to.equal(Math.trunc(value / 2))
+      }
+      expect(cbuf.buf.length).to.equal(0)
+    })
+
+    it('should reject overlong encodings', async () => {
+      await expectThrows(async () => new ConsumableBuffer(Buffer.from([0x81, 0x00])).readULEB128(), Error, 'Malformed ULEB128; encoding is overlong.')
+      await expectThrows(async () => new ConsumableBuffer(Buffer.from([0xFF, 0x7F])).readSLEB128(), Error, 'Malformed SLEB128; encoding is overlong.')
+      await expectThrows(async () => new ConsumableBuffer(Buffer.from([0x80, 0x00])).readSLEB128(), Error, 'Malformed SLEB128; encoding is overlong.')
+    })
+
+    it('should stop reading after 8 bytes of continuation', async () => {
+      const buf = Buffer.alloc(16, 0x80)
+      await expectThrows(async () => new ConsumableBuffer(buf).readULEB128(), Error, 'Malformed ULEB128; encoding exceeds 8 bytes.')
+    })
+
+    it('should reject values beyond the safe integer range', async () => {
+      const buf = Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0x7F])
+      await expectThrows(async () => new ConsumableBuffer(buf).readULEB128(), RangeError, 'ULEB128 value exceeds Number.MAX_SAFE_INTEGER.')
+      expect(() => encodeULEB128(-1)).to.throw(RangeError)
+    })
+
+    it('should throw a RangeError when the input is truncated', async () => {
+      await expectThrows(async () => new ConsumableBuffer(Buffer.from([0x80, 0x80])).readULEB128(), RangeError, 'Buffer exhausted; attempted to read beyond buffer.')
+    })
+  })
+
+  describe('zigzag', () => {
+    it('should interleave positive and negative values', () => {
+      expect([0, -1, 1, -2, 2].map(zigzagEncode)).to.deep.equal([0, 1, 2, 3, 4])
+      expect([0, 1, 2, 3, 4].map(zigzagDecode)).to.deep.equal([0, -1, 1, -2, 2])
+    })
+  })
+
+  describe('VLQ', () => {
+    it('should encode to the MIDI byte sequences', () => {
+      expect(encodeVLQ(0).toString('hex')).to.equal('00')
+      expect(encodeVLQ(0x80).toString('hex')).to.equal('8100')
+      expect(encodeVLQ(0x0FFFFFFF).toString('hex')).to.equal('ffffff7f')
+      expect(() => encodeVLQ(0x10000000)).to.throw(RangeError)
+    })
+
+    it('should round-trip values through ExpandingBuffer and ConsumableBuffer', async () => {
+      const sbuf = new ExpandingBuffer()
+      await sbuf.writeVLQ(0x3FFF)
+      await sbuf.writeVLQ(0x200000)
+
+      const cbuf = new ConsumableBuffer(sbuf.buf)
+      expect(await cbuf.readVLQ()).to.equal(0x3FFF)
+      expect(await cbuf.readVLQ()).to.equal(0x200000)
+    })
+
+    it('should reject malformed encodings', async () => {
+      await expectThrows(async () => new ConsumableBuffer(Buffer.from([0x80, 0x01])).readVLQ(), Error, 'Malformed VLQ; encoding is overlong.')
+      await expectThrows(async () => new ConsumableBuffer(Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, 0x7F])).readVLQ(), Error, 'Malformed VLQ; encoding exceeds 4 bytes.')
+    })
+  })
+})
@@ -0,0 +1,190 @@
+//
+// ByteAccordion - JS library for smooth, Promise-based interaction with File and Buffer resources.
+//
+// @copyright (c) 2020 Damian Bushong <katana@odios.us>
+// @license MIT license
+// @url <https://github.com/damianb/ByteAccordion>
+//
+
+import { expect } from 'chai'
+import * as fs from 'fs'
+import * as path from 'path'
+import { ConsumableBuffer } from './../src/ConsumableBuffer'
+import { ConsumableFile } from './../src/ConsumableFile'
+import { ExpandingBuffer } from './../src/ExpandingBuffer'
+import { ExpandingFile } from './../src/ExpandingFile'
+import { crc32 } from './../src/Hashes'
+import { ZipEntry, fromDosDateTime, toDosDateTime } from './../src/Zip'
+import { ZipReader } from './../src/ZipReader'
+import { ZipWriter } from './../src/ZipWriter'
+
+describe('Zip tests', () => {
+  const text = Buffer.from('This is a test, this is only a test. '.repeat(100))
+  const mtime = new Date(2020, 5, 15, 12, 30, 44)
+
+  const build = async (forceZip64: boolean): Promise<Buffer> => {
+    const sbuf = new ExpandingBuffer()
+    await sbuf.write('preamble')
+    const zip = new ZipWriter(sbuf, { forceZip64 })
+    await zip.addDirectory('docs', { mtime })
+    await zip.addFile('docs/text.txt', text, { mtime, comment: 'deflated' })
+    await zip.addFile('docs/stored.bin', Buffer.from([0x00, 0xFF, 0x10]), { method: 'stored', mode: 0o600 })
+    await zip.addFile('docs/empty.txt', Buffer.alloc(0))
+    await zip.addFile('docs/ünïcödé.txt', Buffer.from('utf8'))
+    await zip.finish('archive comment')
+
+    return sbuf.buf
+  }
+
+  describe('DOS date and time fields', () => {
+    it('should round-trip at two second resolution', () => {
+      const [time, day] = toDosDateTime(mtime)
+      expect(fromDosDateTime(time, day).getTime()).to.equal(mtime.getTime())
+      expect(fromDosDateTime(...toDosDateTime(new Date(1970, 0, 1))).getFullYear()).to.equal(1980)
+    })
+  })
+
+  for (const forceZip64 of [false, true]) {
+    describe(forceZip64 ? 'ZIP64 archives' : 'ZIP archives', () => {
+      let archive: Buffer
+      let zip: ZipReader
+      let entries: ZipEntry[]
+      before(async () => {
+        archive = await build(forceZip64)
+        zip = new ZipReader(new ConsumableBuffer(archive))
+        entries = await zip.list()
+      })
+
+      it('should list the entries from the central directory', () => {
+        expect(entries.map(entry => entry.name)).to.deep.equal(['docs/', 'docs/text.txt', 'docs/stored.bin', 'docs/empty.txt', 'docs/ünïcödé.txt'])
+        expect(entries.map(entry => entry.isDirectory)).to.deep.equal([true, false, false, false, false])
+        expect(entries.map(entry => entry.method)).to.deep.equal([0, 8, 0, 8, 8])
+        expect(entries[0].externalAttributes >>> 16).to.equal(0o40755)
+        expect(entries[2].externalAttributes >>> 16).to.equal(0o100600)
+        expect(entries[1].mtime.getTime()).to.equal(mtime.getTime())
+        expect(entries[1].comment).to.equal('deflated')
+        expect(zip.comment).to.equal('archive comment')
+      })
+
+      it('should record sizes and CRC-32s', () => {
+        expect(entries[1].size).to.equal(text.length)
+        expect(entries[1].compressedSize).to.be.below(text.length)
+        expect(entries[1].crc32).to.equal(crc32(text))
+        expect(entries[2].size).to.equal(3)
+        expect(entries[2].compressedSize).to.equal(3)
+        expect(entries[1].headerOffset).to.be.above(8)
+      })
+
+      it('should read stored and deflated entries, verifying their CRC-32', async () => {
+        expect(Buffer.compare(await zip.read(entries[1]), text)).to.equal(0)
+        expect(Buffer.compare(await zip.read(entries[2]), Buffer.from([0x00, 0xFF, 0x10]))).to.equal(0)
+        expect((await zip.read(entries[3])).length).to.equal(0)
+        expect((await zip.read(entries[4])).toString()).to.equal('utf8')
+      })
+
+      it('should open entries as lazily-read views', async () => {
+        const data = await zip.open(entries[1])
+        expect((await data.read(4)).toString()).to.equal('This')
+        await data.aseek(text.length - 6)
+        expect((await data.read(5)).toString()).to.equal('test.')
+      })
+    })
+  }
+
+  describe('ZipReader', () => {
+    it('should pass over end of central directory signatures within the archive comment', async () => {
+      const sbuf = new ExpandingBuffer()
+      const writer = new ZipWriter(sbuf)
+      await writer.addFile('a.txt', Buffer.from('a'))
+      await writer.finish('PK\u0005\u0006 lookalike')
+
+      const zip = new ZipReader(new ConsumableBuffer(sbuf.buf))
+      expect((await zip.list()).map(entry => entry.name)).to.deep.equal(['a.txt'])
+      expect(zip.comment).to.equal('PK\u0005\u0006 lookalike')
+    })
+
+    it('should throw when the data does not match the CRC-32', async () => {
+      const sbuf = new ExpandingBuffer()
+      const writer = new ZipWriter(sbuf)
+      await writer.addFile('a.txt', Buffer.from('abc'), { method: 'stored' })
+      await writer.finish()
+
+      const archive = Buffer.from(sbuf.buf)
+      archive[30 + 'a.txt'.length] = 0x78
+      const zip = new ZipReader(new ConsumableBuffer(archive))
+      let res = null
+      try {
+        await zip.read((await zip.list())[0])
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(Error)
+      expect(res.message).to.equal('CRC-32 mismatch for ZIP entry "a.txt".')
+    })
+
+    it('should throw for resources that are not ZIP archives', async () => {
+      const zip = new ZipReader(new ConsumableBuffer(Buffer.alloc(100)))
+      let res = null
+      try {
+        await zip.list()
+      } catch (err) {
+        res = err
+      }
+      expect(res.message).to.equal('End of central directory record not found; is this a ZIP archive?')
+    })
+
+    it('should refuse unsupported compression methods', async () => {
+      const zip = new ZipReader(new ConsumableBuffer(Buffer.alloc(0)))
+      const entry = (await new ZipReader(new ConsumableBuffer(await build(false))).list())[1]
+      let res = null
+      try {
+        await zip.open({ ...entry, method: 14 })
+      } catch (err) {
+        res = err
+      }
+      expect(res.message).to.equal('ZIP entry "docs/text.txt" uses unsupported compression method 14.')
+    })
+  })
+
+  describe('ZipWriter', () => {
+    it('should stream entries in from files into an ExpandingFile', async () => {
+      const archivePath = path.join(__dirname, '/samples/ZipTest.zip')
+      const sfile = new ExpandingFile(archivePath)
+      await sfile.open()
+      const writer = new ZipWriter(sfile)
+      await writer.addFile('TestFile1.txt', path.join(__dirname, '/samples/TestFile1.txt'))
+      const fh = await fs.promises.open(path.join(__dirname, '/samples/TestFile2.txt'), 'r')
+      try {
+        await writer.addFile('TestFile2.txt', fh, { method: 'stored' })
+      } finally {
+        await fh.close()
+      }
+      await writer.finish()
+      await sfile.close()
+
+      const cfile = new ConsumableFile(archivePath)
+      await cfile.open()
+      try {
+        const zip = new ZipReader(cfile)
+        const entries = await zip.list()
+        expect((await zip.read(entries[0])).toString()).to.equal('Test file\n')
+        expect((await zip.read(entries[1])).toString()).to.equal(await fs.promises.readFile(path.join(__dirname, '/samples/TestFile2.txt'), 'utf8'))
+      } finally {
+        await cfile.close()
+        await fs.promises.unlink(archivePath)
+      }
+    })
+
+    it('should throw for unsupported compression methods', async () => {
+      const writer = new ZipWriter(new ExpandingBuffer())
+      let res = null
+      try {
+        await writer.addFile('a.txt', Buffer.from('a'), { method: 'lzma' as any })
+      } catch (err) {
+        res = err
+      }
+      expect(res).to.be.an.instanceof(TypeError)
+      expect(res.message).to.equal('Unsupported ZIP compression method "lzma".')
+    })
+  })
+})